@@ -8,6 +8,7 @@ import ResetPasswordForm from './components/auth/ResetPasswordForm';
 import ShareCertificateView from './components/ShareCertificateView';
 import AccountSettings from './components/auth/AccountSettings';
 import LandingPage from './components/LandingPage';
+import DemoRoute from './components/DemoRoute';
 
 const App = () => {
   return (
@@ -31,6 +32,14 @@ const App = () => {
               </ProtectedRoute>
             } 
           />
+          <Route 
+            path="/demo" 
+            element={
+              <DemoRoute>
+                <XafeWalletDashboard />
+              </DemoRoute>
+            } 
+          />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </AuthProvider>
@@ -0,0 +1,325 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Upload, FileSpreadsheet, Loader2, CheckCircle, AlertCircle, AlertTriangle, Paperclip } from 'lucide-react';
+import { parseImportFile, readZipFiles, ImportTable } from '@/lib/import-parsers';
+import {
+  IMPORT_FIELDS,
+  guessColumnMapping,
+  validateImportRows,
+  importCertificates,
+  ColumnMapping,
+  ImportField,
+  ImportResult
+} from '@/lib/bulk-import';
+import { isVaultUnlocked } from '@/lib/vault';
+import { Certificate, Settings } from '@/lib/types';
+
+interface BulkImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existingCertificates: Certificate[];
+  settings: Settings;
+  onImported: (certificates: Certificate[]) => void;
+}
+
+type Step = 'upload' | 'map' | 'review' | 'done';
+
+const selectClassName = 'h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring';
+
+const BulkImportDialog = ({
+  isOpen,
+  onClose,
+  existingCertificates,
+  settings,
+  onImported
+}: BulkImportDialogProps) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [dataFile, setDataFile] = useState<File | null>(null);
+  const [zipFile, setZipFile] = useState<File | null>(null);
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [zipFiles, setZipFiles] = useState<Map<string, File> | undefined>(undefined);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep('upload');
+      setDataFile(null);
+      setZipFile(null);
+      setTable(null);
+      setZipFiles(undefined);
+      setMapping(null);
+      setProgress(0);
+      setResult(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const rows = table && mapping
+    ? validateImportRows(table, mapping, existingCertificates, zipFiles)
+    : [];
+  const validRows = rows.filter(row => row.errors.length === 0);
+  const matchedFiles = validRows.filter(row => row.file).length;
+  const encrypt = !!settings.vault_enabled;
+
+  const handleReadFiles = async () => {
+    if (!dataFile) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const parsed = await parseImportFile(dataFile);
+      if (parsed.rows.length === 0) {
+        setError('The file does not contain any certificates');
+        return;
+      }
+
+      setTable(parsed);
+      setMapping(guessColumnMapping(parsed.columns));
+      setZipFiles(zipFile ? await readZipFiles(zipFile) : undefined);
+      setStep('map');
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, column: string) => {
+    setMapping(prev => prev && { ...prev, [field]: column || null });
+  };
+
+  const missingRequired = mapping
+    ? IMPORT_FIELDS.filter(f => f.required && !mapping[f.field])
+    : [];
+
+  const handleImport = async () => {
+    if (encrypt && matchedFiles > 0 && !isVaultUnlocked()) {
+      setError('Unlock your vault in Settings before importing files');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setProgress(0);
+
+      const importResult = await importCertificates(rows, {
+        encrypt,
+        expiryWindowDays: settings.expiry_reminders_days,
+        onProgress: (completed, total) => setProgress(Math.round((completed / total) * 100))
+      });
+
+      setResult(importResult);
+      setStep('done');
+      if (importResult.created.length > 0) {
+        onImported(importResult.created);
+      }
+    } catch (err) {
+      console.error('Error importing certificates:', err);
+      setError('Import failed. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={isLoading ? undefined : onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import Certificates</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto pr-6 -mr-6 space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {step === 'upload' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="importDataFile">Certificate List</Label>
+                <Input
+                  id="importDataFile"
+                  type="file"
+                  accept=".csv,.json,.xlsx"
+                  onChange={(e) => setDataFile(e.target.files?.[0] || null)}
+                />
+                <p className="text-xs text-gray-500">
+                  CSV, JSON or Excel (.xlsx) with one certificate per row. Dates can be
+                  yyyy-mm-dd or dd/mm/yyyy.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="importZipFile">Certificate Files (optional)</Label>
+                <Input
+                  id="importZipFile"
+                  type="file"
+                  accept=".zip"
+                  onChange={(e) => setZipFile(e.target.files?.[0] || null)}
+                />
+                <p className="text-xs text-gray-500">
+                  A ZIP of PDF, JPG or PNG files. Files are matched to rows by a file name
+                  column, or by being named after the certificate number.
+                </p>
+              </div>
+            </>
+          )}
+
+          {step === 'map' && table && mapping && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-500">
+                Choose which column holds each field. {table.rows.length} row
+                {table.rows.length === 1 ? '' : 's'} found.
+              </p>
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="grid grid-cols-2 items-center gap-4">
+                  <Label htmlFor={`map-${field}`}>
+                    {label}
+                    {required && <span className="text-red-500"> *</span>}
+                  </Label>
+                  <select
+                    id={`map-${field}`}
+                    className={selectClassName}
+                    value={mapping[field] || ''}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                  >
+                    <option value="">Not imported</option>
+                    {table.columns.map(column => (
+                      <option key={column} value={column}>{column}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {step === 'review' && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                <Badge className="bg-green-100 text-green-800">{validRows.length} ready</Badge>
+                {rows.length - validRows.length > 0 && (
+                  <Badge variant="destructive">{rows.length - validRows.length} with errors</Badge>
+                )}
+                {zipFiles && (
+                  <Badge variant="secondary">{matchedFiles} with files</Badge>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">
+                Rows with errors are skipped. Fix them in your file and import it again to add them.
+              </p>
+
+              <div className="rounded-md border divide-y">
+                {rows.map(row => (
+                  <div key={row.rowNumber} className="px-3 py-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      {row.errors.length > 0 ? (
+                        <AlertCircle className="h-4 w-4 text-red-500 shrink-0" />
+                      ) : (
+                        <CheckCircle className="h-4 w-4 text-green-500 shrink-0" />
+                      )}
+                      <span className="text-gray-400 w-12 shrink-0">Row {row.rowNumber}</span>
+                      <span className="font-medium truncate">{row.draft.title || 'Untitled'}</span>
+                      {row.file && <Paperclip className="h-3 w-3 text-gray-400 shrink-0" />}
+                    </div>
+                    {row.errors.map(message => (
+                      <p key={message} className="ml-20 text-xs text-red-600">{message}</p>
+                    ))}
+                    {row.warnings.map(message => (
+                      <p key={message} className="ml-20 text-xs text-amber-600 flex items-center gap-1">
+                        <AlertTriangle className="h-3 w-3" />
+                        {message}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              {isLoading && <Progress value={progress} />}
+            </div>
+          )}
+
+          {step === 'done' && result && (
+            <div className="space-y-3">
+              <Alert className="bg-green-50 border-green-200">
+                <CheckCircle className="h-4 w-4 text-green-500" />
+                <AlertDescription className="text-green-700">
+                  Imported {result.created.length} certificate{result.created.length === 1 ? '' : 's'}
+                </AlertDescription>
+              </Alert>
+              {result.failed.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    <p className="font-medium">{result.failed.length} could not be imported:</p>
+                    {result.failed.map(failure => (
+                      <p key={failure.rowNumber} className="text-xs">
+                        Row {failure.rowNumber}: {failure.error}
+                      </p>
+                    ))}
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex justify-end gap-2 mt-6 border-t pt-4">
+          {step === 'upload' && (
+            <>
+              <Button type="button" variant="ghost" onClick={onClose}>Cancel</Button>
+              <Button onClick={handleReadFiles} disabled={!dataFile || isLoading}>
+                {isLoading ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                )}
+                Next
+              </Button>
+            </>
+          )}
+          {step === 'map' && (
+            <>
+              <Button type="button" variant="ghost" onClick={() => setStep('upload')}>Back</Button>
+              <Button onClick={() => setStep('review')} disabled={missingRequired.length > 0}>
+                Review
+              </Button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <Button type="button" variant="ghost" onClick={() => setStep('map')} disabled={isLoading}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0 || isLoading}>
+                {isLoading ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                Import {validRows.length}
+              </Button>
+            </>
+          )}
+          {step === 'done' && (
+            <Button onClick={onClose}>Done</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BulkImportDialog;
@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CalendarDays, Copy, Check, RefreshCw, Trash2, Loader2 } from 'lucide-react';
+import { database } from '@/lib/database';
+import { getErrorMessage } from '@/lib/errors';
+import { getCalendarFeedUrl, toWebcalUrl } from '@/lib/calendar';
+import { CalendarFeed } from '@/lib/types';
+
+const CalendarFeedSettings = () => {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadFeed();
+  }, []);
+
+  const loadFeed = async () => {
+    try {
+      setLoading(true);
+      setFeed(await database.calendarFeeds.get());
+    } catch (err) {
+      console.error('Error loading calendar feed:', err);
+      setError(getErrorMessage(err, 'Failed to load calendar feed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    try {
+      setIsUpdating(true);
+      setError(null);
+      setCopied(false);
+      setFeed(await database.calendarFeeds.regenerate());
+    } catch (err) {
+      console.error('Error creating calendar feed:', err);
+      setError(getErrorMessage(err, 'Failed to create calendar feed. Please try again.'));
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      setIsUpdating(true);
+      setError(null);
+      await database.calendarFeeds.delete();
+      setFeed(null);
+    } catch (err) {
+      console.error('Error deleting calendar feed:', err);
+      setError(getErrorMessage(err, 'Failed to turn off calendar feed. Please try again.'));
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const feedUrl = feed ? getCalendarFeedUrl(feed.token) : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying feed URL:', err);
+      setError('Failed to copy link');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Calendar Feed
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500">
+          Subscribe to your certificate expiry dates in Outlook, Google Calendar or Apple
+          Calendar. The calendar updates when your certificates change.
+        </p>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+          </div>
+        ) : feed ? (
+          <>
+            <div className="flex gap-2">
+              <Input value={feedUrl} readOnly className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+                {copied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Anyone with this link can see your certificate titles and expiry dates.
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <a href={toWebcalUrl(feedUrl)}>Subscribe</a>
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleGenerate} disabled={isUpdating}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                New Link
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDelete}
+                disabled={isUpdating}
+                className="text-red-500 hover:text-red-700 hover:bg-red-50"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Turn Off
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button onClick={handleGenerate} disabled={isUpdating} className="w-full">
+            {isUpdating ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <CalendarDays className="h-4 w-4 mr-2" />
+            )}
+            Create Calendar Link
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CalendarFeedSettings;
@@ -0,0 +1,229 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Paperclip, ExternalLink, Trash2, Upload, Loader2, Lock } from 'lucide-react';
+import { format } from 'date-fns';
+import { database } from '@/lib/database';
+import { getErrorMessage } from '@/lib/errors';
+import { isVaultUnlocked } from '@/lib/vault';
+import {
+  uploadAttachment,
+  loadAttachmentFile,
+  formatFileSize,
+  PRIMARY_ATTACHMENT_LABEL
+} from '@/lib/attachments';
+import { Certificate, CertificateAttachment } from '@/lib/types';
+
+interface CertificateAttachmentsProps {
+  certificate: Certificate;
+  encryptUploads?: boolean;
+  /** Called when a new version of the primary certificate file is added */
+  onPrimaryFileChange?: (attachment: CertificateAttachment) => void;
+}
+
+const CertificateAttachments = ({
+  certificate,
+  encryptUploads = false,
+  onPrimaryFileChange
+}: CertificateAttachmentsProps) => {
+  const [attachments, setAttachments] = useState<CertificateAttachment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [label, setLabel] = useState(PRIMARY_ATTACHMENT_LABEL);
+  const [file, setFile] = useState<File | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAttachments = useCallback(async () => {
+    try {
+      setLoading(true);
+      setAttachments(await database.attachments.list(certificate.id));
+    } catch (err) {
+      console.error('Error loading attachments:', err);
+      setError(getErrorMessage(err, 'Failed to load attachments'));
+    } finally {
+      setLoading(false);
+    }
+  }, [certificate.id]);
+
+  useEffect(() => {
+    loadAttachments();
+  }, [loadAttachments]);
+
+  const handleUpload = async () => {
+    if (!file) return;
+
+    if (encryptUploads && !isVaultUnlocked()) {
+      setError('Unlock your vault in Settings before uploading');
+      return;
+    }
+
+    try {
+      setUploading(true);
+      setError(null);
+
+      const attachment = await uploadAttachment({
+        certificateId: certificate.id,
+        file,
+        label,
+        encrypt: encryptUploads
+      });
+
+      setAttachments(prev => [attachment, ...prev]);
+      setFile(null);
+
+      if (attachment.label === PRIMARY_ATTACHMENT_LABEL) {
+        onPrimaryFileChange?.(attachment);
+      }
+    } catch (err) {
+      console.error('Error uploading attachment:', err);
+      setError('Failed to upload file. Please try again.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleOpen = async (attachment: CertificateAttachment) => {
+    try {
+      setError(null);
+      const blob = await loadAttachmentFile(attachment);
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank', 'noopener');
+      // Give the new tab time to load the file before releasing it
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (err) {
+      console.error('Error opening attachment:', err);
+      setError(
+        attachment.is_encrypted && !isVaultUnlocked()
+          ? 'Unlock your vault in Settings to open this file'
+          : 'Failed to open file'
+      );
+    }
+  };
+
+  const handleDelete = async (attachment: CertificateAttachment) => {
+    try {
+      setError(null);
+      await database.attachments.delete(attachment.id);
+      setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+    } catch (err) {
+      console.error('Error deleting attachment:', err);
+      setError(getErrorMessage(err, 'Failed to delete file'));
+    }
+  };
+
+  const labels = [...new Set(attachments.map(a => a.label))].sort();
+
+  return (
+    <div className="space-y-3">
+      <Label>Files</Label>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+        </div>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-gray-500">No files attached</p>
+      ) : (
+        <div className="space-y-3">
+          {labels.map(group => (
+            <div key={group} className="space-y-1">
+              <p className="text-sm font-medium">{group}</p>
+              {attachments
+                .filter(a => a.label === group)
+                .sort((a, b) => b.version - a.version)
+                .map((attachment, index) => (
+                  <div
+                    key={attachment.id}
+                    className="flex items-center justify-between rounded-md border px-3 py-2 text-sm"
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Paperclip className="h-4 w-4 text-gray-400 shrink-0" />
+                      <span>v{attachment.version}</span>
+                      {index === 0 && <Badge variant="secondary">Latest</Badge>}
+                      {attachment.file_rejected && (
+                        <Badge variant="destructive" title={attachment.file_rejected_reason || undefined}>
+                          Removed
+                        </Badge>
+                      )}
+                      {attachment.is_encrypted && <Lock className="h-3 w-3 text-gray-400" />}
+                      <span className="text-gray-500 truncate">
+                        {formatFileSize(attachment.file_size)} · {format(new Date(attachment.created_at), 'dd/MM/yyyy')}
+                      </span>
+                    </div>
+                    <div className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleOpen(attachment)}
+                        disabled={attachment.file_rejected}
+                        title={attachment.checksum ? `SHA-256: ${attachment.checksum}` : undefined}
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(attachment)}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2 rounded-md bg-gray-50 p-3">
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Label, e.g. Transcript"
+            list="attachment-labels"
+            disabled={uploading}
+          />
+          <datalist id="attachment-labels">
+            {[...new Set([PRIMARY_ATTACHMENT_LABEL, 'Transcript', ...labels])].map(option => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+          <Input
+            type="file"
+            accept=".pdf,.jpg,.jpeg,.png"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            disabled={uploading}
+          />
+        </div>
+        <p className="text-xs text-gray-500">
+          Uploading under an existing label adds a new version and keeps the old one
+        </p>
+        <Button
+          size="sm"
+          className="w-full"
+          onClick={handleUpload}
+          disabled={!file || !label.trim() || uploading}
+        >
+          {uploading ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Upload className="h-4 w-4 mr-2" />
+          )}
+          Add File
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CertificateAttachments;
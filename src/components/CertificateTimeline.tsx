@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { History, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { database } from '@/lib/database';
+import { Certificate } from '@/lib/types';
+
+interface CertificateTimelineProps {
+  certificate: Certificate;
+}
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return 'No Expiry';
+  try {
+    return format(new Date(dateString), 'dd/MM/yyyy');
+  } catch {
+    console.error('Invalid date:', dateString);
+    return 'Invalid date';
+  }
+};
+
+const CertificateTimeline = ({ certificate }: CertificateTimelineProps) => {
+  const [history, setHistory] = useState<Certificate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      const entries = certificate.lineage_id
+        ? await database.certificates.history(certificate.lineage_id)
+        : [];
+      setHistory(entries.length > 0 ? entries : [certificate]);
+    } catch (err) {
+      console.error('Error loading certificate history:', err);
+      setHistory([certificate]);
+    } finally {
+      setLoading(false);
+    }
+  }, [certificate]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-2">
+        <History className="h-4 w-4" />
+        Validity History
+      </Label>
+
+      {loading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-3">
+          {history.map(entry => (
+            <li key={entry.id} className="ml-4">
+              <span
+                className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+                  entry.is_archived ? 'bg-gray-300' : 'bg-blue-500'
+                }`}
+              />
+              <div className="flex items-center gap-2 text-sm">
+                <span className="font-medium">
+                  {formatDate(entry.completion_date)} – {formatDate(entry.expiry_date)}
+                </span>
+                {entry.is_archived ? (
+                  <Badge variant="secondary">Archived</Badge>
+                ) : (
+                  <Badge>Current</Badge>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">
+                {entry.cert_number}
+                {entry.archived_at && ` · Renewed ${formatDate(entry.archived_at)}`}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default CertificateTimeline;
@@ -0,0 +1,32 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { setDemoRoute } from '@/lib/demo-mode';
+
+interface DemoRouteProps {
+  children: React.ReactNode;
+}
+
+// Shows its children with the sample wallet instead of the signed-in user's.
+// Demo mode is switched on before they render, so their first load is
+// already demo data, and off again when the route closes
+const DemoRoute = ({ children }: DemoRouteProps) => {
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    setDemoRoute(true);
+    setReady(true);
+    return () => setDemoRoute(false);
+  }, []);
+
+  if (!ready) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default DemoRoute;
@@ -8,6 +8,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { validate } from 'email-validator';
 import { sendCertificateEmail } from '@/lib/email-service';
+import { database } from '@/lib/database';
 import { 
   Mail, 
   Plus, 
@@ -31,6 +32,8 @@ interface Certificate {
   certNumber: string;
   description: string;
   noExpiry?: boolean;
+  file_path?: string | null;
+  is_encrypted?: boolean;
 }
 
 interface Profile {
@@ -170,7 +173,7 @@ const EmailShareDialog: React.FC<EmailShareDialogProps> = ({
       }
       
       // Create certificate files array
-      const certificateFiles = selectedCertificates.map(cert => {
+      const certificateFiles = await Promise.all(selectedCertificates.map(async cert => {
         // If the certificate has a file, use it
         if (cert.file) {
           return {
@@ -179,6 +182,21 @@ const EmailShareDialog: React.FC<EmailShareDialogProps> = ({
           };
         }
         
+        // Fetch stored files through a short-lived signed URL
+        if (cert.file_path && !cert.is_encrypted) {
+          const fileUrl = await database.certificates.getFileUrl(cert.file_path);
+          const response = await fetch(fileUrl);
+          if (!response.ok) {
+            throw new Error(`Failed to load the file for "${cert.title}"`);
+          }
+          const blob = await response.blob();
+          const fileName = cert.file_path.split('/').pop() || cert.title;
+          return {
+            file: new File([blob], fileName, { type: blob.type }),
+            title: cert.title
+          };
+        }
+        
         // Otherwise, create a mock text file with certificate details
         const certDetails = `
           Certificate: ${cert.title}
@@ -198,7 +216,7 @@ const EmailShareDialog: React.FC<EmailShareDialogProps> = ({
           file,
           title: cert.title
         };
-      });
+      }));
       
       // Simulate progress
       const progressInterval = setInterval(() => {
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -26,8 +26,14 @@ import {
   Infinity,
   Loader2,
   QrCode,
-  Printer
+  Printer,
+  Paperclip,
+  EyeOff
 } from 'lucide-react';
+import { database } from '@/lib/database';
+import { getLatestAttachments, formatFileSize } from '@/lib/attachments';
+import { CertificateAttachment } from '@/lib/types';
+import { REDACTABLE_FIELDS, REDACTION_PRESETS, RedactableField, findRedactionPreset } from '@shared/share-redaction';
 
 interface Certificate {
   id: number;
@@ -40,6 +46,9 @@ interface Certificate {
   certNumber: string;
   description: string;
   noExpiry?: boolean;
+  file_path?: string | null;
+  is_encrypted?: boolean;
+  file_key?: string | null;
 }
 
 interface Profile {
@@ -66,15 +75,21 @@ interface PreviewDialogProps {
   onClose: () => void;
   selectedCertificates: Certificate[];
   profile: Profile;
+  /** Details a secure link will hide, shown as hidden in the preview */
+  hiddenFields: RedactableField[];
 }
 
+const HiddenValue = () => <p className="mt-1 italic text-gray-400">Hidden</p>;
+
 const PreviewDialog: React.FC<PreviewDialogProps> = ({ 
   isOpen, 
   onClose, 
   selectedCertificates,
-  profile
+  profile,
+  hiddenFields
 }) => {
   const [previewUrls, setPreviewUrls] = useState<{ [key: number]: string }>({});
+  const isHidden = (field: RedactableField) => hiddenFields.includes(field);
 
   useEffect(() => {
     // Create object URLs for selected certificates
@@ -124,7 +139,7 @@ const PreviewDialog: React.FC<PreviewDialogProps> = ({
                   <Badge>{cert.type}</Badge>
                 </div>
 
-                {cert.file && previewUrls[cert.id] && (
+                {!isHidden('file') && cert.file && previewUrls[cert.id] && (
                   <div className="relative">
                     <img
                       src={previewUrls[cert.id]}
@@ -142,7 +157,7 @@ const PreviewDialog: React.FC<PreviewDialogProps> = ({
                 <div className="grid grid-cols-2 gap-4 text-sm">
                   <div>
                     <Label>Certificate Number</Label>
-                    <p className="mt-1">{cert.certNumber}</p>
+                    {isHidden('cert_number') ? <HiddenValue /> : <p className="mt-1">{cert.certNumber}</p>}
                   </div>
                   <div>
                     <Label>Type</Label>
@@ -150,26 +165,38 @@ const PreviewDialog: React.FC<PreviewDialogProps> = ({
                   </div>
                   <div>
                     <Label>Completion Date</Label>
-                    <p className="mt-1">{new Date(cert.completionDate).toLocaleDateString()}</p>
+                    {isHidden('completion_date') ? (
+                      <HiddenValue />
+                    ) : (
+                      <p className="mt-1">{new Date(cert.completionDate).toLocaleDateString()}</p>
+                    )}
                   </div>
                   <div>
                     <Label>Expiry Date</Label>
-                    <p className="mt-1 flex items-center gap-2">
-                      {cert.noExpiry ? (
-                        <>
-                          <Infinity className="h-4 w-4" />
-                          <span>No Expiry</span>
-                        </>
-                      ) : (
-                        cert.expiryDate ? new Date(cert.expiryDate).toLocaleDateString() : 'No Expiry'
-                      )}
-                    </p>
+                    {isHidden('expiry_date') ? (
+                      <HiddenValue />
+                    ) : (
+                      <p className="mt-1 flex items-center gap-2">
+                        {cert.noExpiry ? (
+                          <>
+                            <Infinity className="h-4 w-4" />
+                            <span>No Expiry</span>
+                          </>
+                        ) : (
+                          cert.expiryDate ? new Date(cert.expiryDate).toLocaleDateString() : 'No Expiry'
+                        )}
+                      </p>
+                    )}
                   </div>
                 </div>
 
                 <div>
                   <Label>Description</Label>
-                  <p className="mt-1 text-sm text-gray-600">{cert.description}</p>
+                  {isHidden('description') ? (
+                    <HiddenValue />
+                  ) : (
+                    <p className="mt-1 text-sm text-gray-600">{cert.description}</p>
+                  )}
                 </div>
               </div>
             </div>
@@ -200,6 +227,38 @@ const EnhancedSharingInterface: React.FC<{
   });
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [attachmentsByCert, setAttachmentsByCert] = useState<Record<string, CertificateAttachment[]>>({});
+  const [selectedAttachmentIds, setSelectedAttachmentIds] = useState<string[]>([]);
+  const [hiddenFields, setHiddenFields] = useState<RedactableField[]>([]);
+
+  // Certificates whose attachments were requested, so each is loaded once
+  const requestedAttachmentCerts = useRef(new Set<string>());
+
+  useEffect(() => {
+    // Load attachments for newly selected certificates
+    selectedCerts
+      .map(id => id.toString())
+      .filter(id => !requestedAttachmentCerts.current.has(id))
+      .forEach(async id => {
+        requestedAttachmentCerts.current.add(id);
+        try {
+          const attachments = await database.attachments.list(id);
+          setAttachmentsByCert(prev => ({ ...prev, [id]: getLatestAttachments(attachments) }));
+        } catch (err) {
+          console.error('Error loading attachments:', err);
+          requestedAttachmentCerts.current.delete(id);
+        }
+      });
+  }, [selectedCerts]);
+
+  useEffect(() => {
+    // Drop attachments of certificates that are no longer selected
+    setSelectedAttachmentIds(prev => prev.filter(attachmentId =>
+      selectedCerts.some(id =>
+        (attachmentsByCert[id.toString()] || []).some(a => a.id === attachmentId)
+      )
+    ));
+  }, [selectedCerts, attachmentsByCert]);
 
   const handleSelectAll = () => {
     setSelectedCerts(certificates.map(cert => cert.id));
@@ -271,6 +330,46 @@ const EnhancedSharingInterface: React.FC<{
     return certificates.filter(cert => selectedCerts.includes(cert.id));
   };
 
+  const toggleAttachment = (attachmentId: string) => {
+    setSelectedAttachmentIds(prev =>
+      prev.includes(attachmentId)
+        ? prev.filter(id => id !== attachmentId)
+        : [...prev, attachmentId]
+    );
+  };
+
+  // The certificate's current file is always shared, so only offer the other attachments
+  const getExtraAttachments = (cert: Certificate) => {
+    return (attachmentsByCert[cert.id.toString()] || []).filter(a => a.file_path !== cert.file_path);
+  };
+
+  const toggleHiddenField = (field: RedactableField) => {
+    setHiddenFields(prev =>
+      prev.includes(field)
+        ? prev.filter(existing => existing !== field)
+        : [...prev, field]
+    );
+  };
+
+  // Links that hide the file share no files, so they need no keys
+  const hidesFile = hiddenFields.includes('file');
+
+  const getWrappedFileKeys = () => {
+    const keys: Record<string, string> = {};
+    if (hidesFile) return keys;
+    getSelectedCertificates().forEach(cert => {
+      if (cert.is_encrypted && cert.file_key) {
+        keys[cert.id.toString()] = cert.file_key;
+      }
+      getExtraAttachments(cert).forEach(attachment => {
+        if (selectedAttachmentIds.includes(attachment.id) && attachment.is_encrypted && attachment.file_key) {
+          keys[attachment.id] = attachment.file_key;
+        }
+      });
+    });
+    return keys;
+  };
+
   const getSelectedCertificate = () => {
     // For print dialog, we only use the first selected certificate
     return certificates.find(cert => cert.id === selectedCerts[0]);
@@ -346,6 +445,63 @@ const EnhancedSharingInterface: React.FC<{
           ))}
         </div>
 
+        {!hidesFile && getSelectedCertificates().some(cert => getExtraAttachments(cert).length > 0) && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Include Additional Files</h3>
+            {getSelectedCertificates().map(cert => getExtraAttachments(cert).map(attachment => (
+              <label
+                key={attachment.id}
+                className="flex items-center space-x-3 rounded-md border px-3 py-2 text-sm cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedAttachmentIds.includes(attachment.id)}
+                  onChange={() => toggleAttachment(attachment.id)}
+                />
+                <Paperclip className="h-4 w-4 text-gray-400" />
+                <span className="flex-1">
+                  {cert.title} – {attachment.label} (v{attachment.version})
+                </span>
+                <span className="text-gray-500">{formatFileSize(attachment.file_size)}</span>
+              </label>
+            )))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="font-medium flex items-center gap-2">
+            <EyeOff className="h-4 w-4" />
+            Details Shown by Secure Links
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {REDACTION_PRESETS.map(preset => (
+              <Button
+                key={preset.id}
+                variant={findRedactionPreset(hiddenFields)?.id === preset.id ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setHiddenFields(preset.hiddenFields)}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {REDACTABLE_FIELDS.map(({ field, label }) => (
+              <label key={field} className="flex items-center space-x-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={hiddenFields.includes(field)}
+                  onChange={() => toggleHiddenField(field)}
+                />
+                <span>Hide {label.charAt(0).toLowerCase() + label.slice(1)}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            Title, issuer, type and status are always shown. Hidden details are never sent to the link's visitors.
+          </p>
+        </div>
+
         <div className="flex justify-between items-center">
           <p className="text-sm text-gray-500">
             {selectedCerts.length} certificate(s) selected
@@ -422,8 +578,11 @@ const EnhancedSharingInterface: React.FC<{
         isOpen={showSecureLinkDialog}
         onClose={() => setShowSecureLinkDialog(false)}
         certificateIds={selectedCerts.map(id => id.toString())}
+        attachmentIds={hidesFile ? [] : selectedAttachmentIds}
+        hiddenFields={hiddenFields}
         onLinkGenerated={handleLinkGenerated}
         onShowQRCode={() => setShowQRCode(true)}
+        wrappedFileKeys={getWrappedFileKeys()}
       />
 
       {/* QR Code Dialog */}
@@ -460,6 +619,7 @@ const EnhancedSharingInterface: React.FC<{
         onClose={() => setShowPreview(false)}
         selectedCertificates={getSelectedCertificates()}
         profile={profile}
+        hiddenFields={hiddenFields}
       />
     </div>
   );
@@ -0,0 +1,35 @@
+import { Badge } from '@/components/ui/badge';
+import { ScanText } from 'lucide-react';
+import { ExtractedValue, ExtractionConfidence } from '@/lib/metadata-extraction';
+
+interface ExtractedFieldBadgeProps {
+  extracted?: ExtractedValue;
+  /** Current value of the form field */
+  value: string | null;
+}
+
+const CONFIDENCE_STYLES: Record<ExtractionConfidence, { label: string; className: string }> = {
+  high: { label: 'Detected', className: 'bg-green-100 text-green-800' },
+  medium: { label: 'Please check', className: 'bg-yellow-100 text-yellow-800' },
+  low: { label: 'Low confidence', className: 'bg-orange-100 text-orange-800' }
+};
+
+// Marks a form field that was pre-filled from the uploaded file, until the
+// user changes it
+const ExtractedFieldBadge = ({ extracted, value }: ExtractedFieldBadgeProps) => {
+  if (!extracted || extracted.value !== value) return null;
+
+  const { label, className } = CONFIDENCE_STYLES[extracted.confidence];
+  return (
+    <Badge
+      variant="secondary"
+      className={`${className} gap-1 font-normal`}
+      title={`Read from your certificate with ${extracted.confidence} confidence`}
+    >
+      <ScanText className="h-3 w-3" />
+      {label}
+    </Badge>
+  );
+};
+
+export default ExtractedFieldBadge;
@@ -1,81 +1,165 @@
 import React, { useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
-import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Upload, File, X, Camera } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Upload, File, X, Camera, Loader2, ScanText, Plus, ShieldCheck } from 'lucide-react';
 import PDFPreview from './PDFPreview';
+import { extractCertificateMetadata, ExtractionResult } from '@/lib/metadata-extraction';
+import { processCapturedImage, combineImagesToPdf, ProcessedImage } from '@/lib/image-processing';
+import { validateCertificateFile } from '@/lib/file-validation';
 
-const FileUploadHandler = ({ onFileUploaded }) => {
-  const [uploadProgress, setUploadProgress] = useState(0);
+interface CapturedPage {
+  original: File;
+  processed: ProcessedImage;
+}
+
+interface FileUploadHandlerProps {
+  onFileUploaded: (file: File) => void;
+  /** When set, details read from the file are passed on to pre-fill a form */
+  onMetadataExtracted?: (result: ExtractionResult) => void;
+}
+
+const FileUploadHandler = ({ onFileUploaded, onMetadataExtracted }: FileUploadHandlerProps) => {
   const [uploadError, setUploadError] = useState('');
-  const [selectedFile, setSelectedFile] = useState(null);
-  const [previewUrl, setPreviewUrl] = useState(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [extractionProgress, setExtractionProgress] = useState(0);
+  const [extractionMessage, setExtractionMessage] = useState('');
+  // Incremented for every new file so results for a replaced file are ignored
+  const extractionRun = useRef(0);
+  // Photos taken with the camera; more than one are combined into a PDF
+  const [capturedPages, setCapturedPages] = useState<CapturedPage[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [sanitizeNotice, setSanitizeNotice] = useState('');
+  const [autoCrop, setAutoCrop] = useState(true);
   const fileInputRef = useRef(null);
   const cameraInputRef = useRef(null);
 
-  const allowedFileTypes = [
-    'application/pdf',
-    'image/jpeg',
-    'image/png'
-  ];
-
   const handleFileSelect = (event) => {
     const file = event.target.files?.[0];
     processFile(file);
   };
 
-  const handleCameraCapture = (event) => {
+  const handleCameraCapture = async (event) => {
     const file = event.target.files?.[0];
-    processFile(file);
+    // Allows the same input to take the next page
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setIsProcessing(true);
+      setUploadError('');
+      const processed = await processCapturedImage(file, { autoCrop });
+      await applyCapturedPages([...capturedPages, { original: file, processed }]);
+    } catch (err) {
+      console.error('Error processing photo:', err);
+      setUploadError('Failed to process the photo. Please try again.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleAutoCropChange = async (checked: boolean) => {
+    setAutoCrop(checked);
+    if (capturedPages.length === 0) return;
+
+    try {
+      setIsProcessing(true);
+      setUploadError('');
+      const pages: CapturedPage[] = [];
+      for (const page of capturedPages) {
+        pages.push({
+          original: page.original,
+          processed: await processCapturedImage(page.original, { autoCrop: checked })
+        });
+      }
+      await applyCapturedPages(pages);
+    } catch (err) {
+      console.error('Error processing photo:', err);
+      setUploadError('Failed to process the photo. Please try again.');
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
-  const processFile = (file) => {
+  const applyCapturedPages = async (pages: CapturedPage[]) => {
+    setCapturedPages(pages);
+    const file = pages.length === 1
+      ? pages[0].processed.file
+      : await combineImagesToPdf(pages.map(page => page.processed), 'certificate-scan.pdf');
+    await processFile(file);
+  };
+
+  const processFile = async (selected?: File) => {
     setUploadError('');
+    setSanitizeNotice('');
     
     if (previewUrl) {
       URL.revokeObjectURL(previewUrl);
       setPreviewUrl(null);
     }
     
-    if (!file) return;
+    if (!selected) return;
 
-    if (!allowedFileTypes.includes(file.type)) {
-      setUploadError('Invalid file type. Please upload PDF, JPEG, or PNG files.');
-      return;
-    }
-
-    if (file.size > 10 * 1024 * 1024) {
-      setUploadError('File size must be less than 10MB');
+    let file: File;
+    try {
+      const validated = await validateCertificateFile(selected);
+      file = validated.file;
+      if (validated.removed.length > 0) {
+        setSanitizeNotice(`Removed active content from this PDF (${validated.removed.join(', ')}).`);
+      }
+    } catch (err) {
+      console.error('Error validating file:', err);
+      setUploadError(err instanceof Error ? err.message : 'This file cannot be uploaded');
       return;
     }
 
     setSelectedFile(file);
     setPreviewUrl(URL.createObjectURL(file));
-    simulateUpload(file);
+    // Uploaded when the form is submitted; progress shows in the upload panel
+    onFileUploaded(file);
+    if (onMetadataExtracted) extractMetadata(file);
   };
 
-  const simulateUpload = (file) => {
-    setUploadProgress(0);
-    const totalSteps = 10;
-    let currentStep = 0;
+  const extractMetadata = async (file: File) => {
+    const run = ++extractionRun.current;
+    setIsExtracting(true);
+    setExtractionProgress(0);
+    setExtractionMessage('');
 
-    const uploadInterval = setInterval(() => {
-      currentStep++;
-      setUploadProgress((currentStep / totalSteps) * 100);
+    try {
+      const result = await extractCertificateMetadata(file, (progress) => {
+        if (run === extractionRun.current) setExtractionProgress(Math.round(progress * 100));
+      });
+      if (run !== extractionRun.current) return;
 
-      if (currentStep === totalSteps) {
-        clearInterval(uploadInterval);
-        onFileUploaded(file);
+      const detected = Object.keys(result.fields).length;
+      setExtractionMessage(detected > 0
+        ? `Filled in ${detected} field${detected === 1 ? '' : 's'} from your certificate. Please check them before uploading.`
+        : 'No certificate details could be read from this file. Please fill them in below.');
+      onMetadataExtracted?.(result);
+    } catch (err) {
+      console.error('Error extracting certificate details:', err);
+      if (run === extractionRun.current) {
+        setExtractionMessage('Certificate details could not be read from this file. Please fill them in below.');
       }
-    }, 200);
+    } finally {
+      if (run === extractionRun.current) setIsExtracting(false);
+    }
   };
 
   const cancelUpload = () => {
+    extractionRun.current++;
+    setIsExtracting(false);
+    setExtractionMessage('');
     if (previewUrl) {
       URL.revokeObjectURL(previewUrl);
     }
     setSelectedFile(null);
-    setUploadProgress(0);
+    setCapturedPages([]);
+    setSanitizeNotice('');
     setUploadError('');
     setPreviewUrl(null);
     if (fileInputRef.current) fileInputRef.current.value = '';
@@ -84,8 +168,22 @@ const FileUploadHandler = ({ onFileUploaded }) => {
 
   return (
     <div className="space-y-4">
+      <input
+        type="file"
+        id="camera-capture"
+        ref={cameraInputRef}
+        className="hidden"
+        onChange={handleCameraCapture}
+        accept="image/*"
+        capture="environment"
+      />
       <div className="border-2 border-dashed border-gray-300 rounded-lg p-6">
-        {!selectedFile ? (
+        {isProcessing && !selectedFile ? (
+          <div className="flex items-center justify-center gap-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Processing photo...
+          </div>
+        ) : !selectedFile ? (
           <div className="space-y-4">
             <div className="text-center">
               <input
@@ -109,15 +207,6 @@ const FileUploadHandler = ({ onFileUploaded }) => {
 
             <div className="text-center">
               <div className="relative inline-block">
-                <input
-                  type="file"
-                  id="camera-capture"
-                  ref={cameraInputRef}
-                  className="hidden"
-                  onChange={handleCameraCapture}
-                  accept="image/*"
-                  capture="environment"
-                />
                 <label
                   htmlFor="camera-capture"
                   className="cursor-pointer inline-flex flex-col items-center"
@@ -158,11 +247,61 @@ const FileUploadHandler = ({ onFileUploaded }) => {
                 <X className="h-4 w-4" />
               </Button>
             </div>
-            <Progress value={uploadProgress} className="h-2" />
+            {capturedPages.length > 0 && (
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="auto-crop"
+                    checked={autoCrop}
+                    onCheckedChange={handleAutoCropChange}
+                    disabled={isProcessing}
+                  />
+                  <Label htmlFor="auto-crop" className="text-sm font-normal">
+                    Crop and straighten
+                  </Label>
+                </div>
+                <Button type="button" variant="outline" size="sm" disabled={isProcessing} asChild>
+                  <label htmlFor="camera-capture" className="cursor-pointer">
+                    {isProcessing ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Plus className="h-4 w-4 mr-2" />
+                    )}
+                    Add Page
+                  </label>
+                </Button>
+              </div>
+            )}
+            {capturedPages.length > 1 && (
+              <p className="text-xs text-gray-500">
+                {capturedPages.length} pages will be uploaded as one PDF.
+              </p>
+            )}
           </div>
         )}
       </div>
 
+      {isExtracting && (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Reading certificate details{extractionProgress > 0 ? ` (${extractionProgress}%)` : '...'}
+        </div>
+      )}
+
+      {!isExtracting && extractionMessage && (
+        <div className="flex items-start gap-2 text-sm text-gray-500">
+          <ScanText className="h-4 w-4 mt-0.5 shrink-0" />
+          {extractionMessage}
+        </div>
+      )}
+
+      {sanitizeNotice && (
+        <div className="flex items-start gap-2 text-sm text-gray-500">
+          <ShieldCheck className="h-4 w-4 mt-0.5 shrink-0" />
+          {sanitizeNotice}
+        </div>
+      )}
+
       {uploadError && (
         <Alert variant="destructive">
           <AlertDescription>{uploadError}</AlertDescription>
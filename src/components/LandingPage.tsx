@@ -80,6 +80,9 @@ const LandingPage = () => {
                 <Button variant="outline" size="lg">
                   Learn More
                 </Button>
+                <Button variant="ghost" size="lg" asChild>
+                  <Link to="/demo">Try the Demo</Link>
+                </Button>
               </div>
             </div>
             <div className="md:w-1/2 md:pl-10">
@@ -3,6 +3,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
+import { database } from '@/lib/database';
 import { 
   Printer, 
   Download, 
@@ -47,7 +48,7 @@ const PrintableCertificate: React.FC<PrintableCertificateProps> = ({
     };
   }, [isOpen, certificate, shareLink]);
 
-  const loadPreview = () => {
+  const loadPreview = async () => {
     setLoading(true);
     setError(null);
     
@@ -55,8 +56,8 @@ const PrintableCertificate: React.FC<PrintableCertificateProps> = ({
       if (certificate?.file) {
         const url = URL.createObjectURL(certificate.file);
         setPreviewUrl(url);
-      } else if (certificate?.file_url) {
-        setPreviewUrl(certificate.file_url);
+      } else if (certificate?.file_path && !certificate.is_encrypted) {
+        setPreviewUrl(await database.certificates.getFileUrl(certificate.file_path));
       } else {
         setError('No certificate file available');
       }
@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, RefreshCw } from 'lucide-react';
+import FileUploadHandler from './FileUploadHandler';
+import { Certificate } from '@/lib/types';
+
+export interface RenewalDetails {
+  completionDate: string;
+  expiryDate: string | null;
+  certNumber: string;
+  file: File | null;
+}
+
+interface RenewCertificateDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  certificate: Certificate | null;
+  onRenew: (certificate: Certificate, renewal: RenewalDetails) => Promise<void>;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const RenewCertificateDialog = ({
+  isOpen,
+  onClose,
+  certificate,
+  onRenew
+}: RenewCertificateDialogProps) => {
+  const [completionDate, setCompletionDate] = useState(today());
+  const [expiryDate, setExpiryDate] = useState(today());
+  const [noExpiry, setNoExpiry] = useState(false);
+  const [certNumber, setCertNumber] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen && certificate) {
+      setCompletionDate(today());
+      setExpiryDate(today());
+      setNoExpiry(!certificate.expiry_date);
+      setCertNumber(certificate.cert_number);
+      setFile(null);
+      setError(null);
+    }
+  }, [isOpen, certificate]);
+
+  const handleRenew = async () => {
+    if (!certificate) return;
+
+    if (!completionDate) {
+      setError('Completion date is required');
+      return;
+    }
+
+    if (!noExpiry && (!expiryDate || expiryDate <= completionDate)) {
+      setError('Expiry date must be after the completion date');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      await onRenew(certificate, {
+        completionDate,
+        expiryDate: noExpiry ? null : expiryDate,
+        certNumber,
+        file
+      });
+      onClose();
+    } catch (err) {
+      console.error('Error renewing certificate:', err);
+      setError(err instanceof Error ? err.message : 'Failed to renew certificate. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Renew Certificate</DialogTitle>
+        </DialogHeader>
+        <div className="flex-1 overflow-y-auto pr-6 -mr-6 space-y-4">
+          <p className="text-sm text-gray-500">
+            The current record of <span className="font-medium">{certificate?.title}</span> is
+            kept as read-only history and a new record is created for the renewed period.
+          </p>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <FileUploadHandler onFileUploaded={setFile} />
+
+          <div className="space-y-2">
+            <Label htmlFor="renewCompletionDate">Completion Date</Label>
+            <Input
+              id="renewCompletionDate"
+              type="date"
+              value={completionDate}
+              onChange={(e) => setCompletionDate(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="renewNoExpiry">No Expiry Date</Label>
+            <Switch
+              id="renewNoExpiry"
+              checked={noExpiry}
+              onCheckedChange={setNoExpiry}
+            />
+          </div>
+          {!noExpiry && (
+            <div className="space-y-2">
+              <Label htmlFor="renewExpiryDate">Expiry Date</Label>
+              <Input
+                id="renewExpiryDate"
+                type="date"
+                value={expiryDate}
+                onChange={(e) => setExpiryDate(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="renewCertNumber">Certificate Number</Label>
+            <Input
+              id="renewCertNumber"
+              value={certNumber}
+              onChange={(e) => setCertNumber(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter className="flex justify-end gap-2 mt-6 border-t pt-4">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button onClick={handleRenew} disabled={isLoading}>
+            {isLoading ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            Renew
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RenewCertificateDialog;
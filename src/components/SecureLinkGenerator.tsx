@@ -7,6 +7,9 @@ import { Switch } from '@/components/ui/switch';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
 import { generateShareLink } from '@/lib/sharing';
+import { isVaultUnlocked, unwrapFileKey } from '@/lib/vault';
+import { validate } from 'email-validator';
+import { RedactableField } from '@shared/share-redaction';
 import { 
   Copy, 
   Check, 
@@ -16,26 +19,42 @@ import {
   Download,
   AlertTriangle,
   Loader2,
-  QrCode
+  QrCode,
+  Mail,
+  Stamp
 } from 'lucide-react';
 
 interface SecureLinkGeneratorProps {
   isOpen: boolean;
   onClose: () => void;
   certificateIds: string[];
+  /** Additional certificate attachments to include in the share */
+  attachmentIds?: string[];
+  /** Certificate details the link hides from visitors */
+  hiddenFields?: RedactableField[];
   onLinkGenerated: (link: string, options: any) => void;
   onShowQRCode: () => void;
+  /** Wrapped keys of selected certificates and attachments stored in the encrypted vault */
+  wrappedFileKeys?: Record<string, string>;
 }
 
 const SecureLinkGenerator: React.FC<SecureLinkGeneratorProps> = ({
   isOpen,
   onClose,
   certificateIds,
+  attachmentIds = [],
+  hiddenFields = [],
   onLinkGenerated,
-  onShowQRCode
+  onShowQRCode,
+  wrappedFileKeys = {}
 }) => {
   const [expiryDays, setExpiryDays] = useState(7);
   const [isPasswordProtected, setIsPasswordProtected] = useState(false);
+  const [followLatest, setFollowLatest] = useState(false);
+  const [isRecipientBound, setIsRecipientBound] = useState(false);
+  const [recipientInput, setRecipientInput] = useState('');
+  const [watermark, setWatermark] = useState(false);
+  const [watermarkText, setWatermarkText] = useState('');
   const [password, setPassword] = useState('');
   const [maxDownloads, setMaxDownloads] = useState<number | undefined>(undefined);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -44,6 +63,14 @@ const SecureLinkGenerator: React.FC<SecureLinkGeneratorProps> = ({
   const [generatedLink, setGeneratedLink] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
 
+  // Links that hide the file have nothing to watermark
+  const hidesFile = hiddenFields.includes('file');
+
+  // Addresses separated by commas, semicolons or spaces, without repeats
+  const parseRecipients = () => [
+    ...new Set(recipientInput.split(/[,;\s]+/).map(email => email.trim().toLowerCase()).filter(Boolean))
+  ];
+
   const handleGenerateLink = async () => {
     // Clear any previous error messages
     setError(null);
@@ -58,10 +85,40 @@ const SecureLinkGenerator: React.FC<SecureLinkGeneratorProps> = ({
       return;
     }
 
+    const recipientEmails = isRecipientBound ? parseRecipients() : [];
+    if (isRecipientBound) {
+      if (recipientEmails.length === 0) {
+        setError('Enter at least one recipient email address');
+        return;
+      }
+      const invalid = recipientEmails.filter(email => !validate(email));
+      if (invalid.length > 0) {
+        setError(`Invalid email address: ${invalid.join(', ')}`);
+        return;
+      }
+    }
+
+    const encryptedIds = Object.keys(wrappedFileKeys);
+    if (encryptedIds.length > 0 && !isVaultUnlocked()) {
+      setError('Unlock your vault in Settings to share encrypted certificates');
+      return;
+    }
+
+    if (encryptedIds.length > 0 && watermark && !hidesFile) {
+      setError('Watermarked links cannot include encrypted certificates, as the server cannot read their files to mark them');
+      return;
+    }
+
     try {
       setIsGenerating(true);
       setProgress(0);
       
+      // Unwrap vault file keys so recipients can decrypt the shared files
+      const fileKeys: Record<string, string> = {};
+      for (const id of encryptedIds) {
+        fileKeys[id] = await unwrapFileKey(wrappedFileKeys[id]);
+      }
+      
       // Simulate progress
       const progressInterval = setInterval(() => {
         setProgress(prev => {
@@ -76,10 +133,17 @@ const SecureLinkGenerator: React.FC<SecureLinkGeneratorProps> = ({
       // Generate share link
       const shareOptions = {
         certificateIds,
+        attachmentIds,
         expiryDays,
         isPasswordProtected,
         password: isPasswordProtected ? password : undefined,
-        maxDownloads: maxDownloads
+        maxDownloads: maxDownloads,
+        followLatest,
+        fileKeys,
+        recipientEmails,
+        hiddenFields,
+        watermark: watermark && !hidesFile,
+        watermarkText
       };
       
       const link = await generateShareLink(shareOptions);
@@ -92,7 +156,10 @@ const SecureLinkGenerator: React.FC<SecureLinkGeneratorProps> = ({
       onLinkGenerated(link, {
         expiryDays,
         isPasswordProtected,
-        maxDownloads
+        maxDownloads,
+        recipientEmails,
+        hiddenFields,
+        watermark: watermark && !hidesFile
       });
     } catch (err) {
       console.error('Error generating link:', err);
@@ -173,6 +240,70 @@ const SecureLinkGenerator: React.FC<SecureLinkGeneratorProps> = ({
               )}
             </div>
             
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="recipient-bound">Only Specific Recipients</Label>
+                <Switch
+                  id="recipient-bound"
+                  checked={isRecipientBound}
+                  onCheckedChange={setIsRecipientBound}
+                />
+              </div>
+
+              {isRecipientBound && (
+                <div className="space-y-2">
+                  <Label htmlFor="recipient-emails">Recipient Emails</Label>
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="recipient-emails"
+                      value={recipientInput}
+                      onChange={(e) => setRecipientInput(e.target.value)}
+                      placeholder="name@example.com, other@example.com"
+                      className="pl-9"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Only these people can open the link, after entering a code we email them
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {!hidesFile && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="watermark">Watermark Downloads</Label>
+                  <Switch
+                    id="watermark"
+                    checked={watermark}
+                    onCheckedChange={setWatermark}
+                  />
+                </div>
+
+                {watermark && (
+                  <div className="space-y-2">
+                    <Label htmlFor="watermark-text">Extra Watermark Text (optional)</Label>
+                    <div className="relative">
+                      <Stamp className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                      <Input
+                        id="watermark-text"
+                        value={watermarkText}
+                        maxLength={100}
+                        onChange={(e) => setWatermarkText(e.target.value)}
+                        placeholder="e.g. For onboarding only"
+                        className="pl-9"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Every page is stamped with the share ID and download time
+                      {isRecipientBound ? ", and the recipient's verified email" : '. Turn on Only Specific Recipients to add the viewer\'s email too'}
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label htmlFor="download-limit">Download Limit</Label>
@@ -200,6 +331,22 @@ const SecureLinkGenerator: React.FC<SecureLinkGeneratorProps> = ({
                 </div>
               )}
             </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="follow-latest">Always Show Latest Renewal</Label>
+                <Switch
+                  id="follow-latest"
+                  checked={followLatest}
+                  onCheckedChange={setFollowLatest}
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                {followLatest
+                  ? 'Recipients will see the newest version when a certificate is renewed'
+                  : 'Recipients will see these certificates exactly as they are now'}
+              </p>
+            </div>
           </div>
           
           {isGenerating && (
@@ -1,29 +1,36 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Bell, Mail, Clock, RefreshCw, LogOut, Loader2, User, Check } from 'lucide-react';
+import { Bell, Mail, Clock, RefreshCw, LogOut, Loader2, User, Check, CalendarClock } from 'lucide-react';
 import { Settings } from '@/lib/types';
 import { database } from '@/lib/database';
+import { isPushSupported, subscribeToPush, unsubscribeFromPush } from '@/lib/push';
+import VaultSettings from './VaultSettings';
+import CalendarFeedSettings from './CalendarFeedSettings';
+import WalletBackupSettings from './WalletBackupSettings';
 
 interface SettingsSectionProps {
   settings: Settings;
   onSettingsUpdate: (settings: Partial<Settings>) => Promise<void>;
   userEmail: string;
   onSignOut: () => Promise<void>;
+  onWalletRestored: () => Promise<void>;
 }
 
 const SettingsSection = ({
   settings,
   onSettingsUpdate,
   userEmail,
-  onSignOut
+  onSignOut,
+  onWalletRestored
 }: SettingsSectionProps) => {
   const [isLoading, setIsLoading] = useState(false);
   const [signOutLoading, setSignOutLoading] = useState(false);
+  const [pushLoading, setPushLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [localSettings, setLocalSettings] = useState(settings);
@@ -35,6 +42,40 @@ const SettingsSection = ({
     }));
   };
 
+  // Keep this browser's subscription registered when permission was granted earlier
+  useEffect(() => {
+    if (settings.push_notifications && isPushSupported() && Notification.permission === 'granted') {
+      subscribeToPush();
+    }
+  }, [settings.push_notifications]);
+
+  // Push needs this browser's permission and subscription, not just the setting
+  const handlePushToggle = async (checked: boolean) => {
+    try {
+      setPushLoading(true);
+      setError(null);
+
+      if (checked) {
+        if (!isPushSupported()) {
+          setError('Push notifications are not supported in this browser.');
+          return;
+        }
+
+        const subscribed = await subscribeToPush();
+        if (!subscribed) {
+          setError('Allow notifications for this site in your browser to enable push notifications.');
+          return;
+        }
+      } else {
+        await unsubscribeFromPush();
+      }
+
+      handleSettingChange('push_notifications', checked);
+    } finally {
+      setPushLoading(false);
+    }
+  };
+
   const handleSaveSettings = async () => {
     try {
       setIsLoading(true);
@@ -152,8 +193,8 @@ const SettingsSection = ({
             <Switch
               id="push-notifications"
               checked={localSettings.push_notifications}
-              onCheckedChange={(checked) => handleSettingChange('push_notifications', checked)}
-              disabled={isLoading}
+              onCheckedChange={handlePushToggle}
+              disabled={isLoading || pushLoading}
             />
           </div>
 
@@ -197,6 +238,27 @@ const SettingsSection = ({
               Get notified before your certificates expire
             </p>
           </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <CalendarClock className="h-4 w-4 text-gray-500" />
+              <Label htmlFor="notification-frequency">Reminder Frequency</Label>
+            </div>
+            <select
+              id="notification-frequency"
+              className="h-10 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              value={localSettings.notification_frequency || 'daily'}
+              onChange={(e) => handleSettingChange('notification_frequency', e.target.value)}
+              disabled={isLoading || !localSettings.email_notifications}
+            >
+              <option value="immediate">Immediately, one email per certificate</option>
+              <option value="daily">Daily digest</option>
+              <option value="weekly">Weekly digest</option>
+            </select>
+            <p className="text-sm text-gray-500">
+              How often expiry reminder emails are sent
+            </p>
+          </div>
           
           <Button
             onClick={handleSaveSettings}
@@ -214,6 +276,12 @@ const SettingsSection = ({
           </Button>
         </CardContent>
       </Card>
+
+      <CalendarFeedSettings />
+
+      <VaultSettings settings={settings} onSettingsUpdate={onSettingsUpdate} />
+
+      <WalletBackupSettings onRestored={onWalletRestored} />
     </div>
   );
 };
@@ -0,0 +1,281 @@
+import { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { format } from 'date-fns';
+import { Check, Loader2, UserCheck, UserX, Inbox } from 'lucide-react';
+import { approveAccessRequest, denyAccessRequest, listAccessRequests } from '@/lib/sharing';
+import { getErrorMessage } from '@/lib/errors';
+import { LinkShare, ShareAccessRequest, ShareAccessRequestStatus } from '@/lib/types';
+
+interface ShareAccessRequestsProps {
+  /** The user's shares, to name the link each request was made from */
+  shares: LinkShare[];
+  /** Names the certificates in a share */
+  getCertificateTitles: (share: LinkShare) => string[];
+  /** Unwrapped keys for a share's encrypted files, or null if the vault is locked */
+  getFileKeys: (share: LinkShare) => Promise<Record<string, string> | null>;
+  /** Called with the link created when a request is approved */
+  onShareIssued: (share: LinkShare) => void;
+}
+
+const STATUS_BADGES: Record<ShareAccessRequestStatus, { label: string; className: string }> = {
+  pending: { label: 'Waiting', className: 'bg-blue-100 text-blue-800' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-800' },
+  denied: { label: 'Denied', className: 'bg-gray-200 text-gray-800' }
+};
+
+interface PendingAnswer {
+  request: ShareAccessRequest;
+  decision: 'approve' | 'deny';
+}
+
+// Requests from visitors who opened a link that could no longer be used.
+// Approving one issues a new link bound to the requester's address
+const ShareAccessRequests = ({ shares, getCertificateTitles, getFileKeys, onShareIssued }: ShareAccessRequestsProps) => {
+  const [requests, setRequests] = useState<ShareAccessRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [busyRequestId, setBusyRequestId] = useState<string | null>(null);
+  const [pendingAnswer, setPendingAnswer] = useState<PendingAnswer | null>(null);
+  const [expiryDays, setExpiryDays] = useState(7);
+  const [showAnswered, setShowAnswered] = useState(false);
+
+  useEffect(() => {
+    loadRequests();
+  }, []);
+
+  const loadRequests = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setRequests(await listAccessRequests());
+    } catch (err) {
+      console.error('Error loading access requests:', err);
+      setError(getErrorMessage(err, 'Failed to load access requests'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const replaceRequest = (request: ShareAccessRequest) => {
+    setRequests(prev => prev.map(existing => (existing.id === request.id ? request : existing)));
+  };
+
+  const openAnswer = (request: ShareAccessRequest, decision: PendingAnswer['decision']) => {
+    setExpiryDays(7);
+    setPendingAnswer({ request, decision });
+  };
+
+  const handleConfirmAnswer = async () => {
+    if (!pendingAnswer) return;
+    const { request, decision } = pendingAnswer;
+    setPendingAnswer(null);
+
+    try {
+      setBusyRequestId(request.id);
+      setError(null);
+      setSuccess(null);
+
+      if (decision === 'deny') {
+        const { request: denied, emailed } = await denyAccessRequest(request.id);
+        replaceRequest(denied);
+        setSuccess(emailed
+          ? `Request denied. ${request.email} has been told by email.`
+          : 'Request denied. The email to the requester could not be sent.');
+        return;
+      }
+
+      // The new link needs the same file keys as the one it replaces
+      const original = shares.find(share => share.id === request.share_id);
+      const fileKeys = original ? await getFileKeys(original) : {};
+      if (!fileKeys) {
+        setError('Unlock your vault in Settings to approve requests for encrypted certificates');
+        return;
+      }
+
+      const { request: approved, share, link, emailed, needsKeys } = await approveAccessRequest(request.id, {
+        expiryDays,
+        fileKeys
+      });
+      replaceRequest(approved);
+      onShareIssued(share);
+
+      if (needsKeys) {
+        // The keys for encrypted files are never emailed
+        await navigator.clipboard.writeText(link);
+        setSuccess(emailed
+          ? `Request approved and emailed to ${request.email}, without the keys for the encrypted files. The full link has been copied to your clipboard; send it to them another way, not by email.`
+          : `Request approved, but the email could not be sent. The full link, with the keys for the encrypted files, has been copied to your clipboard; send it to ${request.email} another way, not by email.`);
+      } else if (emailed) {
+        setSuccess(`Request approved. A link that only ${request.email} can open has been emailed to them.`);
+      } else {
+        await navigator.clipboard.writeText(link);
+        setSuccess(`Request approved, but the email could not be sent. The new link has been copied to your clipboard to send to ${request.email} yourself.`);
+      }
+    } catch (err) {
+      console.error('Error answering access request:', err);
+      setError(getErrorMessage(err, 'Failed to answer the request. Please try again.'));
+      loadRequests();
+    } finally {
+      setBusyRequestId(null);
+    }
+  };
+
+  const getRequestedTitles = (request: ShareAccessRequest) => {
+    const share = shares.find(existing => existing.id === request.share_id);
+    return share ? getCertificateTitles(share).join(', ') : 'A deleted link';
+  };
+
+  const pendingRequests = requests.filter(request => request.status === 'pending');
+  const visibleRequests = showAnswered ? requests : pendingRequests;
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (requests.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium flex items-center gap-2">
+          <Inbox className="h-4 w-4" />
+          Access Requests
+          {pendingRequests.length > 0 && (
+            <Badge variant="secondary" className="bg-blue-100 text-blue-800 font-normal">
+              {pendingRequests.length} waiting
+            </Badge>
+          )}
+        </h3>
+        {requests.length > pendingRequests.length && (
+          <Button variant="ghost" size="sm" onClick={() => setShowAnswered(!showAnswered)}>
+            {showAnswered ? 'Hide answered' : 'Show answered'}
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {success && (
+        <Alert className="bg-green-50 border-green-200">
+          <Check className="h-4 w-4 text-green-500" />
+          <AlertDescription className="text-green-700">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {visibleRequests.length === 0 ? (
+        <p className="text-sm text-gray-500">No requests are waiting for an answer.</p>
+      ) : (
+        visibleRequests.map(request => {
+          const badge = STATUS_BADGES[request.status];
+          const isBusy = busyRequestId === request.id;
+
+          return (
+            <div key={request.id} className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    {request.name}
+                    {request.organisation && <span className="font-normal text-gray-600"> · {request.organisation}</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {request.email} · {format(new Date(request.created_at), 'PP')} · {getRequestedTitles(request)}
+                  </p>
+                </div>
+                <Badge variant="secondary" className={`font-normal shrink-0 ${badge.className}`}>
+                  {badge.label}
+                </Badge>
+              </div>
+
+              <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">{request.reason}</p>
+
+              {request.status === 'pending' && (
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" onClick={() => openAnswer(request, 'approve')} disabled={isBusy}>
+                    <UserCheck className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openAnswer(request, 'deny')}
+                    disabled={isBusy}
+                    className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <UserX className="h-4 w-4 mr-1" />
+                    Deny
+                  </Button>
+                  {isBusy && <Loader2 className="h-4 w-4 animate-spin text-gray-400 self-center" />}
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+
+      <Dialog open={!!pendingAnswer} onOpenChange={open => !open && setPendingAnswer(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {pendingAnswer?.decision === 'approve' ? 'Approve this request?' : 'Deny this request?'}
+            </DialogTitle>
+          </DialogHeader>
+          {pendingAnswer?.decision === 'approve' ? (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                A new link to the same certificates will be emailed to {pendingAnswer.request.email}. Only
+                that address can open it, after confirming a code sent to it. The new link has no password.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="access-request-expiry">Link Expiration</Label>
+                <select
+                  id="access-request-expiry"
+                  className="w-full p-2 border rounded-md"
+                  value={expiryDays}
+                  onChange={(e) => setExpiryDays(Number(e.target.value))}
+                >
+                  <option value={1}>24 hours</option>
+                  <option value={7}>7 days</option>
+                  <option value={30}>30 days</option>
+                  <option value={90}>90 days</option>
+                  <option value={0}>Never</option>
+                </select>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              {pendingAnswer?.request.email} will be told by email that the request was not approved.
+            </p>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAnswer(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={pendingAnswer?.decision === 'deny' ? 'destructive' : 'default'}
+              onClick={handleConfirmAnswer}
+            >
+              {pendingAnswer?.decision === 'approve' ? 'Approve and Send Link' : 'Deny Request'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ShareAccessRequests;
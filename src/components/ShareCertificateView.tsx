@@ -8,8 +8,25 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import PDFPreview from './PDFPreview';
-import { supabase } from '@/lib/supabase';
-import { validateShareToken } from '@/lib/sharing';
+import {
+  resolveShareToken,
+  downloadSharedCertificate,
+  requestShareCode,
+  verifyShareCode,
+  requestShareAccess,
+  getStoredShareVerification,
+  storeShareVerification,
+  ResolvedShare,
+  ShareAccessReason,
+  SharedAttachment,
+  SharedCertificate
+} from '@/lib/sharing';
+import { RedactableField } from '@shared/share-redaction';
+import { validate } from 'email-validator';
+import { logAccess } from '@/lib/analytics';
+import { parseKeyFragment, fetchAndDecryptFile } from '@/lib/vault';
+import { isDemoMode } from '@/lib/demo-mode';
+import { getDemoShare } from '@/lib/demo-repository';
 import { 
   Shield, 
   Download, 
@@ -22,20 +39,88 @@ import {
   FileText,
   User,
   Infinity,
-  Check
+  Check,
+  Paperclip,
+  Mail,
+  Send,
+  Stamp
 } from 'lucide-react';
 
+const getAccessErrorMessage = (reason: ShareAccessReason) => {
+  switch (reason) {
+    case 'revoked':
+      return 'This share link has been revoked';
+    case 'expired':
+      return 'This share link has expired';
+    case 'download_limit':
+      return 'This share link has reached its maximum download limit';
+    case 'verification_required':
+      return 'Verify your email address to open this share link';
+    case 'watermark_unavailable':
+      return 'This file could not be watermarked for you, so it cannot be downloaded';
+    default:
+      return 'This share link is invalid or has expired';
+  }
+};
+
+// Links that worked once but can no longer be opened; visitors can ask the owner for a new one
+const canRequestAccess = (reason: ShareAccessReason) =>
+  reason === 'revoked' || reason === 'expired' || reason === 'download_limit';
+
+const getCodeErrorMessage = (reason: ShareAccessReason) => {
+  switch (reason) {
+    case 'code_expired':
+      return 'That code has expired. Request a new one.';
+    case 'too_many_attempts':
+      return 'Too many incorrect codes. Request a new one.';
+    default:
+      return 'That code is not correct. Please check the email and try again.';
+  }
+};
+
+const UNREACHABLE_MESSAGE = 'XafeWallet could not be reached. Please check your connection and try again.';
+
+const triggerDownload = (href: string, fileName: string) => {
+  const a = document.createElement('a');
+  a.href = href;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+};
+
 const ShareCertificateView = () => {
   const { token } = useParams();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [share, setShare] = useState<any>(null);
-  const [certificates, setCertificates] = useState<any[]>([]);
+  const [share, setShare] = useState<ResolvedShare | null>(null);
+  const [certificates, setCertificates] = useState<SharedCertificate[]>([]);
   const [password, setPassword] = useState('');
   const [isPasswordProtected, setIsPasswordProtected] = useState(false);
   const [isPasswordVerified, setIsPasswordVerified] = useState(false);
   const [downloadProgress, setDownloadProgress] = useState<{[key: string]: number}>({});
   const [previewUrls, setPreviewUrls] = useState<{[key: string]: string}>({});
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [downloadingAttachmentId, setDownloadingAttachmentId] = useState<string | null>(null);
+  const [needsVerification, setNeedsVerification] = useState(false);
+  const [recipientEmail, setRecipientEmail] = useState('');
+  const [verificationCode, setVerificationCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [verificationError, setVerificationError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [verifiedEmail, setVerifiedEmail] = useState<string | null>(null);
+  const [verificationToken, setVerificationToken] = useState(() =>
+    token ? getStoredShareVerification(token) : undefined
+  );
+  const [accessRequestable, setAccessRequestable] = useState(false);
+  const [requestName, setRequestName] = useState('');
+  const [requestEmail, setRequestEmail] = useState('');
+  const [requestOrganisation, setRequestOrganisation] = useState('');
+  const [requestReason, setRequestReason] = useState('');
+  const [requestError, setRequestError] = useState<string | null>(null);
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [requestSent, setRequestSent] = useState(false);
+  const demoMode = isDemoMode();
 
   useEffect(() => {
     if (!token) {
@@ -48,292 +133,317 @@ const ShareCertificateView = () => {
       try {
         setLoading(true);
         setError(null);
+
+        // Demo builds show the sample wallet for any link
+        if (demoMode) {
+          const demo = getDemoShare(token);
+          setShare(demo.share);
+          setCertificates(demo.certificates);
+          setIsPasswordVerified(true);
+          return;
+        }
         
-        // Validate the token
-        const validationResult = await validateShareToken(token);
+        // Resolve the token on the server
+        const resolution = await resolveShareToken(token, undefined, getStoredShareVerification(token));
         
-        if (!validationResult) {
-          // If validation fails, use demo mode
-          const mockShare = createMockShare(token);
-          setShare(mockShare);
-          setIsPasswordProtected(mockShare.is_password_protected);
-          
-          // If no password required, load mock certificates
-          if (!mockShare.is_password_protected) {
-            const mockCertificates = createMockCertificates();
-            setCertificates(mockCertificates);
-            setIsPasswordVerified(true);
-          }
-          
-          setLoading(false);
+        if (!resolution) {
+          setError(UNREACHABLE_MESSAGE);
           return;
         }
         
-        if (!validationResult.isValid) {
-          switch (validationResult.reason) {
-            case 'revoked':
-              setError('This share link has been revoked');
-              break;
-            case 'expired':
-              setError('This share link has expired');
-              break;
-            case 'download_limit':
-              setError('This share link has reached its maximum download limit');
-              break;
-            default:
-              setError('This share link is invalid or has expired');
+        if (!resolution.isValid) {
+          if (resolution.reason === 'password_required' && resolution.share) {
+            setShare(resolution.share);
+            setIsPasswordProtected(true);
+          } else if (resolution.reason === 'verification_required' && resolution.share) {
+            // A stored session that no longer works is dropped
+            setShare(resolution.share);
+            storeShareVerification(token, null);
+            setVerificationToken(undefined);
+            setNeedsVerification(true);
+          } else {
+            setError(getAccessErrorMessage(resolution.reason));
+            setAccessRequestable(canRequestAccess(resolution.reason));
           }
-          setLoading(false);
           return;
         }
         
-        const shareData = validationResult.data;
-        setShare(shareData);
-        setIsPasswordProtected(shareData.is_password_protected);
+        setShare(resolution.share);
+        setIsPasswordProtected(resolution.share.is_password_protected);
+        setCertificates(resolution.certificates);
+        setIsPasswordVerified(true);
+        setVerifiedEmail(resolution.recipientEmail || null);
         
-        if (!shareData.is_password_protected) {
-          // If no password required, load certificates
-          try {
-            // Convert string IDs to UUIDs if needed
-            const certificateIds = shareData.certificate_ids.map((id: string) => {
-              // Check if the ID is already a UUID
-              if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
-                return id;
-              }
-              // For demo mode, just use the ID as is
-              return id;
-            });
-            
-            const { data: certsData, error: certsError } = await supabase
-              .from('certificates')
-              .select('*')
-              .in('id', certificateIds);
-            
-            if (certsError) {
-              console.error('Failed to load certificates:', certsError);
-              throw certsError;
-            }
-            
-            if (!certsData || certsData.length === 0) {
-              throw new Error('No certificates found');
-            }
-            
-            setCertificates(certsData);
-            setIsPasswordVerified(true);
-            
-            // Log access
-            await logAccess(shareData.id, certsData);
-          } catch (err) {
-            console.error('Error loading certificates:', err);
-            // Fallback to mock certificates
-            const mockCertificates = createMockCertificates();
-            setCertificates(mockCertificates);
-            setIsPasswordVerified(true);
-          }
-        }
+        // Log access
+        logCertificateViews(resolution.share, resolution.certificates);
       } catch (err) {
         console.error('Error checking access:', err);
-        
-        // Fallback to demo mode
-        const mockShare = createMockShare(token);
-        setShare(mockShare);
-        setIsPasswordProtected(mockShare.is_password_protected);
-        
-        if (!mockShare.is_password_protected) {
-          const mockCertificates = createMockCertificates();
-          setCertificates(mockCertificates);
-          setIsPasswordVerified(true);
-        }
+        setError(UNREACHABLE_MESSAGE);
       } finally {
         setLoading(false);
       }
     };
 
     checkAccess();
-  }, [token]);
+  }, [token, demoMode]);
 
-  const createMockShare = (token: string) => {
-    return {
-      id: '1',
-      user_id: '1',
-      token: token,
-      certificate_ids: ['1', '2'],
-      created_at: new Date().toISOString(),
-      expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-      is_password_protected: false,
-      is_revoked: false,
-      max_downloads: null,
-      download_count: 0,
-      view_count: 1
-    };
-  };
+  // Recipient-bound links are logged by the server with the verified address
+  const logCertificateViews = (resolvedShare: ResolvedShare, certs: SharedCertificate[]) => {
+    if (resolvedShare.requires_verification) return;
 
-  const createMockCertificates = () => {
-    return [
-      {
-        id: '1',
-        title: 'AWS Certified Solutions Architect',
-        type: 'Professional Certification',
-        expiry_date: new Date(2025, 5, 15).toISOString(),
-        completion_date: new Date(2023, 5, 15).toISOString(),
-        status: 'valid',
-        issuer: 'Amazon Web Services',
-        cert_number: 'AWS-123456',
-        description: 'Professional level certification for AWS architecture',
-        file_url: null
-      },
-      {
-        id: '2',
-        title: 'React Developer Certification',
-        type: 'Technical Certification',
-        expiry_date: null,
-        completion_date: new Date(2023, 2, 10).toISOString(),
-        status: 'valid',
-        issuer: 'Meta',
-        cert_number: 'REACT-789012',
-        description: 'Advanced certification for React development',
-        file_url: null
-      }
-    ];
+    for (const cert of certs) {
+      logAccess({
+        certificate_id: cert.id,
+        access_type: 'view',
+        access_method: 'link',
+        share_id: resolvedShare.id
+      });
+    }
   };
 
-  const logAccess = async (shareId: string, certs: any[]) => {
+  const handleVerifyPassword = async () => {
+    if (!token) return;
+
+    if (!password.trim()) {
+      setPasswordError('Please enter the password');
+      return;
+    }
+
     try {
-      // Increment view count
-      if (share) {
-        try {
-          await supabase
-            .from('link_shares')
-            .update({ view_count: (share?.view_count || 0) + 1 })
-            .eq('id', shareId);
-        } catch (err) {
-          console.log("Failed to update view count, using demo mode");
-        }
+      setLoading(true);
+      setPasswordError(null);
+      
+      // The password is checked on the server, which only returns certificates if it matches
+      const resolution = await resolveShareToken(token, password, verificationToken);
+      
+      if (!resolution) {
+        setPasswordError('Failed to verify password. Please try again.');
+        return;
       }
       
-      // Log access for each certificate
-      for (const cert of certs) {
-        try {
-          // Generate a proper UUID for the access log
-          const { data: { uuid } } = await supabase.rpc('gen_random_uuid');
-          
-          await supabase
-            .from('access_logs')
-            .insert({
-              id: uuid,
-              certificate_id: cert.id,
-              access_type: 'view',
-              access_method: 'link',
-              share_id: shareId,
-              ip_address: null, // We don't collect IP in client-side code
-              user_agent: navigator.userAgent,
-              timestamp: new Date().toISOString()
-            });
-        } catch (err) {
-          console.log("Failed to log access, using demo mode");
+      if (!resolution.isValid) {
+        if (resolution.reason === 'invalid_password' || resolution.reason === 'password_required') {
+          setPasswordError('Incorrect password. Please try again.');
+        } else if (resolution.reason === 'verification_required') {
+          // The password was right; the link also needs a verified recipient
+          setIsPasswordVerified(true);
+          requireVerification();
+        } else {
+          showAccessError(resolution.reason);
         }
+        return;
       }
+      
+      setShare(resolution.share);
+      setCertificates(resolution.certificates);
+      setIsPasswordVerified(true);
+      setVerifiedEmail(resolution.recipientEmail || null);
+      
+      // Log access
+      logCertificateViews(resolution.share, resolution.certificates);
     } catch (err) {
-      console.error('Error logging access:', err);
-      // Non-blocking - continue even if logging fails
+      console.error('Error verifying password:', err);
+      setPasswordError('Failed to verify password. Please try again.');
+    } finally {
+      setLoading(false);
     }
   };
 
-  const handleVerifyPassword = async () => {
-    if (!password.trim()) {
-      setError('Please enter the password');
+  // Explains why the link cannot be used, offering an access request when
+  // the owner could issue a new one
+  const showAccessError = (reason: ShareAccessReason) => {
+    setError(getAccessErrorMessage(reason));
+    setAccessRequestable(canRequestAccess(reason));
+  };
+
+  const handleRequestAccess = async () => {
+    if (!token) return;
+
+    if (!requestName.trim() || !requestReason.trim()) {
+      setRequestError('Please enter your name and why you need access');
+      return;
+    }
+
+    if (!validate(requestEmail.trim())) {
+      setRequestError('Please enter a valid email address');
       return;
     }
 
     try {
-      setLoading(true);
-      setError(null);
-      
-      // For a real implementation, we would hash the password and compare with the stored hash
-      // Here we're just simulating the verification
-      
-      // Get certificates
-      try {
-        // Convert string IDs to UUIDs if needed
-        const certificateIds = share.certificate_ids.map((id: string) => {
-          // Check if the ID is already a UUID
-          if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
-            return id;
-          }
-          // For demo mode, just use the ID as is
-          return id;
-        });
-        
-        const { data: certsData, error: certsError } = await supabase
-          .from('certificates')
-          .select('*')
-          .in('id', certificateIds);
-        
-        if (certsError) {
-          console.error('Failed to load certificates:', certsError);
-          throw certsError;
-        }
-        
-        if (!certsData || certsData.length === 0) {
-          throw new Error('No certificates found');
+      setIsRequesting(true);
+      setRequestError(null);
+
+      const resolution = await requestShareAccess(token, {
+        name: requestName.trim(),
+        email: requestEmail.trim(),
+        organisation: requestOrganisation.trim() || undefined,
+        reason: requestReason.trim()
+      });
+
+      if (!resolution || resolution.isValid || !resolution.requestSent) {
+        setRequestError('Your request could not be sent. Please try again.');
+        return;
+      }
+
+      setRequestSent(true);
+    } catch (err) {
+      console.error('Error requesting access:', err);
+      setRequestError('Your request could not be sent. Please try again.');
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  // Shows the email verification step, forgetting any earlier verification
+  // that the server no longer accepts
+  const requireVerification = () => {
+    if (token) storeShareVerification(token, null);
+    setVerificationToken(undefined);
+    setNeedsVerification(true);
+    setCodeSent(false);
+    setVerificationCode('');
+  };
+
+  const handleRequestCode = async () => {
+    if (!token) return;
+
+    const email = recipientEmail.trim();
+    if (!validate(email)) {
+      setVerificationError('Please enter a valid email address');
+      return;
+    }
+
+    try {
+      setIsVerifying(true);
+      setVerificationError(null);
+
+      const resolution = await requestShareCode(token, email, password || undefined);
+      if (!resolution) {
+        setVerificationError('Failed to send a code. Please try again.');
+        return;
+      }
+
+      if (!resolution.isValid && resolution.reason !== 'verification_required') {
+        showAccessError(resolution.reason);
+        return;
+      }
+
+      setCodeSent(true);
+    } catch (err) {
+      console.error('Error requesting verification code:', err);
+      setVerificationError('Failed to send a code. Please try again.');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleVerifyCode = async () => {
+    if (!token) return;
+
+    if (!verificationCode.trim()) {
+      setVerificationError('Please enter the code from the email');
+      return;
+    }
+
+    try {
+      setIsVerifying(true);
+      setVerificationError(null);
+
+      const resolution = await verifyShareCode(token, recipientEmail.trim(), verificationCode.trim(), password || undefined);
+      if (!resolution) {
+        setVerificationError('Failed to check the code. Please try again.');
+        return;
+      }
+
+      if (!resolution.isValid) {
+        if (['invalid_code', 'code_expired', 'too_many_attempts'].includes(resolution.reason)) {
+          setVerificationError(getCodeErrorMessage(resolution.reason));
+        } else {
+          showAccessError(resolution.reason);
         }
-        
-        setCertificates(certsData);
-        setIsPasswordVerified(true);
-        
-        // Log access
-        await logAccess(share.id, certsData);
-      } catch (err) {
-        console.log("Failed to load certificates, using demo mode");
-        // Mock certificates
-        const mockCertificates = createMockCertificates();
-        setCertificates(mockCertificates);
-        setIsPasswordVerified(true);
+        return;
       }
+
+      if (resolution.verificationToken) {
+        storeShareVerification(token, resolution.verificationToken);
+        setVerificationToken(resolution.verificationToken);
+      }
+      setShare(resolution.share);
+      setCertificates(resolution.certificates);
+      setVerifiedEmail(resolution.recipientEmail || null);
+      setNeedsVerification(false);
     } catch (err) {
-      console.error('Error verifying password:', err);
-      setError('Failed to verify password. Please try again.');
+      console.error('Error verifying code:', err);
+      setVerificationError('Failed to check the code. Please try again.');
     } finally {
-      setLoading(false);
+      setIsVerifying(false);
     }
   };
 
-  const handleDownload = async (certificate: any) => {
+  const clearDownloadProgress = (certificateId: string) => {
+    setDownloadProgress(prev => {
+      const newState = { ...prev };
+      delete newState[certificateId];
+      return newState;
+    });
+  };
+
+  // Saves a file fetched or decrypted in the browser
+  const saveFile = (file: Blob, fileName: string) => {
+    const url = URL.createObjectURL(file);
+    triggerDownload(url, fileName);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownload = async (certificate: SharedCertificate) => {
+    let markedFile: Blob | null = null;
     try {
       // Start progress
       setDownloadProgress(prev => ({ ...prev, [certificate.id]: 10 }));
       
-      // Increment download count
-      if (share) {
-        try {
-          await supabase
-            .from('link_shares')
-            .update({ download_count: (share.download_count || 0) + 1 })
-            .eq('id', share.id);
-        } catch (err) {
-          console.log("Failed to update download count, using demo mode");
+      // Record the download on the server, which enforces the download limit
+      if (!demoMode && token) {
+        const resolution = await downloadSharedCertificate(
+          token,
+          certificate.id,
+          password || undefined,
+          undefined,
+          verificationToken
+        );
+        
+        if (!resolution) {
+          throw new Error('Failed to record download');
+        }
+        
+        if (!resolution.isValid) {
+          if (resolution.reason === 'verification_required') {
+            requireVerification();
+          } else {
+            showAccessError(resolution.reason);
+          }
+          clearDownloadProgress(certificate.id);
+          return;
+        }
+        
+        if ('file' in resolution) {
+          // Watermarked links send the file already marked for this viewer
+          markedFile = resolution.file;
+          setShare(prev => prev && { ...prev, download_count: prev.download_count + 1 });
+        } else {
+          setShare(resolution.share);
+          // Use the server's copy of the certificate for the download
+          certificate = resolution.certificates[0] || certificate;
         }
       }
       
       // Log access
-      try {
-        // Generate a proper UUID for the access log
-        const { data: { uuid } } = await supabase.rpc('gen_random_uuid');
-        
-        await supabase
-          .from('access_logs')
-          .insert({
-            id: uuid,
-            certificate_id: certificate.id,
-            access_type: 'download',
-            access_method: 'link',
-            share_id: share?.id,
-            ip_address: null, // We don't collect IP in client-side code
-            user_agent: navigator.userAgent,
-            timestamp: new Date().toISOString()
-          });
-      } catch (err) {
-        console.log("Failed to log access, using demo mode");
+      if (!share?.requires_verification) {
+        logAccess({
+          certificate_id: certificate.id,
+          access_type: 'download',
+          access_method: 'link',
+          share_id: share?.id
+        });
       }
       
       // Simulate download progress
@@ -343,13 +453,19 @@ const ShareCertificateView = () => {
       }
       
       // Create download link
-      if (certificate.file_url) {
-        const a = document.createElement('a');
-        a.href = certificate.file_url;
-        a.download = certificate.title;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
+      if (markedFile) {
+        saveFile(markedFile, `${certificate.title}.pdf`);
+      } else if (certificate.file_url && certificate.is_encrypted) {
+        // The file key is carried in the link fragment and never reaches the server
+        const fileKey = parseKeyFragment(window.location.hash)[certificate.id];
+        if (!fileKey) {
+          throw new Error('Missing decryption key for encrypted certificate');
+        }
+
+        const decrypted = await fetchAndDecryptFile(certificate.file_url, fileKey, certificate.file_type || undefined);
+        saveFile(decrypted, certificate.title);
+      } else if (certificate.file_url) {
+        triggerDownload(certificate.file_url, certificate.title);
       } else {
         // Create a text file with certificate details if no file_url exists
         const certDetails = `
@@ -362,36 +478,88 @@ Expiry Date: ${certificate.expiry_date ? new Date(certificate.expiry_date).toLoc
 Description: ${certificate.description || 'No description provided'}
         `;
         
-        const blob = new Blob([certDetails], { type: 'text/plain' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${certificate.title}.txt`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        saveFile(new Blob([certDetails], { type: 'text/plain' }), `${certificate.title}.txt`);
       }
       
       // Complete progress
       setDownloadProgress(prev => ({ ...prev, [certificate.id]: 100 }));
       
       // Reset progress after a delay
-      setTimeout(() => {
-        setDownloadProgress(prev => {
-          const newState = { ...prev };
-          delete newState[certificate.id];
-          return newState;
-        });
-      }, 2000);
+      setTimeout(() => clearDownloadProgress(certificate.id), 2000);
     } catch (err) {
       console.error('Error downloading certificate:', err);
       setError('Failed to download certificate. Please try again.');
-      setDownloadProgress(prev => {
-        const newState = { ...prev };
-        delete newState[certificate.id];
-        return newState;
-      });
+      clearDownloadProgress(certificate.id);
+    }
+  };
+
+  const handleAttachmentDownload = async (certificate: SharedCertificate, attachment: SharedAttachment) => {
+    if (demoMode || !token) return;
+
+    try {
+      setDownloadingAttachmentId(attachment.id);
+
+      const resolution = await downloadSharedCertificate(
+        token,
+        certificate.id,
+        password || undefined,
+        attachment.id,
+        verificationToken
+      );
+
+      if (!resolution) {
+        throw new Error('Failed to record download');
+      }
+
+      if (!resolution.isValid) {
+        if (resolution.reason === 'verification_required') {
+          requireVerification();
+        } else {
+          showAccessError(resolution.reason);
+        }
+        return;
+      }
+
+      if (!share?.requires_verification) {
+        logAccess({
+          certificate_id: certificate.id,
+          access_type: 'download',
+          access_method: 'link',
+          share_id: share?.id
+        });
+      }
+
+      const fileName = `${certificate.title} - ${attachment.label}`;
+      if ('file' in resolution) {
+        // Watermarked links send the file already marked for this viewer
+        setShare(prev => prev && { ...prev, download_count: prev.download_count + 1 });
+        saveFile(resolution.file, `${fileName}.pdf`);
+        return;
+      }
+
+      setShare(resolution.share);
+
+      const fileUrl = resolution.attachment?.file_url;
+      if (!fileUrl) {
+        throw new Error('Attachment file is unavailable');
+      }
+
+      if (attachment.is_encrypted) {
+        const fileKey = parseKeyFragment(window.location.hash)[attachment.id];
+        if (!fileKey) {
+          throw new Error('Missing decryption key for encrypted attachment');
+        }
+
+        const decrypted = await fetchAndDecryptFile(fileUrl, fileKey, attachment.file_type || undefined);
+        saveFile(decrypted, fileName);
+      } else {
+        triggerDownload(fileUrl, fileName);
+      }
+    } catch (err) {
+      console.error('Error downloading attachment:', err);
+      setError('Failed to download file. Please try again.');
+    } finally {
+      setDownloadingAttachmentId(null);
     }
   };
 
@@ -420,6 +588,10 @@ Description: ${certificate.description || 'No description provided'}
 
   const expiryInfo = getExpiryInfo();
 
+  // Details the owner hid are removed on the server; say so rather than leave gaps
+  const isHidden = (field: RedactableField) => Boolean(share?.hidden_fields?.includes(field));
+  const hiddenValue = <p className="mt-1 italic text-gray-400">Hidden by the owner</p>;
+
   const LogoWithCheckmark = () => (
     <div className="relative">
       <Shield className="h-8 w-8 text-blue-500" strokeWidth={2} />
@@ -456,9 +628,82 @@ Description: ${certificate.description || 'No description provided'}
             <p className="mt-2 text-red-600 font-medium">{error}</p>
           </CardHeader>
           <CardContent>
-            <p className="text-center text-gray-600 mb-6">
-              This link may have expired, been revoked, or reached its maximum view limit.
-            </p>
+            {requestSent ? (
+              <Alert className="bg-green-50 border-green-200 mb-6">
+                <CheckCircle className="h-4 w-4 text-green-500" />
+                <AlertDescription className="text-green-700">
+                  Your request has been sent. If the owner approves it, a new link will be emailed to {requestEmail.trim()}.
+                </AlertDescription>
+              </Alert>
+            ) : accessRequestable ? (
+              <div className="space-y-4 mb-6">
+                <p className="text-center text-gray-600">
+                  Ask the owner for access. If they approve, you will be emailed a new link.
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="request-name">Your Name</Label>
+                  <Input
+                    id="request-name"
+                    value={requestName}
+                    maxLength={100}
+                    onChange={(e) => setRequestName(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="request-email">Email Address</Label>
+                  <Input
+                    id="request-email"
+                    type="email"
+                    value={requestEmail}
+                    onChange={(e) => setRequestEmail(e.target.value)}
+                    placeholder="The new link will only open for this address"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="request-organisation">Organisation (optional)</Label>
+                  <Input
+                    id="request-organisation"
+                    value={requestOrganisation}
+                    maxLength={100}
+                    onChange={(e) => setRequestOrganisation(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="request-reason">Why do you need access?</Label>
+                  <textarea
+                    id="request-reason"
+                    className="w-full min-h-[80px] p-2 border rounded-md text-sm"
+                    value={requestReason}
+                    maxLength={1000}
+                    onChange={(e) => setRequestReason(e.target.value)}
+                  />
+                </div>
+
+                {requestError && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{requestError}</AlertDescription>
+                  </Alert>
+                )}
+
+                <Button className="w-full" onClick={handleRequestAccess} disabled={isRequesting}>
+                  {isRequesting ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Sending...
+                    </>
+                  ) : (
+                    <>
+                      <Send className="mr-2 h-4 w-4" />
+                      Request Access
+                    </>
+                  )}
+                </Button>
+              </div>
+            ) : (
+              <p className="text-center text-gray-600 mb-6">
+                This link may have expired, been revoked, or reached its maximum view limit.
+              </p>
+            )}
             <Button 
               className="w-full" 
               variant="outline"
@@ -504,6 +749,12 @@ Description: ${certificate.description || 'No description provided'}
                 />
               </div>
               
+              {passwordError && (
+                <Alert variant="destructive">
+                  <AlertDescription>{passwordError}</AlertDescription>
+                </Alert>
+              )}
+              
               <Button 
                 className="w-full" 
                 onClick={handleVerifyPassword}
@@ -525,6 +776,106 @@ Description: ${certificate.description || 'No description provided'}
     );
   }
 
+  if (needsVerification) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              <Mail className="h-12 w-12 text-blue-500" />
+            </div>
+            <CardTitle className="text-2xl font-bold">
+              <span className="text-blue-600">Xafe</span>
+              <span className="text-black">Wallet</span>
+            </CardTitle>
+            <p className="mt-2 text-gray-600">
+              {codeSent
+                ? `If ${recipientEmail.trim()} can open this link, we've emailed it a code`
+                : 'This link was shared with specific people. Verify your email address to continue.'}
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {!codeSent ? (
+                <div className="space-y-2">
+                  <Label htmlFor="recipient-email">Email Address</Label>
+                  <Input
+                    id="recipient-email"
+                    type="email"
+                    value={recipientEmail}
+                    onChange={(e) => setRecipientEmail(e.target.value)}
+                    placeholder="The address the link was shared with"
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        handleRequestCode();
+                      }
+                    }}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="verification-code">Verification Code</Label>
+                  <Input
+                    id="verification-code"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={6}
+                    value={verificationCode}
+                    onChange={(e) => setVerificationCode(e.target.value.replace(/\D/g, ''))}
+                    placeholder="6-digit code"
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        handleVerifyCode();
+                      }
+                    }}
+                  />
+                </div>
+              )}
+
+              {verificationError && (
+                <Alert variant="destructive">
+                  <AlertDescription>{verificationError}</AlertDescription>
+                </Alert>
+              )}
+
+              <Button
+                className="w-full"
+                onClick={codeSent ? handleVerifyCode : handleRequestCode}
+                disabled={isVerifying}
+              >
+                {isVerifying ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    {codeSent ? 'Verifying...' : 'Sending...'}
+                  </>
+                ) : codeSent ? (
+                  'Verify and View'
+                ) : (
+                  'Email Me a Code'
+                )}
+              </Button>
+
+              {codeSent && (
+                <Button
+                  variant="ghost"
+                  className="w-full"
+                  onClick={() => {
+                    setCodeSent(false);
+                    setVerificationCode('');
+                    setVerificationError(null);
+                  }}
+                  disabled={isVerifying}
+                >
+                  Use a different address or send a new code
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 p-4">
       <div className="max-w-4xl mx-auto">
@@ -547,6 +898,20 @@ Description: ${certificate.description || 'No description provided'}
           )}
         </div>
         
+        {verifiedEmail && (
+          <p className="mb-4 flex items-center text-sm text-gray-600">
+            <Mail className="h-4 w-4 mr-1 text-green-500" />
+            Verified as {verifiedEmail}
+          </p>
+        )}
+
+        {share?.watermark && (
+          <p className="mb-4 flex items-center text-sm text-gray-600">
+            <Stamp className="h-4 w-4 mr-1 text-gray-500" />
+            Downloads are PDFs watermarked with {verifiedEmail ? 'your email address' : 'this link'} and the time
+          </p>
+        )}
+
         {share && share.max_downloads && (
           <Alert className="mb-4 bg-blue-50 border-blue-200">
             <div className="flex items-center">
@@ -583,24 +948,32 @@ Description: ${certificate.description || 'No description provided'}
                       <div className="grid grid-cols-2 gap-4 mt-4 text-sm">
                         <div>
                           <Label>Certificate Number</Label>
-                          <p className="mt-1">{cert.cert_number}</p>
+                          {isHidden('cert_number') ? hiddenValue : <p className="mt-1">{cert.cert_number}</p>}
                         </div>
                         <div>
                           <Label>Completion Date</Label>
-                          <p className="mt-1">{formatDate(cert.completion_date)}</p>
+                          {isHidden('completion_date') ? (
+                            hiddenValue
+                          ) : (
+                            <p className="mt-1">{formatDate(cert.completion_date)}</p>
+                          )}
                         </div>
                         <div>
                           <Label>Expiry Date</Label>
-                          <p className="mt-1 flex items-center gap-1">
-                            {!cert.expiry_date ? (
-                              <>
-                                <Infinity className="h-4 w-4" />
-                                <span>No Expiry</span>
-                              </>
-                            ) : (
-                              formatDate(cert.expiry_date)
-                            )}
-                          </p>
+                          {isHidden('expiry_date') ? (
+                            hiddenValue
+                          ) : (
+                            <p className="mt-1 flex items-center gap-1">
+                              {!cert.expiry_date ? (
+                                <>
+                                  <Infinity className="h-4 w-4" />
+                                  <span>No Expiry</span>
+                                </>
+                              ) : (
+                                formatDate(cert.expiry_date)
+                              )}
+                            </p>
+                          )}
                         </div>
                         <div>
                           <Label>Status</Label>
@@ -625,7 +998,11 @@ Description: ${certificate.description || 'No description provided'}
                         </div>
                       )}
                       
-                      {cert.file_url && downloadProgress[cert.id] !== undefined ? (
+                      {isHidden('file') ? (
+                        <p className="mt-4 text-sm text-center text-gray-500">
+                          The owner has shared the details of this certificate without its file.
+                        </p>
+                      ) : downloadProgress[cert.id] !== undefined ? (
                         <div className="mt-4 space-y-2">
                           <Progress value={downloadProgress[cert.id]} className="h-2" />
                           <p className="text-xs text-center text-gray-500">
@@ -643,6 +1020,28 @@ Description: ${certificate.description || 'No description provided'}
                           Download Certificate
                         </Button>
                       )}
+
+                      {cert.attachments && cert.attachments.length > 0 && (
+                        <div className="mt-4 space-y-2">
+                          <Label>Additional Files</Label>
+                          {cert.attachments.map((attachment: SharedAttachment) => (
+                            <Button
+                              key={attachment.id}
+                              variant="outline"
+                              className="w-full justify-start"
+                              onClick={() => handleAttachmentDownload(cert, attachment)}
+                              disabled={downloadingAttachmentId === attachment.id}
+                            >
+                              {downloadingAttachmentId === attachment.id ? (
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                              ) : (
+                                <Paperclip className="h-4 w-4 mr-2" />
+                              )}
+                              {attachment.label} (v{attachment.version})
+                            </Button>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
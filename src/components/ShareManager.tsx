@@ -0,0 +1,516 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { format } from 'date-fns';
+import {
+  Link2,
+  Copy,
+  Check,
+  Lock,
+  Mail,
+  Eye,
+  EyeOff,
+  Download,
+  Pencil,
+  RefreshCw,
+  CopyPlus,
+  Ban,
+  Loader2,
+  Stamp
+} from 'lucide-react';
+import {
+  duplicateShareLink,
+  getShareLinkStatus,
+  getShareLinkUrl,
+  getWrappedShareKeys,
+  listShareLinks,
+  revokeShareLink,
+  rotateShareToken,
+  ShareLinkStatus,
+  updateShareLimits
+} from '@/lib/sharing';
+import { isVaultUnlocked, unwrapFileKey } from '@/lib/vault';
+import { getErrorMessage } from '@/lib/errors';
+import { isDemoMode } from '@/lib/demo-mode';
+import { Certificate, LinkShare } from '@/lib/types';
+import ShareAccessRequests from './ShareAccessRequests';
+import { findRedactionPreset, REDACTABLE_FIELDS } from '@shared/share-redaction';
+
+interface ShareManagerProps {
+  /** The wallet's certificates, used to name the certificates in each share */
+  certificates: Certificate[];
+}
+
+type ShareFilter = 'all' | 'active' | 'expired' | 'revoked';
+
+const FILTERS: { value: ShareFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'active', label: 'Active' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'revoked', label: 'Revoked' }
+];
+
+const STATUS_BADGES: Record<ShareLinkStatus, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-100 text-green-800' },
+  expired: { label: 'Expired', className: 'bg-gray-200 text-gray-800' },
+  download_limit: { label: 'Download limit reached', className: 'bg-yellow-100 text-yellow-800' },
+  revoked: { label: 'Revoked', className: 'bg-red-100 text-red-800' }
+};
+
+// e.g. "Hides certificate number, description"
+const describeHiddenFields = (share: LinkShare) => {
+  const hidden = share.hidden_fields || [];
+  const preset = findRedactionPreset(hidden);
+  if (preset?.id === 'proof_only') return 'Only title, issuer and status';
+  return `Hides ${REDACTABLE_FIELDS
+    .filter(({ field }) => hidden.includes(field))
+    .map(({ label }) => label.toLowerCase())
+    .join(', ')}`;
+};
+
+// Links that ran out of downloads can no longer be opened, so they are listed with expired ones
+const matchesFilter = (status: ShareLinkStatus, filter: ShareFilter) => {
+  if (filter === 'all') return true;
+  if (filter === 'expired') return status === 'expired' || status === 'download_limit';
+  return status === filter;
+};
+
+interface PendingAction {
+  share: LinkShare;
+  action: 'revoke' | 'rotate';
+}
+
+// Lists every link the user has shared, with actions to copy, edit, rotate,
+// duplicate and revoke them
+const ShareManager = ({ certificates }: ShareManagerProps) => {
+  const [shares, setShares] = useState<LinkShare[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [filter, setFilter] = useState<ShareFilter>('all');
+  const [busyShareId, setBusyShareId] = useState<string | null>(null);
+  const [copiedShareId, setCopiedShareId] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [editingShare, setEditingShare] = useState<LinkShare | null>(null);
+  const [editExpiryDate, setEditExpiryDate] = useState('');
+  const [editNoExpiry, setEditNoExpiry] = useState(false);
+  const [editMaxDownloads, setEditMaxDownloads] = useState('');
+  const [editError, setEditError] = useState<string | null>(null);
+  const demoMode = isDemoMode();
+
+  const loadShares = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setShares(await listShareLinks());
+    } catch (err) {
+      console.error('Error loading shares:', err);
+      setError(getErrorMessage(err, 'Failed to load your shared links'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (demoMode) {
+      setLoading(false);
+      return;
+    }
+    loadShares();
+  }, [demoMode, loadShares]);
+
+  const replaceShare = (share: LinkShare) => {
+    setShares(prev => prev.map(existing => (existing.id === share.id ? share : existing)));
+  };
+
+  // Keys for any encrypted files in the share, which are never stored unwrapped
+  const getFileKeys = async (share: LinkShare) => {
+    const wrappedKeys = await getWrappedShareKeys(share);
+    const encryptedIds = Object.keys(wrappedKeys);
+    if (encryptedIds.length > 0 && !isVaultUnlocked()) {
+      return null;
+    }
+
+    const fileKeys: Record<string, string> = {};
+    for (const id of encryptedIds) {
+      fileKeys[id] = await unwrapFileKey(wrappedKeys[id]);
+    }
+    return fileKeys;
+  };
+
+  // Rebuilds the link with keys for any encrypted files
+  const buildLink = async (share: LinkShare) => {
+    const fileKeys = await getFileKeys(share);
+    return fileKeys ? getShareLinkUrl(share, fileKeys) : null;
+  };
+
+  const copyLink = async (share: LinkShare) => {
+    const link = await buildLink(share);
+    if (!link) {
+      setError('Unlock your vault in Settings to copy links to encrypted certificates');
+      return false;
+    }
+
+    await navigator.clipboard.writeText(link);
+    setCopiedShareId(share.id);
+    setTimeout(() => setCopiedShareId(null), 2000);
+    return true;
+  };
+
+  const runAction = async (share: LinkShare, action: () => Promise<void>, failure: string) => {
+    try {
+      setBusyShareId(share.id);
+      setError(null);
+      setSuccess(null);
+      await action();
+    } catch (err) {
+      console.error('Error updating share:', err);
+      setError(getErrorMessage(err, failure));
+    } finally {
+      setBusyShareId(null);
+    }
+  };
+
+  const handleCopy = (share: LinkShare) =>
+    runAction(share, async () => {
+      await copyLink(share);
+    }, 'Failed to copy link');
+
+  const handleDuplicate = (share: LinkShare) =>
+    runAction(share, async () => {
+      const copy = await duplicateShareLink(share.id);
+      setShares(prev => [copy, ...prev]);
+      if (await copyLink(copy)) {
+        setSuccess('New link created and copied to clipboard');
+      }
+    }, 'Failed to duplicate link. Please try again.');
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return;
+    const { share, action } = pendingAction;
+    setPendingAction(null);
+
+    if (action === 'revoke') {
+      await runAction(share, async () => {
+        if (!(await revokeShareLink(share.id))) {
+          throw new Error('Failed to revoke link');
+        }
+        replaceShare({ ...share, is_revoked: true });
+        setSuccess('Link revoked. It can no longer be opened.');
+      }, 'Failed to revoke link. Please try again.');
+      return;
+    }
+
+    await runAction(share, async () => {
+      const rotated = await rotateShareToken(share.id);
+      replaceShare(rotated);
+      if (await copyLink(rotated)) {
+        setSuccess('The old link no longer works. The new link has been copied to your clipboard.');
+      }
+    }, 'Failed to replace link. Please try again.');
+  };
+
+  const openEditDialog = (share: LinkShare) => {
+    setEditingShare(share);
+    setEditNoExpiry(!share.expires_at);
+    setEditExpiryDate(format(share.expires_at ? new Date(share.expires_at) : new Date(), 'yyyy-MM-dd'));
+    setEditMaxDownloads(share.max_downloads ? share.max_downloads.toString() : '');
+    setEditError(null);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingShare) return;
+
+    // Links expire at the end of the chosen day
+    const expiresAt = editNoExpiry ? null : new Date(`${editExpiryDate}T23:59:59`);
+    if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt.getTime() < Date.now())) {
+      setEditError('Choose an expiry date in the future');
+      return;
+    }
+
+    const maxDownloads = editMaxDownloads.trim() ? Number(editMaxDownloads) : null;
+    if (maxDownloads !== null && (!Number.isInteger(maxDownloads) || maxDownloads < 1)) {
+      setEditError('The download limit must be a whole number of at least 1');
+      return;
+    }
+
+    const share = editingShare;
+    setEditingShare(null);
+    await runAction(share, async () => {
+      replaceShare(await updateShareLimits(share.id, {
+        expires_at: expiresAt ? expiresAt.toISOString() : null,
+        max_downloads: maxDownloads
+      }));
+      setSuccess('Link updated');
+    }, 'Failed to update link. Please try again.');
+  };
+
+  const getCertificateTitles = (share: LinkShare) =>
+    share.certificate_ids.map(id => certificates.find(cert => cert.id === id)?.title || 'Removed certificate');
+
+  const visibleShares = shares.filter(share => matchesFilter(getShareLinkStatus(share), filter));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          My Shares
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {demoMode ? (
+          <p className="text-sm text-gray-500">Shared links are not available in the demo wallet.</p>
+        ) : (
+          <>
+            {!loading && (
+              <ShareAccessRequests
+                shares={shares}
+                getCertificateTitles={getCertificateTitles}
+                getFileKeys={getFileKeys}
+                onShareIssued={share => setShares(prev => [share, ...prev])}
+              />
+            )}
+
+            <div className="flex gap-2">
+              {FILTERS.map(option => (
+                <Button
+                  key={option.value}
+                  variant={filter === option.value ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setFilter(option.value)}
+                >
+                  {option.label} ({shares.filter(share => matchesFilter(getShareLinkStatus(share), option.value)).length})
+                </Button>
+              ))}
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {success && (
+              <Alert className="bg-green-50 border-green-200">
+                <Check className="h-4 w-4 text-green-500" />
+                <AlertDescription className="text-green-700">{success}</AlertDescription>
+              </Alert>
+            )}
+
+            {loading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+              </div>
+            ) : visibleShares.length === 0 ? (
+              <p className="text-sm text-gray-500 py-4 text-center">
+                {shares.length === 0 ? "You haven't shared any links yet." : 'No links match this filter.'}
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {visibleShares.map(share => {
+                  const status = getShareLinkStatus(share);
+                  const badge = STATUS_BADGES[status];
+                  const isBusy = busyShareId === share.id;
+
+                  return (
+                    <div key={share.id} className="border rounded-lg p-3 space-y-2">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{getCertificateTitles(share).join(', ')}</p>
+                          <p className="text-xs text-gray-500">
+                            Created {format(new Date(share.created_at), 'PP')} ·{' '}
+                            {share.expires_at
+                              ? `${status === 'expired' ? 'Expired' : 'Expires'} ${format(new Date(share.expires_at), 'PP')}`
+                              : 'Never expires'}
+                          </p>
+                        </div>
+                        <Badge variant="secondary" className={`font-normal shrink-0 ${badge.className}`}>
+                          {badge.label}
+                        </Badge>
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+                        <span className="flex items-center gap-1">
+                          <Eye className="h-3 w-3" />
+                          {share.view_count || 0} views
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Download className="h-3 w-3" />
+                          {share.download_count || 0}
+                          {share.max_downloads ? ` of ${share.max_downloads}` : ''} downloads
+                        </span>
+                        {share.is_password_protected && (
+                          <span className="flex items-center gap-1">
+                            <Lock className="h-3 w-3" />
+                            Password protected
+                          </span>
+                        )}
+                        {share.recipient_emails?.length ? (
+                          <span className="flex items-center gap-1">
+                            <Mail className="h-3 w-3" />
+                            Only for {share.recipient_emails.join(', ')}
+                          </span>
+                        ) : null}
+                        {share.hidden_fields?.length ? (
+                          <span className="flex items-center gap-1">
+                            <EyeOff className="h-3 w-3" />
+                            {describeHiddenFields(share)}
+                          </span>
+                        ) : null}
+                        {share.watermark && (
+                          <span className="flex items-center gap-1">
+                            <Stamp className="h-3 w-3" />
+                            Watermarked
+                          </span>
+                        )}
+                        {share.follow_latest && <span>Shows latest renewal</span>}
+                        {share.attachment_ids?.length ? (
+                          <span>{share.attachment_ids.length} extra file(s)</span>
+                        ) : null}
+                      </div>
+
+                      <div className="flex flex-wrap gap-2">
+                        {status !== 'revoked' && (
+                          <Button variant="outline" size="sm" onClick={() => handleCopy(share)} disabled={isBusy}>
+                            {copiedShareId === share.id ? (
+                              <Check className="h-4 w-4 mr-1 text-green-500" />
+                            ) : (
+                              <Copy className="h-4 w-4 mr-1" />
+                            )}
+                            Copy Link
+                          </Button>
+                        )}
+                        {status !== 'revoked' && (
+                          <Button variant="outline" size="sm" onClick={() => openEditDialog(share)} disabled={isBusy}>
+                            <Pencil className="h-4 w-4 mr-1" />
+                            Edit Limits
+                          </Button>
+                        )}
+                        {status !== 'revoked' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setPendingAction({ share, action: 'rotate' })}
+                            disabled={isBusy}
+                          >
+                            <RefreshCw className="h-4 w-4 mr-1" />
+                            New Link
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => handleDuplicate(share)} disabled={isBusy}>
+                          <CopyPlus className="h-4 w-4 mr-1" />
+                          Duplicate
+                        </Button>
+                        {status !== 'revoked' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setPendingAction({ share, action: 'revoke' })}
+                            disabled={isBusy}
+                            className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                          >
+                            <Ban className="h-4 w-4 mr-1" />
+                            Revoke
+                          </Button>
+                        )}
+                        {isBusy && <Loader2 className="h-4 w-4 animate-spin text-gray-400 self-center" />}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!pendingAction} onOpenChange={open => !open && setPendingAction(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {pendingAction?.action === 'revoke' ? 'Revoke this link?' : 'Replace this link?'}
+            </DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            {pendingAction?.action === 'revoke'
+              ? 'Anyone with the link will no longer be able to open it. This cannot be undone.'
+              : 'The current link will stop working. The new link keeps the same certificates, password, expiry and download limit.'}
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={pendingAction?.action === 'revoke' ? 'destructive' : 'default'}
+              onClick={handleConfirmAction}
+            >
+              {pendingAction?.action === 'revoke' ? 'Revoke Link' : 'Replace Link'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editingShare} onOpenChange={open => !open && setEditingShare(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit Link Limits</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {editError && (
+              <Alert variant="destructive">
+                <AlertDescription>{editError}</AlertDescription>
+              </Alert>
+            )}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="share-no-expiry">Never expires</Label>
+              <Switch id="share-no-expiry" checked={editNoExpiry} onCheckedChange={setEditNoExpiry} />
+            </div>
+            {!editNoExpiry && (
+              <div className="space-y-2">
+                <Label htmlFor="share-expiry">Expires on</Label>
+                <Input
+                  id="share-expiry"
+                  type="date"
+                  value={editExpiryDate}
+                  min={format(new Date(), 'yyyy-MM-dd')}
+                  onChange={e => setEditExpiryDate(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="share-max-downloads">Download limit</Label>
+              <Input
+                id="share-max-downloads"
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                value={editMaxDownloads}
+                onChange={e => setEditMaxDownloads(e.target.value)}
+              />
+              {editingShare && editingShare.download_count > 0 && (
+                <p className="text-xs text-gray-500">
+                  Already downloaded {editingShare.download_count} time(s). Leave empty for no limit.
+                </p>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingShare(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveEdit}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ShareManager;
@@ -8,7 +8,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import PDFPreview from './PDFPreview';
 import { validate } from 'email-validator';
-import { generateShareLink, revokeShareLink } from '@/lib/sharing';
+import { createShareLink, revokeShareLink } from '@/lib/sharing';
 import { 
   Mail, 
   Link2, 
@@ -437,7 +437,7 @@ const SharingInterface = ({
         await new Promise(resolve => setTimeout(resolve, 300));
         
         // Generate the share link
-        const shareableLink = await generateShareLink(shareOptions);
+        const { share: storedShare, link: shareableLink } = await createShareLink(shareOptions);
         setShareProgress(70);
         
         await navigator.clipboard.writeText(shareableLink);
@@ -447,7 +447,7 @@ const SharingInterface = ({
 
         // Record share history
         const newShare: ShareHistory = {
-          id: Math.random().toString(36).substr(2, 9),
+          id: storedShare.id,
           type: 'link',
           url: shareableLink,
           certificates: selectedCerts,
@@ -478,7 +478,13 @@ const SharingInterface = ({
     }
   };
 
-  const handleRevoke = (shareId: string) => {
+  const handleRevoke = async (shareId: string) => {
+    setError('');
+    if (!(await revokeShareLink(shareId))) {
+      setError('Failed to revoke link. Please try again.');
+      return;
+    }
+
     setShareHistory(prev => 
       prev.map(share => 
         share.id === shareId 
@@ -778,7 +784,7 @@ const SharingInterface = ({
                     <Copy className="h-4 w-4" />
                   </Button>
                 )}
-                {!share.isRevoked && (
+                {!share.isRevoked && share.type === 'link' && (
                   <Button
                     variant="ghost"
                     size="sm"
@@ -0,0 +1,86 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle, XCircle } from 'lucide-react';
+import { SyncStatus, retryFailedChanges, discardFailedChanges } from '@/lib/offline-sync';
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Shows whether the wallet is live, a saved offline copy, or catching up
+// with changes made offline
+const SyncStatusIndicator = ({ status }: SyncStatusIndicatorProps) => {
+  if (!status.online) {
+    return (
+      <Badge variant="secondary" className="gap-1 bg-gray-200 font-normal text-gray-800">
+        <CloudOff className="h-3 w-3" />
+        {status.pending > 0
+          ? `Offline · ${plural(status.pending, 'change')} waiting to sync`
+          : 'Offline · showing your saved copy'}
+      </Badge>
+    );
+  }
+
+  if (status.syncing) {
+    return (
+      <Badge variant="secondary" className="gap-1 bg-blue-100 font-normal text-blue-800">
+        <RefreshCw className="h-3 w-3 animate-spin" />
+        Syncing {plural(status.pending, 'change')}...
+      </Badge>
+    );
+  }
+
+  if (status.failed > 0) {
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge
+          variant="secondary"
+          className="gap-1 bg-red-100 font-normal text-red-800"
+          title="The server refused these offline changes. Retry them, or discard them to keep the saved version"
+        >
+          <XCircle className="h-3 w-3" />
+          {plural(status.failed, 'change')} could not be saved
+        </Badge>
+        <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => retryFailedChanges()}>
+          Retry
+        </Button>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => discardFailedChanges()}>
+          Discard
+        </Button>
+      </div>
+    );
+  }
+
+  if (status.pending > 0) {
+    return (
+      <Badge variant="secondary" className="gap-1 bg-yellow-100 font-normal text-yellow-800">
+        <RefreshCw className="h-3 w-3" />
+        {plural(status.pending, 'change')} waiting to sync
+      </Badge>
+    );
+  }
+
+  if (status.conflicts > 0) {
+    return (
+      <Badge
+        variant="secondary"
+        className="gap-1 bg-orange-100 font-normal text-orange-800"
+        title="These records were changed on another device after your offline edits, so the newer version was kept"
+      >
+        <AlertTriangle className="h-3 w-3" />
+        {plural(status.conflicts, 'offline change')} replaced by newer edits
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="secondary" className="gap-1 bg-green-100 font-normal text-green-800">
+      <Cloud className="h-3 w-3" />
+      All changes saved
+    </Badge>
+  );
+};
+
+export default SyncStatusIndicator;
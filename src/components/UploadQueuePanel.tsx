@@ -0,0 +1,132 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Pause, Play, RotateCcw, X, CheckCircle2, AlertCircle, Loader2 } from 'lucide-react';
+import {
+  UploadTask,
+  cancelUpload,
+  clearFinishedUploads,
+  getUploadTasks,
+  pauseUpload,
+  resumeUpload,
+  subscribeToUploads
+} from '@/lib/upload-queue';
+import { formatFileSize } from '@/lib/attachments';
+
+const describeTask = (task: UploadTask): string => {
+  const transferred = `${formatFileSize(task.bytesUploaded)} of ${formatFileSize(task.size)}`;
+
+  switch (task.status) {
+    case 'queued':
+      return 'Waiting to upload';
+    case 'uploading':
+      return transferred;
+    case 'retrying':
+      return `Connection lost, retrying (attempt ${task.retries})... ${transferred}`;
+    case 'paused':
+      return `Paused at ${transferred}`;
+    case 'failed':
+      return task.error ? `Upload failed: ${task.error}` : 'Upload failed';
+    case 'completed':
+      return `Uploaded ${formatFileSize(task.size)}`;
+    case 'cancelled':
+      return 'Cancelled';
+  }
+};
+
+// Uploads for every certificate in progress, shown in the corner of the
+// dashboard until they are cleared
+const UploadQueuePanel = () => {
+  const tasks = useSyncExternalStore(subscribeToUploads, getUploadTasks);
+  const unfinished = tasks.filter(task => !['completed', 'cancelled'].includes(task.status));
+
+  // Leaving the page would lose uploads that have not finished
+  useEffect(() => {
+    if (unfinished.length === 0) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [unfinished.length]);
+
+  if (tasks.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 max-w-[calc(100vw-2rem)] rounded-lg border bg-white shadow-lg">
+      <div className="flex items-center justify-between border-b px-4 py-2">
+        <span className="text-sm font-medium">
+          {unfinished.length > 0
+            ? `Uploading ${unfinished.length} file${unfinished.length === 1 ? '' : 's'}`
+            : 'Uploads complete'}
+        </span>
+        {unfinished.length < tasks.length && (
+          <Button variant="ghost" size="sm" onClick={clearFinishedUploads}>
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <ul className="max-h-72 divide-y overflow-y-auto">
+        {tasks.map(task => {
+          const percent = task.size > 0 ? Math.round((task.bytesUploaded / task.size) * 100) : 0;
+          const canPause = ['queued', 'uploading', 'retrying'].includes(task.status);
+          const canResume = task.status === 'paused' || task.status === 'failed';
+          const canCancel = !['completed', 'cancelled'].includes(task.status);
+
+          return (
+            <li key={task.id} className="space-y-2 px-4 py-3">
+              <div className="flex items-center gap-2">
+                {task.status === 'completed' ? (
+                  <CheckCircle2 className="h-4 w-4 shrink-0 text-green-500" />
+                ) : task.status === 'failed' ? (
+                  <AlertCircle className="h-4 w-4 shrink-0 text-red-500" />
+                ) : task.status === 'uploading' || task.status === 'retrying' ? (
+                  <Loader2 className="h-4 w-4 shrink-0 animate-spin text-gray-400" />
+                ) : null}
+                <span className="flex-1 truncate text-sm" title={task.name}>{task.name}</span>
+                {canPause && (
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => pauseUpload(task.id)} title="Pause">
+                    <Pause className="h-4 w-4" />
+                  </Button>
+                )}
+                {canResume && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => resumeUpload(task.id)}
+                    title={task.status === 'failed' ? 'Retry' : 'Resume'}
+                  >
+                    {task.status === 'failed' ? <RotateCcw className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                )}
+                {canCancel && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-red-500 hover:text-red-700"
+                    onClick={() => cancelUpload(task.id)}
+                    title="Cancel"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              {task.status !== 'completed' && task.status !== 'cancelled' && (
+                <Progress value={percent} className="h-2" />
+              )}
+              <p className={`text-xs ${task.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                {describeTask(task)}
+              </p>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default UploadQueuePanel;
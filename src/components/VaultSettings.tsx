@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { KeyRound, Lock, Unlock, Loader2, AlertTriangle } from 'lucide-react';
+import { Settings } from '@/lib/types';
+import { checkPasswordStrength } from '@/lib/security-utils';
+import { createVaultCheck, unlockVault, lockVault, isVaultUnlocked } from '@/lib/vault';
+
+interface VaultSettingsProps {
+  settings: Settings;
+  onSettingsUpdate: (settings: Partial<Settings>) => Promise<void>;
+}
+
+const VaultSettings = ({ settings, onSettingsUpdate }: VaultSettingsProps) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [unlocked, setUnlocked] = useState(isVaultUnlocked());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasVault = !!settings.vault_key_check;
+
+  const handleCreateVault = async () => {
+    setError(null);
+
+    const { score, feedback } = checkPasswordStrength(passphrase);
+    if (score < 3) {
+      setError(feedback);
+      return;
+    }
+
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const vaultCheck = await createVaultCheck(passphrase);
+      await unlockVault(passphrase, vaultCheck);
+      await onSettingsUpdate({ vault_enabled: true, vault_key_check: vaultCheck });
+      setUnlocked(true);
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (err) {
+      console.error('Error creating vault:', err);
+      setError('Failed to create vault. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUnlock = async () => {
+    if (!settings.vault_key_check) return;
+    setError(null);
+
+    try {
+      setIsLoading(true);
+      const success = await unlockVault(passphrase, settings.vault_key_check);
+      if (!success) {
+        setError('Incorrect passphrase');
+        return;
+      }
+      setUnlocked(true);
+      setPassphrase('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLock = () => {
+    lockVault();
+    setUnlocked(false);
+  };
+
+  const handleToggleEncryption = async (checked: boolean) => {
+    try {
+      setError(null);
+      await onSettingsUpdate({ vault_enabled: checked });
+    } catch (err) {
+      console.error('Error updating vault settings:', err);
+      setError('Failed to update vault settings. Please try again.');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Encrypted Vault</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!hasVault ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Encrypt certificate files in your browser before they are uploaded. Only people
+              you share a link with can decrypt them.
+            </p>
+            <Alert className="bg-yellow-50 border-yellow-200">
+              <AlertTriangle className="h-4 w-4 text-yellow-600" />
+              <AlertDescription className="text-yellow-800">
+                Your passphrase is never sent to our servers. If you lose it, encrypted
+                files cannot be recovered.
+              </AlertDescription>
+            </Alert>
+            <div className="space-y-2">
+              <Label htmlFor="vault-passphrase">Vault Passphrase</Label>
+              <Input
+                id="vault-passphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vault-passphrase-confirm">Confirm Passphrase</Label>
+              <Input
+                id="vault-passphrase-confirm"
+                type="password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <Button
+              onClick={handleCreateVault}
+              disabled={isLoading || !passphrase}
+              className="w-full"
+            >
+              {isLoading ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <KeyRound className="h-4 w-4 mr-2" />
+              )}
+              Create Vault
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between space-x-4">
+              <div className="space-y-0.5">
+                <div className="flex items-center space-x-2">
+                  <KeyRound className="h-4 w-4 text-gray-500" />
+                  <Label htmlFor="vault-enabled">Encrypt New Uploads</Label>
+                </div>
+                <p className="text-sm text-gray-500">
+                  Files are encrypted before they leave your device
+                </p>
+              </div>
+              <Switch
+                id="vault-enabled"
+                checked={!!settings.vault_enabled}
+                onCheckedChange={handleToggleEncryption}
+              />
+            </div>
+
+            {unlocked ? (
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 text-sm text-green-700">
+                  <Unlock className="h-4 w-4" />
+                  <span>Vault unlocked for this session</span>
+                </div>
+                <Button variant="outline" size="sm" onClick={handleLock}>
+                  <Lock className="h-4 w-4 mr-2" />
+                  Lock
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="vault-unlock">Unlock Vault</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="vault-unlock"
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        handleUnlock();
+                      }
+                    }}
+                    placeholder="Vault passphrase"
+                    disabled={isLoading}
+                  />
+                  <Button onClick={handleUnlock} disabled={isLoading || !passphrase}>
+                    {isLoading ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      'Unlock'
+                    )}
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Needed to upload, view and share encrypted certificates
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VaultSettings;
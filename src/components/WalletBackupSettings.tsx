@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Archive, Download, Upload, Loader2, CheckCircle, AlertTriangle } from 'lucide-react';
+import { exportWallet, restoreWallet, downloadWalletBackup, RestoreResult } from '@/lib/wallet-backup';
+
+interface WalletBackupSettingsProps {
+  onRestored: () => Promise<void>;
+}
+
+const WalletBackupSettings = ({ onRestored }: WalletBackupSettingsProps) => {
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isBusy = isExporting || isRestoring;
+  const updateProgress = (completed: number, total: number) =>
+    setProgress(Math.round((completed / total) * 100));
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      setError(null);
+      setResult(null);
+      setProgress(0);
+      downloadWalletBackup(await exportWallet(updateProgress));
+    } catch (err) {
+      console.error('Error exporting wallet:', err);
+      setError('Failed to export your wallet. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backupFile) return;
+
+    try {
+      setIsRestoring(true);
+      setError(null);
+      setResult(null);
+      setProgress(0);
+      setResult(await restoreWallet(backupFile, updateProgress));
+      setBackupFile(null);
+      await onRestored();
+    } catch (err) {
+      console.error('Error restoring wallet:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore backup');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <Archive className="h-5 w-5" />
+          Backup & Restore
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500">
+          Download everything in your wallet as a ZIP: your profile, settings, certificates,
+          renewal history, files, shares and access history.
+        </p>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button onClick={handleExport} disabled={isBusy} className="w-full">
+          {isExporting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-2" />
+          )}
+          Export My Wallet
+        </Button>
+
+        <div className="space-y-2">
+          <Label htmlFor="walletBackupFile">Restore from Backup</Label>
+          <div className="flex gap-2">
+            <Input
+              id="walletBackupFile"
+              type="file"
+              accept=".zip"
+              disabled={isBusy}
+              onChange={(e) => setBackupFile(e.target.files?.[0] || null)}
+            />
+            <Button variant="outline" onClick={handleRestore} disabled={!backupFile || isBusy}>
+              {isRestoring ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-2" />
+              )}
+              Restore
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Certificates from the backup are added to this account. Share links and access
+            history are not restored.
+          </p>
+        </div>
+
+        {isBusy && <Progress value={progress} />}
+
+        {result && (
+          <Alert className="bg-green-50 border-green-200">
+            <CheckCircle className="h-4 w-4 text-green-500" />
+            <AlertDescription className="text-green-700">
+              Restored {result.certificates} certificate{result.certificates === 1 ? '' : 's'} and{' '}
+              {result.files} file{result.files === 1 ? '' : 's'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {result?.warnings.map(warning => (
+          <p key={warning} className="text-xs text-amber-600 flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3 shrink-0" />
+            {warning}
+          </p>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WalletBackupSettings;
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useSyncExternalStore } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -11,14 +12,31 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { format } from 'date-fns';
 import EnhancedSharingInterface from './EnhancedSharingInterface';
 import FileUploadHandler from './FileUploadHandler';
+import ExtractedFieldBadge from './ExtractedFieldBadge';
 import ProfileSection from './ProfileSection';
 import SettingsSection from './SettingsSection';
 import AccessLogsPanel from './AccessLogsPanel';
 import AnalyticsOverview from './analytics/AnalyticsOverview';
 import PDFPreview from './PDFPreview';
+import CertificateAttachments from './CertificateAttachments';
+import CertificateTimeline from './CertificateTimeline';
+import RenewCertificateDialog, { RenewalDetails } from './RenewCertificateDialog';
+import BulkImportDialog from './BulkImportDialog';
+import UploadQueuePanel from './UploadQueuePanel';
+import SyncStatusIndicator from './SyncStatusIndicator';
+import ShareManager from './ShareManager';
 import { database } from '@/lib/database';
-import { Certificate, Profile, Settings } from '@/lib/types';
+import { isVaultUnlocked, unwrapFileKey, fetchAndDecryptFile } from '@/lib/vault';
+import { storeAttachmentFile, PRIMARY_ATTACHMENT_LABEL } from '@/lib/attachments';
+import { isUploadCancelled } from '@/lib/upload-queue';
+import { getSyncStatus, startOfflineSync, subscribeToSyncStatus } from '@/lib/offline-sync';
+import { getCertificateStatus } from '@/lib/certificate-status';
+import { downloadCertificateCalendar } from '@/lib/calendar';
+import { ExtractedFields, ExtractionResult } from '@/lib/metadata-extraction';
+import { Certificate, CertificateAttachment, Profile, Settings } from '@/lib/types';
 import { useAuth } from '@/components/auth/AuthProvider';
+import { getErrorMessage } from '@/lib/errors';
+import { isDemoMode } from '@/lib/demo-mode';
 import { 
   Shield, 
   Plus, 
@@ -32,11 +50,17 @@ import {
   Infinity,
   Loader2,
   BarChart,
-  User
+  User,
+  RefreshCw,
+  CalendarDays,
+  FileSpreadsheet,
+  Link2
 } from 'lucide-react';
 
 const XafeWalletDashboard = () => {
   const { user, signOut } = useAuth();
+  const navigate = useNavigate();
+  const demoMode = isDemoMode();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [profile, setProfile] = useState<Profile>({
@@ -54,10 +78,12 @@ const XafeWalletDashboard = () => {
   });
   const [certificates, setCertificates] = useState<Certificate[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedCertificate, setSelectedCertificate] = useState(null);
+  const [selectedCertificate, setSelectedCertificate] = useState<Certificate | null>(null);
   const [showUploadDialog, setShowUploadDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [showFilterDialog, setShowFilterDialog] = useState(false);
   const [showEnhancedSharingDialog, setShowEnhancedSharingDialog] = useState(false);
+  const [renewingCertificate, setRenewingCertificate] = useState<Certificate | null>(null);
   const [filters, setFilters] = useState({
     type: '',
     status: '',
@@ -67,7 +93,8 @@ const XafeWalletDashboard = () => {
     direction: 'asc'
   });
   const [activeTab, setActiveTab] = useState('certificates');
-  const [previewUrl, setPreviewUrl] = useState(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [extractedFields, setExtractedFields] = useState<ExtractedFields>({});
 
   const [newCertificate, setNewCertificate] = useState({
     title: '',
@@ -81,10 +108,22 @@ const XafeWalletDashboard = () => {
     noExpiry: false
   });
 
+  const syncStatus = useSyncExternalStore(subscribeToSyncStatus, getSyncStatus);
+
   useEffect(() => {
     loadData();
   }, []);
 
+  useEffect(() => startOfflineSync(), []);
+
+  // Changes made offline have reached the server; show its copy, which also
+  // has any newer edits made elsewhere
+  useEffect(() => {
+    if (syncStatus.lastSyncedAt) {
+      reloadWallet().catch(err => console.error('Error reloading wallet after sync:', err));
+    }
+  }, [syncStatus.lastSyncedAt]);
+
   const loadData = async () => {
     try {
       setLoading(true);
@@ -103,12 +142,25 @@ const XafeWalletDashboard = () => {
       setCertificates(userCertificates);
     } catch (err) {
       console.error('Error loading data:', err);
-      setError('Failed to load data. Using demo mode with sample data.');
+      setError(getErrorMessage(err, 'Failed to load your wallet. Please check your connection and try again.'));
     } finally {
       setLoading(false);
     }
   };
 
+  // Reloads the wallet without the loading screen, e.g. after a backup
+  // restore, keeping the current tab open
+  const reloadWallet = async () => {
+    const [userProfile, userSettings, userCertificates] = await Promise.all([
+      database.profiles.get(),
+      database.settings.get(),
+      database.certificates.list()
+    ]);
+    setProfile(userProfile);
+    setSettings(userSettings);
+    setCertificates(userCertificates);
+  };
+
   const handleProfileUpdate = async (newProfile: Partial<Profile>) => {
     try {
       // Update profile in database
@@ -116,10 +168,8 @@ const XafeWalletDashboard = () => {
       
       // Update local state
       setProfile(prev => ({ ...prev, ...updatedProfile }));
-      
-      return updatedProfile;
     } catch (err) {
-      setError('Failed to update profile. Please try again.');
+      setError(getErrorMessage(err, 'Failed to update profile. Please try again.'));
       console.error('Error updating profile:', err);
       throw err;
     }
@@ -132,22 +182,34 @@ const XafeWalletDashboard = () => {
       
       // Update local state
       setSettings(prev => ({ ...prev, ...updatedSettings }));
-      
-      return updatedSettings;
     } catch (err) {
-      setError('Failed to update settings. Please try again.');
+      setError(getErrorMessage(err, 'Failed to update settings. Please try again.'));
       console.error('Error updating settings:', err);
       throw err;
     }
   };
 
-  const handleCardClick = (cert) => {
+  const handleCardClick = async (cert) => {
     if (previewUrl) {
       URL.revokeObjectURL(previewUrl);
+      setPreviewUrl(null);
     }
     setSelectedCertificate(cert);
     if (cert.file) {
       setPreviewUrl(URL.createObjectURL(cert.file));
+    } else if (cert.file_path && !cert.file_rejected) {
+      try {
+        const fileUrl = await database.certificates.getFileUrl(cert.file_path);
+        if (!cert.is_encrypted) {
+          setPreviewUrl(fileUrl);
+        } else if (cert.file_key && isVaultUnlocked()) {
+          const fileKey = await unwrapFileKey(cert.file_key);
+          const decrypted = await fetchAndDecryptFile(fileUrl, fileKey, cert.file_type);
+          setPreviewUrl(URL.createObjectURL(decrypted));
+        }
+      } catch (err) {
+        console.error('Error loading certificate file:', err);
+      }
     }
   };
 
@@ -166,6 +228,21 @@ const XafeWalletDashboard = () => {
     }));
   };
 
+  // Text fields the user has already typed in are kept; the dates only hold
+  // today's date until then, so detected dates replace them
+  const handleMetadataExtracted = ({ fields }: ExtractionResult) => {
+    setExtractedFields(fields);
+    setNewCertificate(prev => ({
+      ...prev,
+      title: prev.title || fields.title?.value || '',
+      issuer: prev.issuer || fields.issuer?.value || '',
+      certNumber: prev.certNumber || fields.cert_number?.value || '',
+      completionDate: fields.completion_date?.value || prev.completionDate,
+      expiryDate: fields.expiry_date?.value || prev.expiryDate,
+      noExpiry: fields.expiry_date ? false : prev.noExpiry
+    }));
+  };
+
   const getStatusColor = (status) => {
     switch (status) {
       case 'valid':
@@ -224,10 +301,17 @@ const XafeWalletDashboard = () => {
     });
   };
 
-  const uniqueTypes = [...new Set(certificates.map(cert => cert.type))];
-  const uniqueStatuses = [...new Set(certificates.map(cert => cert.status))];
+  // Statuses are recomputed daily on the server; derive them here too so the
+  // badges never lag behind the user's expiry window or today's date
+  const certificatesWithStatus = certificates.map(cert => ({
+    ...cert,
+    status: getCertificateStatus(cert.expiry_date, settings.expiry_reminders_days)
+  }));
 
-  const filteredCertificates = sortCertificates(certificates.filter(cert => {
+  const uniqueTypes = [...new Set(certificatesWithStatus.map(cert => cert.type))];
+  const uniqueStatuses = [...new Set(certificatesWithStatus.map(cert => cert.status))];
+
+  const filteredCertificates = sortCertificates(certificatesWithStatus.filter(cert => {
     const matchesSearch = cert.title.toLowerCase().includes(searchQuery) ||
       cert.type.toLowerCase().includes(searchQuery) ||
       cert.issuer.toLowerCase().includes(searchQuery);
@@ -255,41 +339,24 @@ const XafeWalletDashboard = () => {
         return;
       }
       
-      // Determine status based on expiry date
-      let status = 'valid';
-      if (!newCertificate.noExpiry && newCertificate.expiryDate) {
-        status = new Date(newCertificate.expiryDate) > new Date() ? 'valid' : 'expired';
-      }
+      // Determine status based on expiry date and the user's expiry window
+      const status = getCertificateStatus(
+        newCertificate.noExpiry ? null : newCertificate.expiryDate,
+        settings.expiry_reminders_days
+      );
 
-      // Upload file if provided
-      let fileUrl = null;
-      if (newCertificate.file) {
-        fileUrl = await database.certificates.uploadFile(newCertificate.file);
+      if (newCertificate.file && settings.vault_enabled && !isVaultUnlocked()) {
+        setError('Unlock your vault in Settings before uploading');
+        return;
       }
 
-      // Create certificate in database
-      const newCert = await database.certificates.create({
-        title: newCertificate.title,
-        type: newCertificate.type,
-        expiry_date: newCertificate.noExpiry ? null : newCertificate.expiryDate,
-        completion_date: newCertificate.completionDate,
-        status,
-        issuer: newCertificate.issuer,
-        cert_number: newCertificate.certNumber,
-        description: newCertificate.description,
-        file_url: fileUrl
-      });
-      
-      // Add file to certificate for UI display
-      if (newCertificate.file) {
-        newCert.file = newCertificate.file;
-      }
-      
-      // Update local state
-      setCertificates(prev => [newCert, ...prev]);
+      // The file uploads in the background, with progress in the upload panel,
+      // so the next certificate can be added straight away
+      const details = newCertificate;
       setShowUploadDialog(false);
-      
+
       // Reset form with default dates
+      setExtractedFields({});
       setNewCertificate({
         title: '',
         type: '',
@@ -301,12 +368,110 @@ const XafeWalletDashboard = () => {
         file: null,
         noExpiry: false
       });
+
+      // Upload file if provided, encrypting it first when the vault is enabled
+      let storedFile = null;
+      if (details.file) {
+        try {
+          storedFile = await storeAttachmentFile(details.file, !!settings.vault_enabled);
+        } catch (err) {
+          // Cancelled from the upload panel: the certificate is not added
+          if (isUploadCancelled(err)) return;
+          throw err;
+        }
+      }
+
+      // Create certificate in database
+      const newCert = await database.certificates.create({
+        title: details.title,
+        type: details.type,
+        expiry_date: details.noExpiry ? null : details.expiryDate,
+        completion_date: details.completionDate,
+        status,
+        issuer: details.issuer,
+        cert_number: details.certNumber,
+        description: details.description,
+        file_path: storedFile?.file_path || null,
+        file_type: storedFile?.file_type || null,
+        is_encrypted: storedFile?.is_encrypted || false,
+        file_key: storedFile?.file_key || null
+      });
+
+      // The uploaded file is the first version of the certificate's primary attachment
+      if (storedFile) {
+        await database.attachments.create({
+          certificate_id: newCert.id,
+          label: PRIMARY_ATTACHMENT_LABEL,
+          ...storedFile
+        });
+      }
+      
+      // Add file to certificate for UI display
+      if (details.file) {
+        newCert.file = details.file;
+      }
+      
+      // Update local state
+      setCertificates(prev => [newCert, ...prev]);
     } catch (err) {
-      setError('Failed to upload certificate. Please try again.');
+      setError(getErrorMessage(err, 'Failed to upload certificate. Please try again.'));
       console.error('Error uploading certificate:', err);
     }
   };
 
+  const handlePrimaryFileChange = async (attachment: CertificateAttachment) => {
+    try {
+      // Point the certificate at the newest version of its scan
+      const updatedCert = await database.certificates.update(attachment.certificate_id, {
+        file_path: attachment.file_path,
+        file_type: attachment.file_type,
+        is_encrypted: attachment.is_encrypted,
+        file_key: attachment.file_key
+      });
+
+      setCertificates(prev => prev.map(cert =>
+        cert.id === attachment.certificate_id ? { ...cert, ...updatedCert, file: undefined } : cert
+      ));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update certificate file. Please try again.'));
+      console.error('Error updating certificate file:', err);
+    }
+  };
+
+  const handleRenew = async (cert: Certificate, renewal: RenewalDetails) => {
+    // Upload the renewed scan first, encrypting it when the vault is enabled
+    let storedFile = null;
+    if (renewal.file) {
+      if (settings.vault_enabled && !isVaultUnlocked()) {
+        throw new Error('Unlock your vault in Settings before uploading');
+      }
+      storedFile = await storeAttachmentFile(renewal.file, !!settings.vault_enabled);
+    }
+
+    const renewed = await database.certificates.renew(cert.id, {
+      completion_date: renewal.completionDate,
+      expiry_date: renewal.expiryDate,
+      cert_number: renewal.certNumber,
+      file_path: storedFile?.file_path || null,
+      file_type: storedFile?.file_type || null,
+      is_encrypted: storedFile?.is_encrypted || false,
+      file_key: storedFile?.file_key || null
+    });
+    const successor: Certificate = { ...cert, ...renewed, file: renewal.file || undefined };
+
+    if (storedFile) {
+      await database.attachments.create({
+        certificate_id: successor.id,
+        label: PRIMARY_ATTACHMENT_LABEL,
+        ...storedFile
+      });
+    }
+
+    // The predecessor is archived and only shown in the successor's history
+    setCertificates(prev => [successor, ...prev.filter(c => c.id !== cert.id)]);
+    handleCardClick(successor);
+  };
+
   const handleDelete = async (id: string) => {
     try {
       // Delete certificate from database
@@ -316,7 +481,7 @@ const XafeWalletDashboard = () => {
       setCertificates(prev => prev.filter(cert => cert.id !== id));
       setSelectedCertificate(null);
     } catch (err) {
-      setError('Failed to delete certificate. Please try again.');
+      setError(getErrorMessage(err, 'Failed to delete certificate. Please try again.'));
       console.error('Error deleting certificate:', err);
     }
   };
@@ -337,6 +502,12 @@ const XafeWalletDashboard = () => {
   );
 
   const handleSignOut = async () => {
+    // The demo wallet has no session to end
+    if (demoMode) {
+      navigate('/');
+      return;
+    }
+
     try {
       await signOut();
     } catch (error) {
@@ -365,6 +536,15 @@ const XafeWalletDashboard = () => {
             <span className="text-black">Wallet</span>
           </h1>
           <p className="text-gray-500">Your Digital Safety Portfolio</p>
+          <div className="mt-2">
+            {demoMode ? (
+              <Badge variant="secondary" className="bg-purple-100 font-normal text-purple-800">
+                Demo wallet · sample data, changes are not saved
+              </Badge>
+            ) : (
+              <SyncStatusIndicator status={syncStatus} />
+            )}
+          </div>
         </div>
         <LogoWithCheckmark />
       </div>
@@ -390,6 +570,14 @@ const XafeWalletDashboard = () => {
           <BarChart className="h-4 w-4 mr-2" />
           Analytics
         </Button>
+        <Button
+          variant={activeTab === 'shares' ? 'default' : 'ghost'}
+          className="rounded-none border-b-2 border-transparent px-4"
+          onClick={() => setActiveTab('shares')}
+        >
+          <Link2 className="h-4 w-4 mr-2" />
+          Shares
+        </Button>
         <Button
           variant={activeTab === 'settings' ? 'default' : 'ghost'}
           className="rounded-none border-b-2 border-transparent px-4"
@@ -421,6 +609,15 @@ const XafeWalletDashboard = () => {
               <SlidersHorizontal className="h-4 w-4" />
               Filter
             </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              title="Export expiry dates to calendar (.ics)"
+              onClick={() => downloadCertificateCalendar(certificatesWithStatus, settings.expiry_reminders_days)}
+              disabled={!certificatesWithStatus.some(cert => cert.expiry_date)}
+            >
+              <CalendarDays className="h-4 w-4" />
+            </Button>
           </div>
 
           <div className="flex flex-wrap gap-2">
@@ -458,7 +655,7 @@ const XafeWalletDashboard = () => {
             </Button>
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
+          <div className="grid grid-cols-3 gap-4">
             <Button 
               className="flex items-center justify-center gap-2"
               onClick={() => setShowUploadDialog(true)}
@@ -466,6 +663,14 @@ const XafeWalletDashboard = () => {
               <Plus className="h-4 w-4" />
               Add New
             </Button>
+            <Button
+              variant="outline"
+              className="flex items-center justify-center gap-2"
+              onClick={() => setShowImportDialog(true)}
+            >
+              <FileSpreadsheet className="h-4 w-4" />
+              Import
+            </Button>
             <Button 
               variant="outline" 
               className="flex items-center justify-center gap-2"
@@ -535,12 +740,15 @@ const XafeWalletDashboard = () => {
         </>
       ) : activeTab === 'analytics' ? (
         <AnalyticsOverview userId={user?.id || ''} />
+      ) : activeTab === 'shares' ? (
+        <ShareManager certificates={certificates} />
       ) : (
         <SettingsSection 
           settings={settings}
           onSettingsUpdate={handleSettingsUpdate}
           userEmail={user?.email || "user@example.com"}
           onSignOut={handleSignOut}
+          onWalletRestored={reloadWallet}
         />
       )}
 
@@ -601,10 +809,16 @@ const XafeWalletDashboard = () => {
           </DialogHeader>
           <form onSubmit={handleUpload} className="flex-1 overflow-y-auto pr-6 -mr-6">
             <div className="space-y-4">
-              <FileUploadHandler onFileUploaded={handleFileUploaded} />
+              <FileUploadHandler
+                onFileUploaded={handleFileUploaded}
+                onMetadataExtracted={handleMetadataExtracted}
+              />
               
               <div className="space-y-2">
-                <Label htmlFor="title">Certificate Title</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="title">Certificate Title</Label>
+                  <ExtractedFieldBadge extracted={extractedFields.title} value={newCertificate.title} />
+                </div>
                 <Input
                   id="title"
                   required
@@ -622,7 +836,10 @@ const XafeWalletDashboard = () => {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="completionDate">Completion Date</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="completionDate">Completion Date</Label>
+                  <ExtractedFieldBadge extracted={extractedFields.completion_date} value={newCertificate.completionDate} />
+                </div>
                 <Input
                   id="completionDate"
                   type="date"
@@ -646,7 +863,10 @@ const XafeWalletDashboard = () => {
                 </div>
                 {!newCertificate.noExpiry && (
                   <div className="space-y-2">
-                    <Label htmlFor="expiry">Expiry Date</Label>
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="expiry">Expiry Date</Label>
+                      <ExtractedFieldBadge extracted={extractedFields.expiry_date} value={newCertificate.expiryDate} />
+                    </div>
                     <Input
                       id="expiry"
                       type="date"
@@ -657,7 +877,10 @@ const XafeWalletDashboard = () => {
                 )}
               </div>
               <div className="space-y-2">
-                <Label htmlFor="issuer">Issuer</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="issuer">Issuer</Label>
+                  <ExtractedFieldBadge extracted={extractedFields.issuer} value={newCertificate.issuer} />
+                </div>
                 <Input
                   id="issuer"
                   required
@@ -666,7 +889,10 @@ const XafeWalletDashboard = () => {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="certNumber">Certificate Number</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="certNumber">Certificate Number</Label>
+                  <ExtractedFieldBadge extracted={extractedFields.cert_number} value={newCertificate.certNumber} />
+                </div>
                 <Input
                   id="certNumber"
                   required
@@ -705,15 +931,30 @@ const XafeWalletDashboard = () => {
           }
         }}
       >
-        <DialogContent className="sm:max-w-md">
+        <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Certificate Details</DialogTitle>
           </DialogHeader>
           {selectedCertificate && (
             <div className="space-y-4">
-              {selectedCertificate.file && previewUrl && (
+              {selectedCertificate.file_rejected && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    {selectedCertificate.file_rejected_reason || 'The file was removed because it breaks the upload policy'}.
+                    Upload it again under Files below.
+                  </AlertDescription>
+                </Alert>
+              )}
+              {selectedCertificate.is_encrypted && !previewUrl && !isVaultUnlocked() && (
+                <Alert>
+                  <AlertDescription>
+                    Unlock your vault in Settings to preview this file
+                  </AlertDescription>
+                </Alert>
+              )}
+              {previewUrl && (
                 <>
-                  {selectedCertificate.file.type.startsWith('image/') ? (
+                  {(selectedCertificate.file?.type || selectedCertificate.file_type || '').startsWith('image/') ? (
                     <div className="relative w-full aspect-video bg-gray-50 rounded-lg overflow-hidden">
                       <img
                         src={previewUrl}
@@ -721,7 +962,7 @@ const XafeWalletDashboard = () => {
                         className="w-full h-full object-contain"
                       />
                     </div>
-                  ) : selectedCertificate.file.type === 'application/pdf' && (
+                  ) : (selectedCertificate.file?.type || selectedCertificate.file_type) === 'application/pdf' && (
                     <PDFPreview file={previewUrl} />
                   )}
                 </>
@@ -769,11 +1010,42 @@ const XafeWalletDashboard = () => {
                   {selectedCertificate.status.charAt(0).toUpperCase() + selectedCertificate.status.slice(1)}
                 </Badge>
               </div>
+              <CertificateTimeline certificate={selectedCertificate} />
+              {!selectedCertificate.is_archived && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setRenewingCertificate(selectedCertificate)}
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Renew Certificate
+                </Button>
+              )}
+              <CertificateAttachments
+                certificate={selectedCertificate}
+                encryptUploads={!!settings.vault_enabled}
+                onPrimaryFileChange={handlePrimaryFileChange}
+              />
             </div>
           )}
         </DialogContent>
       </Dialog>
 
+      <BulkImportDialog
+        isOpen={showImportDialog}
+        onClose={() => setShowImportDialog(false)}
+        existingCertificates={certificates}
+        settings={settings}
+        onImported={(imported) => setCertificates(prev => [...imported, ...prev])}
+      />
+
+      <RenewCertificateDialog
+        isOpen={!!renewingCertificate}
+        onClose={() => setRenewingCertificate(null)}
+        certificate={renewingCertificate}
+        onRenew={handleRenew}
+      />
+
       <Dialog open={showEnhancedSharingDialog} onOpenChange={setShowEnhancedSharingDialog}>
         <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
           <DialogHeader>
@@ -788,6 +1060,8 @@ const XafeWalletDashboard = () => {
           </div>
         </DialogContent>
       </Dialog>
+
+      <UploadQueuePanel />
     </div>
   );
 };
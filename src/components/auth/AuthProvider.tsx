@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { Session, User } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
+import { unsubscribeFromPush } from '@/lib/push';
+import { clearCachedRecords } from '@/lib/offline-sync';
 import { useNavigate } from 'react-router-dom';
 
 interface AuthContextType {
@@ -140,6 +142,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     try {
       setError(null);
       setLoading(true);
+
+      // Stop this browser receiving the signed-out user's notifications
+      await unsubscribeFromPush();
       
       const { error } = await supabase.auth.signOut();
       
@@ -147,6 +152,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         setError(error.message);
         throw error;
       }
+
+      // The offline copy of the wallet should not outlive the session
+      await clearCachedRecords();
       
       // Navigate to landing page after sign out
       navigate('/');
@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from './AuthProvider';
 import { Loader2 } from 'lucide-react';
+import { isDemoBuild } from '@/lib/demo-mode';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -31,7 +32,8 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     );
   }
 
-  if (!user) {
+  // Demo builds show the sample wallet without signing in
+  if (!user && !isDemoBuild()) {
     // Redirect to login page with return path
     return <Navigate to={redirectTo} state={{ from: location.pathname }} replace />;
   }
@@ -1,3 +1,6 @@
+import { supabase } from './supabase';
+import { AccessLog } from './types';
+
 export interface AccessLogEntry {
   certificate_id: string;
   access_type: 'view' | 'download' | 'email';
@@ -6,6 +9,148 @@ export interface AccessLogEntry {
   user_agent?: string;
   recipient_email?: string;
   share_id?: string;
+  timestamp?: string;
+}
+
+export interface AccessStats {
+  totalViews: number;
+  totalDownloads: number;
+  totalEmails: number;
+  accessByMethod: {
+    link: number;
+    email: number;
+    direct: number;
+  };
+  recentAccess: AccessLog[];
+}
+
+// Entries are written in batches so a share page with many certificates
+// results in a single insert rather than one request per certificate
+const BATCH_SIZE = 25;
+const FLUSH_DELAY_MS = 2000;
+const RETRY_DELAY_MS = 30000;
+// Upper bound on the offline queue so a long offline session cannot fill storage
+const MAX_QUEUED_ENTRIES = 500;
+const QUEUE_STORAGE_KEY = 'accessLogQueue';
+
+let pendingEntries: AccessLogEntry[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let activeFlush: Promise<void> | null = null;
+
+const readStoredQueue = (): AccessLogEntry[] => {
+  try {
+    const stored = localStorage.getItem(QUEUE_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (err) {
+    console.error('Error reading access log queue:', err);
+    return [];
+  }
+};
+
+const writeStoredQueue = (entries: AccessLogEntry[]) => {
+  try {
+    if (entries.length === 0) {
+      localStorage.removeItem(QUEUE_STORAGE_KEY);
+    } else {
+      localStorage.setItem(
+        QUEUE_STORAGE_KEY,
+        JSON.stringify(entries.slice(-MAX_QUEUED_ENTRIES))
+      );
+    }
+  } catch (err) {
+    console.error('Error saving access log queue:', err);
+  }
+};
+
+const scheduleFlush = (delay: number) => {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushAccessLogs();
+  }, delay);
+};
+
+const insertBatch = async (batch: AccessLogEntry[]): Promise<void> => {
+  const { error } = await supabase
+    .from('access_logs')
+    .insert(batch.map(entry => ({
+      certificate_id: entry.certificate_id,
+      access_type: entry.access_type,
+      access_method: entry.access_method,
+      ip_address: entry.ip_address || null,
+      user_agent: entry.user_agent || null,
+      recipient_email: entry.recipient_email || null,
+      share_id: entry.share_id || null,
+      timestamp: entry.timestamp
+    })));
+
+  if (error) {
+    throw error;
+  }
+};
+
+/**
+ * Writes all pending and previously queued access log entries to the database.
+ * Entries that cannot be written are kept in local storage and retried later.
+ * @returns Promise resolving once the flush attempt has finished
+ */
+export const flushAccessLogs = async (): Promise<void> => {
+  if (activeFlush) {
+    return activeFlush;
+  }
+
+  activeFlush = (async () => {
+    const entries = [...readStoredQueue(), ...pendingEntries];
+    pendingEntries = [];
+    writeStoredQueue(entries);
+
+    if (entries.length === 0) return;
+
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      // Wait for the 'online' event before retrying
+      return;
+    }
+
+    let written = 0;
+    try {
+      while (written < entries.length) {
+        const batch = entries.slice(written, written + BATCH_SIZE);
+        await insertBatch(batch);
+        written += batch.length;
+      }
+    } catch (err) {
+      console.error('Error writing access logs, will retry:', err);
+      scheduleFlush(RETRY_DELAY_MS);
+    } finally {
+      // Keep whatever was not written, plus anything logged during the flush
+      writeStoredQueue([...entries.slice(written), ...pendingEntries]);
+      pendingEntries = [];
+    }
+  })();
+
+  try {
+    await activeFlush;
+  } finally {
+    activeFlush = null;
+  }
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    flushAccessLogs();
+  });
+
+  // Persist anything still in memory when the page goes away; it is sent on the next visit
+  window.addEventListener('pagehide', () => {
+    if (pendingEntries.length > 0) {
+      writeStoredQueue([...readStoredQueue(), ...pendingEntries]);
+      pendingEntries = [];
+    }
+  });
+
+  if (readStoredQueue().length > 0) {
+    scheduleFlush(FLUSH_DELAY_MS);
+  }
 }
 
 /**
@@ -15,8 +160,17 @@ export interface AccessLogEntry {
  */
 export const logAccess = async (entry: AccessLogEntry): Promise<void> => {
   try {
-    console.log('Logging access:', entry);
-    // In demo mode, just log to console
+    pendingEntries.push({
+      ...entry,
+      user_agent: entry.user_agent ?? (typeof navigator !== 'undefined' ? navigator.userAgent : undefined),
+      timestamp: entry.timestamp ?? new Date().toISOString()
+    });
+
+    if (pendingEntries.length >= BATCH_SIZE) {
+      await flushAccessLogs();
+    } else {
+      scheduleFlush(FLUSH_DELAY_MS);
+    }
   } catch (err) {
     console.error('Error logging access:', err);
     // Non-blocking - continue even if logging fails
@@ -28,31 +182,42 @@ export const logAccess = async (entry: AccessLogEntry): Promise<void> => {
  * @param certificateId ID of the certificate
  * @returns Promise resolving to access statistics
  */
-export const getAccessStats = async (certificateId: string): Promise<any> => {
-  // In demo mode, return mock stats
-  return {
-    totalViews: 5,
-    totalDownloads: 2,
+export const getAccessStats = async (certificateId: string): Promise<AccessStats> => {
+  const stats: AccessStats = {
+    totalViews: 0,
+    totalDownloads: 0,
+    totalEmails: 0,
     accessByMethod: {
-      link: 4,
-      email: 2,
-      direct: 1,
+      link: 0,
+      email: 0,
+      direct: 0,
     },
     recentAccess: []
   };
-};
 
-/**
- * Increments the download count for a share link
- * @param shareId ID of the share
- * @returns Promise resolving to the updated download count
- */
-export const incrementDownloadCount = async (shareId: string): Promise<number> => {
-  try {
-    console.log('Incrementing download count for share:', shareId);
-    return 1; // Mock return value
-  } catch (err) {
-    console.error('Error incrementing download count:', err);
-    return -1;
+  const { data, error } = await supabase
+    .from('access_logs')
+    .select('*')
+    .eq('certificate_id', certificateId)
+    .order('timestamp', { ascending: false });
+
+  if (error) {
+    console.error('Error getting access stats:', error);
+    throw error;
   }
-};
\ No newline at end of file
+
+  const logs = (data || []) as AccessLog[];
+
+  for (const log of logs) {
+    if (log.access_type === 'view') stats.totalViews++;
+    if (log.access_type === 'download') stats.totalDownloads++;
+    if (log.access_type === 'email') stats.totalEmails++;
+    if (log.access_method in stats.accessByMethod) {
+      stats.accessByMethod[log.access_method]++;
+    }
+  }
+
+  stats.recentAccess = logs.slice(0, 10);
+
+  return stats;
+};
@@ -0,0 +1,137 @@
+import { database } from './database';
+import { computeChecksum } from './security-utils';
+import { validateCertificateFile } from './file-validation';
+import { encryptVaultFile, fetchAndDecryptFile, isVaultUnlocked, unwrapFileKey } from './vault';
+import { CertificateAttachment } from './types';
+
+// Label of the attachment that holds the certificate scan itself
+export const PRIMARY_ATTACHMENT_LABEL = 'Certificate';
+
+export interface UploadAttachmentOptions {
+  certificateId: string;
+  file: File;
+  label?: string;
+  /** Encrypt the file with the vault before upload */
+  encrypt?: boolean;
+}
+
+export interface StoredAttachmentFile {
+  file_path: string;
+  file_type: string | null;
+  file_size: number;
+  checksum: string;
+  is_encrypted: boolean;
+  file_key: string | null;
+}
+
+/**
+ * Validates a file and uploads it to storage, encrypting it with the vault
+ * first if requested
+ * @param originalFile File to upload
+ * @param encrypt Whether to encrypt the file before upload
+ * @returns Promise resolving to the stored file details
+ */
+export const storeAttachmentFile = async (
+  originalFile: File,
+  encrypt = false
+): Promise<StoredAttachmentFile> => {
+  if (encrypt && !isVaultUnlocked()) {
+    throw new Error('Vault is locked');
+  }
+
+  // Checked before encryption, which hides the contents from the server
+  const { file } = await validateCertificateFile(originalFile);
+
+  // The checksum is always of the unencrypted file so versions can be compared
+  const checksum = await computeChecksum(file);
+
+  let filePath: string;
+  let fileKey: string | null = null;
+  if (encrypt) {
+    const { encryptedFile, wrappedKey } = await encryptVaultFile(file);
+    filePath = await database.certificates.uploadFile(encryptedFile, file.name);
+    fileKey = wrappedKey;
+  } else {
+    filePath = await database.certificates.uploadFile(file);
+  }
+
+  return {
+    file_path: filePath,
+    file_type: file.type || null,
+    file_size: file.size,
+    checksum,
+    is_encrypted: encrypt,
+    file_key: fileKey
+  };
+};
+
+/**
+ * Uploads a file and records it as a new version of a certificate attachment
+ * @param options Upload options
+ * @returns Promise resolving to the created attachment
+ */
+export const uploadAttachment = async ({
+  certificateId,
+  file,
+  label = PRIMARY_ATTACHMENT_LABEL,
+  encrypt = false
+}: UploadAttachmentOptions): Promise<CertificateAttachment> => {
+  const stored = await storeAttachmentFile(file, encrypt);
+
+  return database.attachments.create({
+    certificate_id: certificateId,
+    label: label.trim() || PRIMARY_ATTACHMENT_LABEL,
+    ...stored
+  });
+};
+
+/**
+ * Downloads an attachment for the owner, decrypting it if needed
+ * @param attachment The attachment to load
+ * @returns Promise resolving to the file contents
+ */
+export const loadAttachmentFile = async (attachment: CertificateAttachment): Promise<Blob> => {
+  const fileUrl = await database.certificates.getFileUrl(attachment.file_path);
+
+  if (attachment.is_encrypted) {
+    if (!attachment.file_key || !isVaultUnlocked()) {
+      throw new Error('Vault is locked');
+    }
+    const fileKey = await unwrapFileKey(attachment.file_key);
+    return fetchAndDecryptFile(fileUrl, fileKey, attachment.file_type || undefined);
+  }
+
+  const response = await fetch(fileUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch attachment: ${response.status}`);
+  }
+  return response.blob();
+};
+
+/**
+ * Picks the newest version of each attachment label
+ * @param attachments Attachments of a single certificate
+ * @returns The latest version per label, ordered by label
+ */
+export const getLatestAttachments = (attachments: CertificateAttachment[]): CertificateAttachment[] => {
+  const latest = new Map<string, CertificateAttachment>();
+  for (const attachment of attachments) {
+    const current = latest.get(attachment.label);
+    if (!current || attachment.version > current.version) {
+      latest.set(attachment.label, attachment);
+    }
+  }
+  return [...latest.values()].sort((a, b) => a.label.localeCompare(b.label));
+};
+
+/**
+ * Formats a file size for display
+ * @param bytes Size in bytes
+ * @returns Human readable size, e.g. "1.2 MB"
+ */
+export const formatFileSize = (bytes: number | null): string => {
+  if (bytes === null || bytes === undefined) return 'Unknown size';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
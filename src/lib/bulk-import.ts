@@ -0,0 +1,300 @@
+import { parse, isValid, format, addDays } from 'date-fns';
+import { database } from './database';
+import { storeAttachmentFile, PRIMARY_ATTACHMENT_LABEL } from './attachments';
+import { getCertificateStatus } from './certificate-status';
+import { ImportTable } from './import-parsers';
+import { Certificate } from './types';
+
+export type ImportField =
+  | 'title'
+  | 'type'
+  | 'issuer'
+  | 'cert_number'
+  | 'completion_date'
+  | 'expiry_date'
+  | 'description'
+  | 'file_name';
+
+// Import field -> source column, or null when the field is not mapped
+export type ColumnMapping = Record<ImportField, string | null>;
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  /** Lower-case column names recognised automatically */
+  aliases: string[];
+}
+
+// Required fields match those of the single certificate upload form
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'title', label: 'Title', required: true, aliases: ['title', 'name', 'certificate', 'certificate name', 'course'] },
+  { field: 'type', label: 'Type', required: true, aliases: ['type', 'category', 'certificate type'] },
+  { field: 'issuer', label: 'Issuer', required: true, aliases: ['issuer', 'issued by', 'provider', 'organisation', 'organization', 'awarding body'] },
+  { field: 'cert_number', label: 'Certificate Number', required: true, aliases: ['cert_number', 'cert number', 'certificate number', 'number', 'licence number', 'license number'] },
+  { field: 'completion_date', label: 'Completion Date', required: true, aliases: ['completion_date', 'completion date', 'completed', 'issue date', 'issued', 'date issued', 'date'] },
+  { field: 'expiry_date', label: 'Expiry Date', required: false, aliases: ['expiry_date', 'expiry date', 'expiry', 'expires', 'expiration date', 'valid until'] },
+  { field: 'description', label: 'Description', required: false, aliases: ['description', 'notes', 'comments'] },
+  { field: 'file_name', label: 'File Name', required: false, aliases: ['file_name', 'file name', 'file', 'filename', 'attachment'] }
+];
+
+export interface CertificateDraft {
+  title: string;
+  type: string;
+  issuer: string;
+  cert_number: string;
+  completion_date: string;
+  expiry_date: string | null;
+  description: string;
+}
+
+export interface ImportRow {
+  /** 1-based row number as shown in a spreadsheet, counting the header row */
+  rowNumber: number;
+  draft: CertificateDraft;
+  file: File | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportResult {
+  created: Certificate[];
+  failed: { rowNumber: number; error: string }[];
+}
+
+export interface ImportOptions {
+  /** Encrypt matched files with the vault before upload */
+  encrypt?: boolean;
+  expiryWindowDays?: number;
+  batchSize?: number;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+const DEFAULT_BATCH_SIZE = 10;
+
+// Day-first formats, matching the dd/MM/yyyy dates shown in the app
+const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'd/M/yyyy', 'dd-MM-yyyy', 'dd.MM.yyyy', 'd MMM yyyy', 'd MMMM yyyy', 'dd/MM/yy'];
+
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH = new Date(1899, 11, 30);
+
+/**
+ * Converts an imported date value to yyyy-MM-dd
+ * @param value Cell value: ISO date or date-time, a day-first date or an Excel serial number
+ * @returns The normalised date, null for an empty value, or undefined if it cannot be read
+ */
+export const normalizeImportDate = (value: string): string | null | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const serial = Math.floor(parseFloat(trimmed));
+    // Plausible spreadsheet dates only (1950-2200); other numbers are not dates
+    if (serial > 18264 && serial < 109575) {
+      return format(addDays(EXCEL_EPOCH, serial), 'yyyy-MM-dd');
+    }
+    return undefined;
+  }
+
+  // ISO date-times, e.g. from JSON exports
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+    return trimmed.slice(0, 10);
+  }
+
+  for (const dateFormat of DATE_FORMATS) {
+    const parsed = parse(trimmed, dateFormat, new Date());
+    if (isValid(parsed) && parsed.getFullYear() > 1900) {
+      return format(parsed, 'yyyy-MM-dd');
+    }
+  }
+
+  return undefined;
+};
+
+const normalizeColumnName = (name: string) => name.trim().toLowerCase().replace(/[_-]+/g, ' ');
+
+/**
+ * Maps source columns to certificate fields by name
+ * @param columns Column names of the import file
+ * @returns Mapping with each field set to the first matching column
+ */
+export const guessColumnMapping = (columns: string[]): ColumnMapping => {
+  const mapping = {} as ColumnMapping;
+  const used = new Set<string>();
+
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const normalizedAliases = aliases.map(normalizeColumnName);
+    const match = columns.find(column =>
+      !used.has(column) && normalizedAliases.includes(normalizeColumnName(column))
+    );
+    mapping[field] = match || null;
+    if (match) used.add(match);
+  });
+
+  return mapping;
+};
+
+const duplicateKey = (draft: Pick<CertificateDraft, 'title' | 'issuer' | 'cert_number' | 'completion_date'>) =>
+  draft.cert_number.trim()
+    ? `number:${draft.cert_number.trim().toLowerCase()}`
+    : `title:${draft.title.trim().toLowerCase()}|${(draft.issuer || '').trim().toLowerCase()}|${draft.completion_date}`;
+
+/**
+ * Builds certificate drafts from an import table and checks them
+ * @param table Parsed import file
+ * @param mapping Field to column mapping
+ * @param existing Certificates already in the wallet, for duplicate checks
+ * @param files Files from an optional ZIP, keyed by lower-case file name
+ * @returns One entry per row with its errors and warnings
+ */
+export const validateImportRows = (
+  table: ImportTable,
+  mapping: ColumnMapping,
+  existing: Certificate[],
+  files?: Map<string, File>
+): ImportRow[] => {
+  const existingKeys = new Set(
+    existing
+      .filter(cert => !cert.is_archived)
+      .map(cert => duplicateKey({
+        title: cert.title,
+        issuer: cert.issuer,
+        cert_number: cert.cert_number || '',
+        completion_date: (cert.completion_date || '').slice(0, 10)
+      }))
+  );
+  const seenKeys = new Map<string, number>();
+
+  const cell = (record: Record<string, string>, field: ImportField) => {
+    const column = mapping[field];
+    return column ? (record[column] ?? '').trim() : '';
+  };
+
+  return table.rows.map((record, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    IMPORT_FIELDS.filter(f => f.required).forEach(({ field, label }) => {
+      if (!cell(record, field)) {
+        errors.push(`${label} is required`);
+      }
+    });
+
+    const completionValue = cell(record, 'completion_date');
+    const completionDate = normalizeImportDate(completionValue);
+    if (completionValue && completionDate === undefined) {
+      errors.push(`Completion date "${completionValue}" is not a valid date`);
+    }
+
+    const expiryValue = cell(record, 'expiry_date');
+    const expiryDate = normalizeImportDate(expiryValue);
+    if (expiryValue && expiryDate === undefined) {
+      errors.push(`Expiry date "${expiryValue}" is not a valid date`);
+    }
+
+    if (completionDate && expiryDate && expiryDate <= completionDate) {
+      errors.push('Expiry date must be after the completion date');
+    }
+
+    const draft: CertificateDraft = {
+      title: cell(record, 'title'),
+      type: cell(record, 'type'),
+      issuer: cell(record, 'issuer'),
+      cert_number: cell(record, 'cert_number'),
+      completion_date: completionDate || '',
+      expiry_date: expiryDate || null,
+      description: cell(record, 'description')
+    };
+
+    if (draft.title) {
+      const key = duplicateKey(draft);
+      if (existingKeys.has(key)) {
+        errors.push('Already in your wallet');
+      } else if (seenKeys.has(key)) {
+        errors.push(`Duplicate of row ${seenKeys.get(key)}`);
+      } else {
+        seenKeys.set(key, rowNumber);
+      }
+    }
+
+    let file: File | null = null;
+    const fileName = cell(record, 'file_name');
+    if (files) {
+      file = (fileName && files.get(fileName.toLowerCase()))
+        // Without a file name column, fall back to files named after the certificate number
+        || (!fileName && draft.cert_number
+          ? Array.from(files.entries()).find(([name]) =>
+              name.replace(/\.[^.]+$/, '') === draft.cert_number.toLowerCase()
+            )?.[1] || null
+          : null);
+
+      if (fileName && !file) {
+        warnings.push(`File "${fileName}" was not found in the ZIP`);
+      }
+    } else if (fileName) {
+      warnings.push(`File "${fileName}" will be skipped; add a ZIP to attach it`);
+    }
+
+    return { rowNumber, draft, file, errors, warnings };
+  });
+};
+
+const importRow = async (row: ImportRow, options: ImportOptions): Promise<Certificate> => {
+  const storedFile = row.file ? await storeAttachmentFile(row.file, !!options.encrypt) : null;
+
+  const certificate = await database.certificates.create({
+    ...row.draft,
+    status: getCertificateStatus(row.draft.expiry_date, options.expiryWindowDays),
+    file_path: storedFile?.file_path || null,
+    file_type: storedFile?.file_type || null,
+    is_encrypted: storedFile?.is_encrypted || false,
+    file_key: storedFile?.file_key || null
+  });
+
+  if (storedFile) {
+    await database.attachments.create({
+      certificate_id: certificate.id,
+      label: PRIMARY_ATTACHMENT_LABEL,
+      ...storedFile
+    });
+  }
+
+  return certificate;
+};
+
+/**
+ * Creates certificates for all rows without errors, a batch at a time
+ * @param rows Validated import rows
+ * @param options Encryption, batch size and progress callback
+ * @returns Promise resolving to the created certificates and the rows that failed
+ */
+export const importCertificates = async (
+  rows: ImportRow[],
+  options: ImportOptions = {}
+): Promise<ImportResult> => {
+  const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+  const importable = rows.filter(row => row.errors.length === 0);
+  const result: ImportResult = { created: [], failed: [] };
+
+  for (let start = 0; start < importable.length; start += batchSize) {
+    const batch = importable.slice(start, start + batchSize);
+    const outcomes = await Promise.allSettled(batch.map(row => importRow(row, options)));
+
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        result.created.push(outcome.value);
+      } else {
+        console.error('Error importing certificate:', outcome.reason);
+        result.failed.push({
+          rowNumber: batch[index].rowNumber,
+          error: outcome.reason instanceof Error ? outcome.reason.message : 'Failed to import'
+        });
+      }
+    });
+
+    options.onProgress?.(Math.min(start + batchSize, importable.length), importable.length);
+  }
+
+  return result;
+};
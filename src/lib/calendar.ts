@@ -0,0 +1,49 @@
+import { buildCertificateCalendar } from '@shared/ics';
+import { DEFAULT_EXPIRY_WINDOW_DAYS } from './certificate-status';
+import { Certificate } from './types';
+
+/**
+ * Builds the subscription URL of a calendar feed
+ * @param token Feed token
+ * @returns URL of the calendar-feed edge function for this token
+ */
+export const getCalendarFeedUrl = (token: string): string => {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${encodeURIComponent(token)}`;
+};
+
+/**
+ * Converts an https feed URL to webcal:// so calendar apps offer to subscribe
+ * @param url Feed URL
+ * @returns webcal URL
+ */
+export const toWebcalUrl = (url: string): string => {
+  return url.replace(/^https?:\/\//, 'webcal://');
+};
+
+/**
+ * Downloads a one-off .ics file with the expiry dates of the given certificates
+ * @param certificates Certificates to export; archived ones and those without an expiry date are skipped
+ * @param reminderDays Days before expiry to raise an alarm
+ */
+export const downloadCertificateCalendar = (
+  certificates: Certificate[],
+  reminderDays: number = DEFAULT_EXPIRY_WINDOW_DAYS
+): void => {
+  const calendar = buildCertificateCalendar(
+    certificates.filter(cert => !cert.is_archived),
+    {
+      reminderDays,
+      calendarName: 'XafeWallet Certificates',
+      appUrl: window.location.origin
+    }
+  );
+
+  const url = URL.createObjectURL(new Blob([calendar], { type: 'text/calendar;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'xafewallet-certificates.ics';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,32 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { CertificateStatus } from './types';
+
+// Used when the user has not configured settings.expiry_reminders_days
+export const DEFAULT_EXPIRY_WINDOW_DAYS = 30;
+
+/**
+ * Works out a certificate's status from its expiry date. Mirrors the
+ * certificate_status() database function so badges match stored statuses.
+ * @param expiryDate Expiry date (YYYY-MM-DD or ISO timestamp), or null for no expiry
+ * @param windowDays Days before expiry that a certificate counts as expiring
+ * @returns The certificate status
+ */
+export const getCertificateStatus = (
+  expiryDate: string | null | undefined,
+  windowDays: number = DEFAULT_EXPIRY_WINDOW_DAYS
+): CertificateStatus => {
+  if (!expiryDate) {
+    return 'valid';
+  }
+
+  // Compare calendar dates only; the certificate is valid on its expiry date
+  const daysLeft = differenceInCalendarDays(parseISO(expiryDate.slice(0, 10)), new Date());
+
+  if (daysLeft < 0) {
+    return 'expired';
+  }
+  if (daysLeft < windowDays) {
+    return 'expiring';
+  }
+  return 'valid';
+};
@@ -1,116 +1,92 @@
 import { supabase } from './supabase';
-import { Profile, Settings, Certificate } from './types';
+import { Profile, Settings, Certificate, CertificateAttachment, CertificateRenewal, PushSubscriptionRecord, CalendarFeed } from './types';
+import { generateSecureToken } from './security';
+import { MAX_FILE_SIZE } from '@shared/file-policy';
+import { getUploadFileType } from './file-validation';
+import { enqueueUpload } from './upload-queue';
+import { DataError, toDataError } from './errors';
+import { isDemoMode } from './demo-mode';
+import { WalletRepository } from './repository';
+import { demoRepository } from './demo-repository';
+import {
+  CachedRecordKind,
+  createCertificateOffline,
+  deleteCertificateOffline,
+  getSignedInUser,
+  isNetworkError,
+  readCache,
+  reportConnectivity,
+  syncPendingChanges,
+  updateCachedCertificates,
+  updateCertificateOffline,
+  upsertRecordOffline,
+  writeCache
+} from './offline-sync';
 
-// Mock data for demo mode
-const mockData = {
-  profiles: {
-    get: async () => {
-      return {
-        id: '1',
-        name: 'John Doe',
-        position: 'Software Engineer',
-        avatar_url: null
-      };
-    },
-    upsert: async (profile) => {
-      return {
-        ...profile,
-        id: '1',
-        updated_at: new Date().toISOString()
-      };
-    }
-  },
-  settings: {
-    get: async () => {
-      return {
-        id: '1',
-        user_id: '1',
-        email_notifications: true,
-        push_notifications: true,
-        expiry_reminders_days: 30,
-        auto_renewal_reminders: true
-      };
-    },
-    upsert: async (settings) => {
-      return {
-        ...settings,
-        id: '1',
-        user_id: '1',
-        updated_at: new Date().toISOString()
-      };
-    }
-  },
-  certificates: {
-    list: async () => {
-      return [
-        {
-          id: '1',
-          user_id: '1',
-          title: 'AWS Certified Solutions Architect',
-          type: 'Professional Certification',
-          expiry_date: new Date(2025, 5, 15).toISOString(),
-          completion_date: new Date(2023, 5, 15).toISOString(),
-          status: 'valid',
-          issuer: 'Amazon Web Services',
-          cert_number: 'AWS-123456',
-          description: 'Professional level certification for AWS architecture',
-          file_url: null,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        },
-        {
-          id: '2',
-          user_id: '1',
-          title: 'React Developer Certification',
-          type: 'Technical Certification',
-          expiry_date: null,
-          completion_date: new Date(2023, 2, 10).toISOString(),
-          status: 'valid',
-          issuer: 'Meta',
-          cert_number: 'REACT-789012',
-          description: 'Advanced certification for React development',
-          file_url: null,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        }
-      ];
-    },
-    create: async (certificate) => {
-      return {
-        ...certificate,
-        id: Math.random().toString(36).substring(2, 11),
-        user_id: '1',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
-    },
-    update: async (id, certificate) => {
-      return {
-        ...certificate,
-        id,
-        updated_at: new Date().toISOString()
-      };
-    },
-    delete: async (id) => {
-      return true;
-    },
-    uploadFile: async (file) => {
-      // Simulate file upload
-      return URL.createObjectURL(file);
-    }
+// Every request needs a signed-in user; the session is read locally so this
+// works offline too
+const requireUser = async () => {
+  const user = await getSignedInUser();
+  if (!user) throw new DataError('unauthenticated', 'Your session has ended. Please sign in again.');
+  return user;
+};
+
+// Saves a server response to the offline cache and passes it on
+const cacheResult = async <T>(userId: string, kind: CachedRecordKind, value: T): Promise<T> => {
+  reportConnectivity(true);
+  await writeCache(userId, kind, value);
+  return value;
+};
+
+// When the server cannot be reached, reads come from the offline cache.
+// Any other error, or nothing cached, is passed on
+const readFromCache = async <T>(userId: string, kind: CachedRecordKind, err: unknown): Promise<T> => {
+  if (isNetworkError(err)) {
+    reportConnectivity(false);
+    const cached = await readCache<T>(userId, kind);
+    if (cached !== null) return cached;
+  }
+  throw toDataError(err);
+};
+
+// When the server cannot be reached, writes are saved on this device and
+// queued for the next sync. Any other error is passed on
+const saveOffline = async <T>(err: unknown, save: () => Promise<T>): Promise<T> => {
+  if (!isNetworkError(err)) throw toDataError(err);
+  reportConnectivity(false);
+  return save();
+};
+
+// Attempts at picking the next version of an attachment before giving up
+const MAX_VERSION_ATTEMPTS = 3;
+
+// Removes a stored file once no certificate or attachment refers to it. The
+// first version of a certificate's file is shared with the certificate, and
+// renewals keep the files of the versions they replace.
+const removeUnusedFile = async (userId: string, filePath: string) => {
+  const [certificates, attachments] = await Promise.all([
+    supabase.from('certificates').select('id', { count: 'exact', head: true }).eq('user_id', userId).eq('file_path', filePath),
+    supabase.from('certificate_attachments').select('id', { count: 'exact', head: true }).eq('user_id', userId).eq('file_path', filePath)
+  ]);
+
+  if (certificates.error || attachments.error) {
+    console.error('Error checking file references:', certificates.error || attachments.error);
+    return;
+  }
+  if (certificates.count || attachments.count) return;
+
+  const { error } = await supabase.storage.from('certificates').remove([filePath]);
+  if (error) {
+    console.error('Error removing attachment file:', error);
   }
 };
 
-export const database = {
+const supabaseRepository: WalletRepository = {
   profiles: {
     async upsert(profile: Partial<Profile>) {
-      try {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) {
-          console.warn('No authenticated user, using demo mode');
-          return mockData.profiles.upsert(profile);
-        }
+      const user = await requireUser();
 
+      try {
         // Check if profile exists
         const { data: existingProfile, error: fetchError } = await supabase
           .from('profiles')
@@ -140,7 +116,7 @@ export const database = {
             throw insertError;
           }
           
-          return newProfile;
+          return cacheResult(user.id, 'profile', newProfile);
         }
         
         // Update existing profile
@@ -159,20 +135,19 @@ export const database = {
           throw updateError;
         }
         
-        return data;
+        return cacheResult(user.id, 'profile', data);
       } catch (err) {
-        console.error('Error upserting profile, using demo mode:', err);
-        return mockData.profiles.upsert(profile);
+        console.error('Error upserting profile:', err);
+        return saveOffline(err, () => upsertRecordOffline<Profile>(user.id, 'profile', profile));
       }
     },
 
     async get() {
+      const user = await requireUser();
+
       try {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) {
-          console.warn('No authenticated user, using demo mode');
-          return mockData.profiles.get();
-        }
+        // Offline changes go first so the server copy includes them
+        await syncPendingChanges();
 
         // Try to get existing profile
         const { data, error } = await supabase
@@ -201,30 +176,26 @@ export const database = {
               throw createError;
             }
             
-            return newProfile;
+            return cacheResult(user.id, 'profile', newProfile);
           }
           
           console.error('Error getting profile:', error);
           throw error;
         }
 
-        return data;
+        return cacheResult(user.id, 'profile', data);
       } catch (err) {
-        console.error('Error getting profile, using demo mode:', err);
-        return mockData.profiles.get();
+        console.error('Error getting profile:', err);
+        return readFromCache<Profile>(user.id, 'profile', err);
       }
     }
   },
 
   settings: {
     async upsert(settings: Partial<Settings>) {
-      try {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) {
-          console.warn('No authenticated user, using demo mode');
-          return mockData.settings.upsert(settings);
-        }
+      const user = await requireUser();
 
+      try {
         // Check if settings exist
         const { data: existingSettings, error: fetchError } = await supabase
           .from('settings')
@@ -254,7 +225,7 @@ export const database = {
             throw insertError;
           }
           
-          return newSettings;
+          return cacheResult(user.id, 'settings', newSettings);
         }
         
         // Update existing settings
@@ -273,20 +244,19 @@ export const database = {
           throw updateError;
         }
         
-        return data;
+        return cacheResult(user.id, 'settings', data);
       } catch (err) {
-        console.error('Error upserting settings, using demo mode:', err);
-        return mockData.settings.upsert(settings);
+        console.error('Error upserting settings:', err);
+        return saveOffline(err, () => upsertRecordOffline<Settings>(user.id, 'settings', settings));
       }
     },
 
     async get() {
+      const user = await requireUser();
+
       try {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) {
-          console.warn('No authenticated user, using demo mode');
-          return mockData.settings.get();
-        }
+        // Offline changes go first so the server copy includes them
+        await syncPendingChanges();
 
         // Try to get existing settings
         const { data, error } = await supabase
@@ -317,30 +287,26 @@ export const database = {
               throw createError;
             }
             
-            return newSettings;
+            return cacheResult(user.id, 'settings', newSettings);
           }
           
           console.error('Error getting settings:', error);
           throw error;
         }
 
-        return data;
+        return cacheResult(user.id, 'settings', data);
       } catch (err) {
-        console.error('Error getting settings, using demo mode:', err);
-        return mockData.settings.get();
+        console.error('Error getting settings:', err);
+        return readFromCache<Settings>(user.id, 'settings', err);
       }
     }
   },
 
   certificates: {
     async create(certificate: Omit<Certificate, 'id' | 'user_id'>) {
-      try {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) {
-          console.warn('No authenticated user, using demo mode');
-          return mockData.certificates.create(certificate);
-        }
+      const user = await requireUser();
 
+      try {
         // Ensure dates are properly formatted or null
         const formattedCertificate = {
           ...certificate,
@@ -364,25 +330,24 @@ export const database = {
           throw error;
         }
         
-        return data;
+        reportConnectivity(true);
+        await updateCachedCertificates(user.id, certificates => [data, ...certificates]);
+        return data as Certificate;
       } catch (err) {
-        console.error('Error creating certificate, using demo mode:', err);
-        return mockData.certificates.create(certificate);
+        console.error('Error creating certificate:', err);
+        return saveOffline(err, () => createCertificateOffline(user.id, certificate));
       }
     },
 
     async update(id: string, certificate: Partial<Certificate>) {
-      try {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) {
-          console.warn('No authenticated user, using demo mode');
-          return mockData.certificates.update(id, certificate);
-        }
+      const user = await requireUser();
 
-        // Ensure dates are properly formatted or null
+      try {
+        // Ensure dates are properly formatted or null, without clearing
+        // the expiry date on updates that do not include it
         const formattedCertificate = {
           ...certificate,
-          expiry_date: certificate.expiry_date || null
+          ...('expiry_date' in certificate ? { expiry_date: certificate.expiry_date || null } : {})
         };
 
         const { data, error } = await supabase
@@ -401,21 +366,21 @@ export const database = {
           throw error;
         }
         
-        return data;
+        reportConnectivity(true);
+        await updateCachedCertificates(user.id, certificates =>
+          certificates.map(cert => (cert.id === id ? data : cert))
+        );
+        return data as Certificate;
       } catch (err) {
-        console.error('Error updating certificate, using demo mode:', err);
-        return mockData.certificates.update(id, certificate);
+        console.error('Error updating certificate:', err);
+        return saveOffline(err, () => updateCertificateOffline(user.id, id, certificate));
       }
     },
 
     async delete(id: string) {
-      try {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) {
-          console.warn('No authenticated user, using demo mode');
-          return mockData.certificates.delete(id);
-        }
+      const user = await requireUser();
 
+      try {
         const { error } = await supabase
           .from('certificates')
           .delete()
@@ -427,25 +392,30 @@ export const database = {
           throw error;
         }
         
+        reportConnectivity(true);
+        await updateCachedCertificates(user.id, certificates => certificates.filter(cert => cert.id !== id));
         return true;
       } catch (err) {
-        console.error('Error deleting certificate, using demo mode:', err);
-        return mockData.certificates.delete(id);
+        console.error('Error deleting certificate:', err);
+        return saveOffline(err, async () => {
+          await deleteCertificateOffline(user.id, id);
+          return true;
+        });
       }
     },
 
     async list() {
+      const user = await requireUser();
+
       try {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) {
-          console.warn('No authenticated user, using demo mode');
-          return mockData.certificates.list();
-        }
+        // Offline changes go first so the server copy includes them
+        await syncPendingChanges();
 
         const { data, error } = await supabase
           .from('certificates')
           .select('*')
           .eq('user_id', user.id) // Only get user's own certificates
+          .eq('is_archived', false) // Renewed certificates only appear in their history
           .order('created_at', { ascending: false });
         
         if (error) {
@@ -453,48 +423,366 @@ export const database = {
           throw error;
         }
         
-        return data;
+        return cacheResult(user.id, 'certificates', data);
+      } catch (err) {
+        console.error('Error listing certificates:', err);
+        return readFromCache<Certificate[]>(user.id, 'certificates', err);
+      }
+    },
+
+    async renew(id: string, renewal: CertificateRenewal) {
+      const user = await requireUser();
+
+      try {
+        // Creates the successor and archives this certificate in one transaction
+        const { data, error } = await supabase.rpc('renew_certificate', {
+          p_certificate_id: id,
+          p_completion_date: renewal.completion_date,
+          p_expiry_date: renewal.expiry_date,
+          p_cert_number: renewal.cert_number || null,
+          p_file_path: renewal.file_path || null,
+          p_file_type: renewal.file_type || null,
+          p_is_encrypted: renewal.is_encrypted || false,
+          p_file_key: renewal.file_key || null
+        });
+
+        if (error) {
+          console.error('Error renewing certificate:', error);
+          throw error;
+        }
+
+        const successor = data as Certificate;
+        await updateCachedCertificates(user.id, certificates => [
+          successor,
+          ...certificates.filter(cert => cert.id !== id)
+        ]);
+        return successor;
       } catch (err) {
-        console.error('Error listing certificates, using demo mode:', err);
-        return mockData.certificates.list();
+        // Renewal archives the old certificate on the server, so it cannot be queued
+        console.error('Error renewing certificate:', err);
+        if (isNetworkError(err)) {
+          reportConnectivity(false);
+          throw new DataError('network', 'You are offline. Renew this certificate once you are back online.', err);
+        }
+        throw toDataError(err);
       }
     },
 
-    async uploadFile(file: File) {
+    async history(lineageId: string) {
+      const user = await requireUser();
+
+      try {
+        const { data, error } = await supabase
+          .from('certificates')
+          .select('*')
+          .eq('user_id', user.id)
+          .eq('lineage_id', lineageId)
+          .order('completion_date', { ascending: false });
+
+        if (error) {
+          console.error('Error getting certificate history:', error);
+          throw error;
+        }
+
+        return data as Certificate[];
+      } catch (err) {
+        // Archived versions are not cached, so offline the history is the current version only
+        console.error('Error getting certificate history:', err);
+        if (!isNetworkError(err)) throw toDataError(err);
+        const cached = await readCache<Certificate[]>(user.id, 'certificates');
+        return (cached || []).filter(cert => (cert.lineage_id || cert.id) === lineageId);
+      }
+    },
+
+    async uploadFile(file: File, name?: string) {
+      // Disallowed files are rejected before anything is sent
+      if (file.size > MAX_FILE_SIZE) {
+        throw new Error(`File size must be less than ${MAX_FILE_SIZE / (1024 * 1024)}MB`);
+      }
+      const uploadType = await getUploadFileType(file);
+
+      const user = await requireUser();
+
+      // Named after the detected content, never the browser-reported name
+      const filePath = `${user.id}/${Math.random().toString(36).substring(2)}.${uploadType.extension}`;
+
+      // Resumable upload through the shared queue. Failed uploads wait there to
+      // be retried or cancelled, so this only rejects when cancelled. A resumed
+      // upload keeps its earlier path. Store the path only; URLs are signed on
+      // demand by getFileUrl
+      return enqueueUpload(file, { objectName: filePath, contentType: uploadType.contentType, name });
+    },
+
+    async getFileUrl(path: string, expiresIn = 300) {
+      await requireUser();
+
       try {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) {
-          console.warn('No authenticated user, using demo mode');
-          return mockData.certificates.uploadFile(file);
+        const { data, error } = await supabase.storage
+          .from('certificates')
+          .createSignedUrl(path, expiresIn);
+
+        if (error) {
+          console.error('Error creating signed URL:', error);
+          throw error;
         }
 
-        const fileExt = file.name.split('.').pop();
-        const fileName = `${user.id}/${Math.random().toString(36).substring(2)}.${fileExt}`;
-        const filePath = `${fileName}`;
+        return data.signedUrl;
+      } catch (err) {
+        console.error('Error creating signed URL:', err);
+        throw toDataError(err);
+      }
+    }
+  },
+
+  attachments: {
+    async list(certificateId: string) {
+      try {
+        const user = await requireUser();
+
+        const { data, error } = await supabase
+          .from('certificate_attachments')
+          .select('*')
+          .eq('certificate_id', certificateId)
+          .eq('user_id', user.id)
+          .order('label', { ascending: true })
+          .order('version', { ascending: false });
+
+        if (error) {
+          console.error('Error listing attachments:', error);
+          throw error;
+        }
+
+        return data as CertificateAttachment[];
+      } catch (err) {
+        console.error('Error listing attachments:', err);
+        throw toDataError(err);
+      }
+    },
+
+    async create(attachment: Omit<CertificateAttachment, 'id' | 'user_id' | 'version' | 'created_at'>) {
+      try {
+        const user = await requireUser();
 
-        try {
-          const { error: uploadError } = await supabase.storage
-            .from('certificates')
-            .upload(filePath, file);
+        // Uploading a file under an existing label adds a new version rather
+        // than replacing it. Two uploads under one label can pick the same
+        // version; the unique constraint refuses the second, which tries again.
+        for (let attempt = 1; ; attempt++) {
+          const { data: latest, error: versionError } = await supabase
+            .from('certificate_attachments')
+            .select('version')
+            .eq('certificate_id', attachment.certificate_id)
+            .eq('label', attachment.label)
+            .order('version', { ascending: false })
+            .limit(1)
+            .maybeSingle();
 
-          if (uploadError) {
-            console.error('Error uploading file:', uploadError);
-            throw uploadError;
+          if (versionError) {
+            console.error('Error getting attachment version:', versionError);
+            throw versionError;
           }
 
-          const { data: { publicUrl } } = supabase.storage
-            .from('certificates')
-            .getPublicUrl(filePath);
+          const { data, error } = await supabase
+            .from('certificate_attachments')
+            .insert({
+              ...attachment,
+              user_id: user.id,
+              version: (latest?.version || 0) + 1,
+              created_at: new Date().toISOString()
+            })
+            .select()
+            .single();
+
+          if (error?.code === '23505' && attempt < MAX_VERSION_ATTEMPTS) continue;
+          if (error) {
+            console.error('Error creating attachment:', error);
+            throw error;
+          }
+
+          return data as CertificateAttachment;
+        }
+      } catch (err) {
+        console.error('Error creating attachment:', err);
+        throw toDataError(err);
+      }
+    },
+
+    async delete(id: string) {
+      try {
+        const user = await requireUser();
+
+        const { data: deleted, error } = await supabase
+          .from('certificate_attachments')
+          .delete()
+          .eq('id', id)
+          .eq('user_id', user.id)
+          .select('file_path')
+          .maybeSingle();
+
+        if (error) {
+          console.error('Error deleting attachment:', error);
+          throw error;
+        }
+
+        if (deleted?.file_path) {
+          await removeUnusedFile(user.id, deleted.file_path);
+        }
+
+        return true;
+      } catch (err) {
+        console.error('Error deleting attachment:', err);
+        throw toDataError(err);
+      }
+    }
+  },
+
+  pushSubscriptions: {
+    async save(subscription: Pick<PushSubscriptionRecord, 'endpoint' | 'p256dh' | 'auth' | 'user_agent'>) {
+      try {
+        const user = await requireUser();
+
+        // Re-subscribing the same browser refreshes its keys instead of adding a row
+        const { data, error } = await supabase
+          .from('push_subscriptions')
+          .upsert(
+            { ...subscription, user_id: user.id },
+            { onConflict: 'endpoint' }
+          )
+          .select()
+          .single();
 
-          return publicUrl;
-        } catch (error) {
-          console.error('Supabase request failed', error);
+        if (error) {
+          console.error('Error saving push subscription:', error);
           throw error;
         }
+
+        return data as PushSubscriptionRecord;
       } catch (err) {
-        console.error('Error uploading file, using demo mode:', err);
-        return mockData.certificates.uploadFile(file);
+        console.error('Error saving push subscription:', err);
+        throw toDataError(err);
+      }
+    },
+
+    async remove(endpoint: string) {
+      try {
+        const user = await requireUser();
+
+        const { error } = await supabase
+          .from('push_subscriptions')
+          .delete()
+          .eq('endpoint', endpoint)
+          .eq('user_id', user.id);
+
+        if (error) {
+          console.error('Error removing push subscription:', error);
+          throw error;
+        }
+
+        return true;
+      } catch (err) {
+        console.error('Error removing push subscription:', err);
+        throw toDataError(err);
       }
     }
+  },
+
+  calendarFeeds: {
+    async get() {
+      try {
+        const user = await requireUser();
+
+        const { data, error } = await supabase
+          .from('calendar_feeds')
+          .select('*')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (error) {
+          console.error('Error fetching calendar feed:', error);
+          throw error;
+        }
+
+        return data as CalendarFeed | null;
+      } catch (err) {
+        console.error('Error fetching calendar feed:', err);
+        throw toDataError(err);
+      }
+    },
+
+    // Creates the feed, or replaces its token so the old URL stops working
+    async regenerate() {
+      try {
+        const user = await requireUser();
+
+        const { data, error } = await supabase
+          .from('calendar_feeds')
+          .upsert(
+            {
+              user_id: user.id,
+              token: generateSecureToken(24),
+              created_at: new Date().toISOString(),
+              last_accessed_at: null
+            },
+            { onConflict: 'user_id' }
+          )
+          .select()
+          .single();
+
+        if (error) {
+          console.error('Error creating calendar feed:', error);
+          throw error;
+        }
+
+        return data as CalendarFeed;
+      } catch (err) {
+        console.error('Error creating calendar feed:', err);
+        throw toDataError(err);
+      }
+    },
+
+    async delete() {
+      try {
+        const user = await requireUser();
+
+        const { error } = await supabase
+          .from('calendar_feeds')
+          .delete()
+          .eq('user_id', user.id);
+
+        if (error) {
+          console.error('Error deleting calendar feed:', error);
+          throw error;
+        }
+
+        return true;
+      } catch (err) {
+        console.error('Error deleting calendar feed:', err);
+        throw toDataError(err);
+      }
+    }
+  }
+};
+
+const currentRepository = () => (isDemoMode() ? demoRepository : supabaseRepository);
+
+// Supabase, or the sample wallet in demo mode. Looked up on each use because
+// the /demo route switches demo mode on and off while the app is running
+export const database: WalletRepository = {
+  get profiles() {
+    return currentRepository().profiles;
+  },
+  get settings() {
+    return currentRepository().settings;
+  },
+  get certificates() {
+    return currentRepository().certificates;
+  },
+  get attachments() {
+    return currentRepository().attachments;
+  },
+  get pushSubscriptions() {
+    return currentRepository().pushSubscriptions;
+  },
+  get calendarFeeds() {
+    return currentRepository().calendarFeeds;
   }
 };
\ No newline at end of file
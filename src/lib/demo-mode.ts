@@ -0,0 +1,27 @@
+// Demo mode shows sample data and never touches Supabase. It is only on when
+// asked for: with VITE_DEMO_MODE=true, which puts the whole app in demo mode,
+// or while the /demo route is open.
+
+const DEMO_BUILD = import.meta.env.VITE_DEMO_MODE === 'true';
+
+let demoRouteOpen = false;
+
+/**
+ * Checks whether the app is showing demo data
+ * @returns True in demo mode
+ */
+export const isDemoMode = (): boolean => DEMO_BUILD || demoRouteOpen;
+
+/**
+ * Checks whether the whole app was built for demos, rather than just the /demo route
+ * @returns True if VITE_DEMO_MODE is set
+ */
+export const isDemoBuild = (): boolean => DEMO_BUILD;
+
+/**
+ * Switches demo mode on or off for the /demo route
+ * @param enabled Whether the /demo route is open
+ */
+export const setDemoRoute = (enabled: boolean): void => {
+  demoRouteOpen = enabled;
+};
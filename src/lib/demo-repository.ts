@@ -0,0 +1,266 @@
+import { WalletRepository } from './repository';
+import { CalendarFeed, Certificate, CertificateAttachment, Profile, Settings } from './types';
+
+// Sample wallet for demo mode. Changes are kept in memory for the session so
+// the demo behaves like the real thing, and are lost on reload.
+
+const DEMO_USER_ID = 'demo-user';
+
+const daysFromNow = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+const createId = () => crypto.randomUUID();
+
+const createSampleCertificates = (): Certificate[] => {
+  const now = new Date().toISOString();
+  return [
+    {
+      id: 'demo-certificate-1',
+      user_id: DEMO_USER_ID,
+      title: 'AWS Certified Solutions Architect',
+      type: 'Professional Certification',
+      expiry_date: daysFromNow(365),
+      completion_date: daysFromNow(-730),
+      status: 'valid',
+      issuer: 'Amazon Web Services',
+      cert_number: 'AWS-123456',
+      description: 'Professional level certification for AWS architecture',
+      file_path: null,
+      lineage_id: 'demo-certificate-1',
+      is_archived: false,
+      created_at: now,
+      updated_at: now
+    },
+    {
+      id: 'demo-certificate-2',
+      user_id: DEMO_USER_ID,
+      title: 'React Developer Certification',
+      type: 'Technical Certification',
+      expiry_date: null,
+      completion_date: daysFromNow(-400),
+      status: 'valid',
+      issuer: 'Meta',
+      cert_number: 'REACT-789012',
+      description: 'Advanced certification for React development',
+      file_path: null,
+      lineage_id: 'demo-certificate-2',
+      is_archived: false,
+      created_at: now,
+      updated_at: now
+    }
+  ];
+};
+
+let profile: Profile = {
+  id: DEMO_USER_ID,
+  name: 'John Doe',
+  position: 'Software Engineer'
+};
+
+let settings: Settings = {
+  id: 'demo-settings',
+  user_id: DEMO_USER_ID,
+  email_notifications: true,
+  push_notifications: false,
+  expiry_reminders_days: 30,
+  auto_renewal_reminders: true
+};
+
+// Includes archived versions, which only appear in their successor's history
+let certificates = createSampleCertificates();
+let attachments: CertificateAttachment[] = [];
+let calendarFeed: CalendarFeed | null = null;
+
+// Demo uploads stay in the browser as object URLs
+const uploadedFiles = new Set<string>();
+
+const findCertificate = (id: string) => {
+  const certificate = certificates.find(cert => cert.id === id);
+  if (!certificate) throw new Error('Certificate not found');
+  return certificate;
+};
+
+export const demoRepository: WalletRepository = {
+  profiles: {
+    async get() {
+      return profile;
+    },
+    async upsert(changes) {
+      profile = { ...profile, ...changes, id: DEMO_USER_ID, updated_at: new Date().toISOString() };
+      return profile;
+    }
+  },
+
+  settings: {
+    async get() {
+      return settings;
+    },
+    async upsert(changes) {
+      settings = { ...settings, ...changes, user_id: DEMO_USER_ID, updated_at: new Date().toISOString() };
+      return settings;
+    }
+  },
+
+  certificates: {
+    async list() {
+      return certificates.filter(cert => !cert.is_archived);
+    },
+    async create(certificate) {
+      const id = createId();
+      const now = new Date().toISOString();
+      const created: Certificate = {
+        ...certificate,
+        id,
+        user_id: DEMO_USER_ID,
+        expiry_date: certificate.expiry_date || null,
+        lineage_id: id,
+        is_archived: false,
+        created_at: now,
+        updated_at: now
+      };
+      certificates = [created, ...certificates];
+      return created;
+    },
+    async update(id, changes) {
+      const updated = { ...findCertificate(id), ...changes, id, updated_at: new Date().toISOString() };
+      certificates = certificates.map(cert => (cert.id === id ? updated : cert));
+      return updated;
+    },
+    async delete(id) {
+      certificates = certificates.filter(cert => cert.id !== id);
+      attachments = attachments.filter(attachment => attachment.certificate_id !== id);
+      return true;
+    },
+    async renew(id, renewal) {
+      const predecessor = findCertificate(id);
+      const now = new Date().toISOString();
+      const successor: Certificate = {
+        ...predecessor,
+        id: createId(),
+        completion_date: renewal.completion_date,
+        expiry_date: renewal.expiry_date,
+        cert_number: renewal.cert_number || predecessor.cert_number,
+        file_path: renewal.file_path || null,
+        file_type: renewal.file_type || null,
+        is_encrypted: renewal.is_encrypted || false,
+        file_key: renewal.file_key || null,
+        lineage_id: predecessor.lineage_id || predecessor.id,
+        previous_certificate_id: predecessor.id,
+        is_archived: false,
+        created_at: now,
+        updated_at: now
+      };
+      certificates = [
+        successor,
+        ...certificates.map(cert => (cert.id === id ? { ...cert, is_archived: true, archived_at: now } : cert))
+      ];
+      return successor;
+    },
+    async history(lineageId) {
+      return certificates
+        .filter(cert => (cert.lineage_id || cert.id) === lineageId)
+        .sort((a, b) => b.completion_date.localeCompare(a.completion_date));
+    },
+    async uploadFile(file) {
+      const url = URL.createObjectURL(file);
+      uploadedFiles.add(url);
+      return url;
+    },
+    async getFileUrl(path) {
+      if (!uploadedFiles.has(path)) throw new Error('File not found');
+      return path;
+    }
+  },
+
+  attachments: {
+    async list(certificateId) {
+      return attachments
+        .filter(attachment => attachment.certificate_id === certificateId)
+        .sort((a, b) => a.label.localeCompare(b.label) || b.version - a.version);
+    },
+    async create(attachment) {
+      const versions = attachments.filter(existing =>
+        existing.certificate_id === attachment.certificate_id && existing.label === attachment.label
+      );
+      const created: CertificateAttachment = {
+        ...attachment,
+        id: createId(),
+        user_id: DEMO_USER_ID,
+        version: versions.length + 1,
+        created_at: new Date().toISOString()
+      };
+      attachments = [...attachments, created];
+      return created;
+    },
+    async delete(id) {
+      attachments = attachments.filter(attachment => attachment.id !== id);
+      return true;
+    }
+  },
+
+  pushSubscriptions: {
+    async save(subscription) {
+      return {
+        ...subscription,
+        id: createId(),
+        user_id: DEMO_USER_ID,
+        created_at: new Date().toISOString()
+      };
+    },
+    async remove() {
+      return true;
+    }
+  },
+
+  calendarFeeds: {
+    async get() {
+      return calendarFeed;
+    },
+    async regenerate() {
+      calendarFeed = { user_id: DEMO_USER_ID, token: 'demo', created_at: new Date().toISOString() };
+      return calendarFeed;
+    },
+    async delete() {
+      calendarFeed = null;
+      return true;
+    }
+  }
+};
+
+/**
+ * Sample share for viewing /share/<token> links in a demo build
+ * @param token Token from the link
+ * @returns The share and the certificates it shows
+ */
+export const getDemoShare = (token: string) => ({
+  share: {
+    id: 'demo-share',
+    user_id: DEMO_USER_ID,
+    token,
+    certificate_ids: certificates.filter(cert => !cert.is_archived).map(cert => cert.id),
+    created_at: new Date().toISOString(),
+    expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+    is_password_protected: false,
+    is_revoked: false,
+    max_downloads: null,
+    download_count: 0,
+    view_count: 1
+  },
+  certificates: certificates
+    .filter(cert => !cert.is_archived)
+    .map(cert => ({
+      id: cert.id,
+      user_id: cert.user_id,
+      title: cert.title,
+      type: cert.type,
+      expiry_date: cert.expiry_date,
+      completion_date: cert.completion_date,
+      status: cert.status,
+      issuer: cert.issuer,
+      cert_number: cert.cert_number,
+      description: cert.description
+    }))
+});
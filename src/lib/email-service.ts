@@ -1,7 +1,8 @@
 import { supabase } from './supabase';
+import { MAX_FILE_SIZE } from '@shared/file-policy';
 
-// Maximum file size in bytes (10MB)
-export const MAX_FILE_SIZE = 10 * 1024 * 1024;
+// Same limit as certificate uploads
+export { MAX_FILE_SIZE };
 // Maximum number of recipients
 export const MAX_RECIPIENTS = 10;
 // Maximum message length
@@ -0,0 +1,74 @@
+import { isNetworkError } from './offline-sync';
+
+// Errors from the wallet's data layer, typed so the UI can tell a signed-out
+// user from a refused request or a lost connection
+
+export type DataErrorCode =
+  | 'unauthenticated'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'invalid'
+  | 'network'
+  | 'unknown';
+
+export class DataError extends Error {
+  code: DataErrorCode;
+  /** The Supabase or network error this was created from */
+  cause: unknown;
+
+  constructor(code: DataErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'DataError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+const DEFAULT_MESSAGES: Record<DataErrorCode, string> = {
+  unauthenticated: 'Your session has ended. Please sign in again.',
+  forbidden: 'You do not have permission to do that.',
+  not_found: 'That record no longer exists.',
+  conflict: 'That record already exists.',
+  invalid: 'Some of the details are not valid.',
+  network: 'XafeWallet could not be reached. Please check your connection.',
+  unknown: 'Something went wrong. Please try again.'
+};
+
+// PostgREST and Postgres error codes, and HTTP statuses from storage
+const classify = (err: unknown): DataErrorCode => {
+  if (isNetworkError(err)) return 'network';
+  if (!err || typeof err !== 'object') return 'unknown';
+
+  const { code, status, statusCode } = err as { code?: string; status?: number; statusCode?: string | number };
+  const httpStatus = Number(status ?? statusCode);
+
+  if (code === 'PGRST301' || code === 'PGRST302' || httpStatus === 401) return 'unauthenticated';
+  if (code === '42501' || httpStatus === 403) return 'forbidden';
+  if (code === 'PGRST116' || httpStatus === 404) return 'not_found';
+  if (code === '23505' || httpStatus === 409) return 'conflict';
+  if (code?.startsWith('22') || code?.startsWith('23') || httpStatus === 400) return 'invalid';
+  return 'unknown';
+};
+
+/**
+ * Wraps any error from a Supabase request in a DataError
+ * @param err Error thrown or returned by the request
+ * @returns The error as a DataError; DataErrors are returned unchanged
+ */
+export const toDataError = (err: unknown): DataError => {
+  if (err instanceof DataError) return err;
+  const code = classify(err);
+  return new DataError(code, DEFAULT_MESSAGES[code], err);
+};
+
+/**
+ * Gets a message to show the user for a failed action
+ * @param err Error thrown by the action
+ * @param fallback Message for errors that are not DataErrors or have no better explanation
+ * @returns Message to show
+ */
+export const getErrorMessage = (err: unknown, fallback: string): string => {
+  if (err instanceof DataError && err.code !== 'unknown') return err.message;
+  return fallback;
+};
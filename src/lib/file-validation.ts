@@ -0,0 +1,88 @@
+import { decompressSync } from 'fflate';
+import {
+  ALLOWED_FILE_TYPES,
+  ENCRYPTED_FILE_EXTENSION,
+  ENCRYPTED_FILE_TYPE,
+  MAX_FILE_SIZE,
+  SNIFF_LENGTH,
+  AllowedFileType,
+  inspectPdf,
+  isEncryptedFile,
+  neutralizePdfActiveContent,
+  sniffFileType
+} from '@shared/file-policy';
+
+export interface ValidatedFile {
+  /** The file to upload: renamed to match its contents, and cleaned if it is a PDF */
+  file: File;
+  type: AllowedFileType;
+  /** Active PDF content that was disabled, e.g. "JavaScript" */
+  removed: string[];
+}
+
+const readHeader = async (file: Blob) =>
+  new Uint8Array(await file.slice(0, SNIFF_LENGTH).arrayBuffer());
+
+const baseName = (name: string) => name.replace(/\.[^.]*$/, '') || 'certificate';
+
+/**
+ * Checks a certificate file against the upload policy: size, type detected
+ * from its contents, and no scripts or embedded files in PDFs. Scripts and
+ * embedded files are disabled where possible; PDFs that hide them in
+ * compressed streams are rejected.
+ * @param file File chosen by the user
+ * @returns Promise resolving to the file to upload
+ */
+export const validateCertificateFile = async (file: File): Promise<ValidatedFile> => {
+  if (file.size === 0) {
+    throw new Error('The file is empty');
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error(`File size must be less than ${MAX_FILE_SIZE / (1024 * 1024)}MB`);
+  }
+
+  const type = sniffFileType(await readHeader(file));
+  if (!type) {
+    throw new Error('Invalid file type. Please upload PDF, JPEG, or PNG files.');
+  }
+
+  const name = `${baseName(file.name)}.${ALLOWED_FILE_TYPES[type]}`;
+  if (type !== 'application/pdf') {
+    return { file: new File([file], name, { type }), type, removed: [] };
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const { hiddenActiveContent } = inspectPdf(bytes, decompressSync);
+  if (hiddenActiveContent.length > 0) {
+    throw new Error('This PDF contains scripts or embedded files that cannot be removed. Please upload a flattened or printed PDF.');
+  }
+
+  const cleaned = neutralizePdfActiveContent(bytes);
+  return {
+    file: new File([cleaned.bytes], name, { type }),
+    type,
+    removed: cleaned.removed
+  };
+};
+
+/**
+ * Works out the type and storage extension of a file about to be uploaded,
+ * from its contents rather than its name
+ * @param file File to upload, possibly vault-encrypted
+ * @returns Promise resolving to the content type and extension to store it with
+ */
+export const getUploadFileType = async (file: Blob): Promise<{ contentType: string; extension: string }> => {
+  const header = await readHeader(file);
+
+  if (isEncryptedFile(header)) {
+    return { contentType: ENCRYPTED_FILE_TYPE, extension: ENCRYPTED_FILE_EXTENSION };
+  }
+
+  const type = sniffFileType(header);
+  if (!type) {
+    throw new Error('Invalid file type. Please upload PDF, JPEG, or PNG files.');
+  }
+
+  return { contentType: type, extension: ALLOWED_FILE_TYPES[type] };
+};
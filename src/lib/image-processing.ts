@@ -0,0 +1,559 @@
+// Client-side clean-up of camera captures before upload: finds the document in
+// the photo, corrects perspective and skew, compresses it and drops the photo's
+// metadata. Everything runs on canvases; nothing leaves the browser.
+
+export interface ImageProcessingOptions {
+  /** Crop to the detected document edges and correct perspective and skew */
+  autoCrop?: boolean;
+  /** Longest edge of the processed image in pixels */
+  maxDimension?: number;
+  /** Compress until the JPEG is at most this many bytes */
+  targetBytes?: number;
+}
+
+export interface ProcessedImage {
+  file: File;
+  width: number;
+  height: number;
+  /** Whether document edges were found and the photo was cropped to them */
+  cropped: boolean;
+  /** Skew corrected, in degrees */
+  skewAngle: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+const DEFAULT_MAX_DIMENSION = 2400;
+const DEFAULT_TARGET_BYTES = 1.5 * 1024 * 1024;
+
+// Edge detection and skew estimation work on a small copy of the image
+const DETECTION_SIZE = 400;
+const SKEW_DETECTION_SIZE = 800;
+
+// The detected document must cover this share of the photo...
+const MIN_DOCUMENT_AREA = 0.2;
+// ...and not (almost) all of it, in which case there is nothing to crop
+const MAX_DOCUMENT_AREA = 0.95;
+// Share of the corner quadrilateral the document must fill to count as rectangular
+const MIN_QUAD_FILL = 0.85;
+
+const MAX_SKEW_DEGREES = 10;
+const SKEW_STEP_DEGREES = 0.25;
+const MIN_SKEW_DEGREES = 0.5;
+
+const JPEG_QUALITIES = [0.9, 0.8, 0.7, 0.6, 0.5];
+const DOWNSCALE_STEP = 0.8;
+const MAX_DOWNSCALES = 5;
+
+// Processed photos are placed in PDFs at this resolution
+const PDF_DPI = 150;
+
+/**
+ * Converts RGBA pixels to luminance values
+ * @param data RGBA pixel data
+ * @returns One 0-255 value per pixel
+ */
+export const toGrayscale = (data: Uint8ClampedArray): Uint8Array => {
+  const gray = new Uint8Array(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return gray;
+};
+
+/**
+ * Finds the threshold that best splits luminance values into two classes
+ * (Otsu's method)
+ * @param gray Luminance values
+ * @returns Threshold from 0 to 255
+ */
+export const otsuThreshold = (gray: Uint8Array): number => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(value => histogram[value]++);
+
+  const total = gray.length;
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  let backgroundSum = 0;
+  let backgroundCount = 0;
+  let bestThreshold = 0;
+  let bestVariance = 0;
+
+  for (let t = 0; t < 256; t++) {
+    backgroundCount += histogram[t];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = total - backgroundCount;
+    if (foregroundCount === 0) break;
+
+    backgroundSum += t * histogram[t];
+    const backgroundMean = backgroundSum / backgroundCount;
+    const foregroundMean = (sum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      bestThreshold = t;
+    }
+  }
+
+  return bestThreshold;
+};
+
+const quadArea = (quad: Quad) =>
+  Math.abs(quad.reduce((acc, point, i) => {
+    const next = quad[(i + 1) % 4];
+    return acc + point.x * next.y - next.x * point.y;
+  }, 0)) / 2;
+
+/**
+ * Finds the corners of a document photographed against a contrasting
+ * background. The document is taken to be the largest region whose brightness
+ * differs from the photo's border.
+ * @param gray Luminance values
+ * @param width Image width
+ * @param height Image height
+ * @returns The document's corners, or null if no document edges were found
+ */
+export const detectDocumentQuad = (gray: Uint8Array, width: number, height: number): Quad | null => {
+  const threshold = otsuThreshold(gray);
+
+  let lightBorder = 0;
+  let borderCount = 0;
+  for (let x = 0; x < width; x++) {
+    lightBorder += (gray[x] > threshold ? 1 : 0) + (gray[(height - 1) * width + x] > threshold ? 1 : 0);
+    borderCount += 2;
+  }
+  for (let y = 0; y < height; y++) {
+    lightBorder += (gray[y * width] > threshold ? 1 : 0) + (gray[y * width + width - 1] > threshold ? 1 : 0);
+    borderCount += 2;
+  }
+  const documentIsLight = lightBorder < borderCount / 2;
+
+  const mask = new Uint8Array(gray.length);
+  for (let i = 0; i < gray.length; i++) {
+    mask[i] = (gray[i] > threshold) === documentIsLight ? 1 : 0;
+  }
+
+  // Largest 4-connected region of document pixels
+  const labels = new Int32Array(gray.length);
+  const stack = new Int32Array(gray.length);
+  let bestLabel = 0;
+  let bestSize = 0;
+  let label = 0;
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+    label++;
+    let size = 0;
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = label;
+
+    while (top > 0) {
+      const index = stack[--top];
+      size++;
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width
+      ];
+      for (const neighbour of neighbours) {
+        if (neighbour >= 0 && neighbour < mask.length && mask[neighbour] && !labels[neighbour]) {
+          labels[neighbour] = label;
+          stack[top++] = neighbour;
+        }
+      }
+    }
+
+    if (size > bestSize) {
+      bestSize = size;
+      bestLabel = label;
+    }
+  }
+
+  const imageArea = width * height;
+  if (bestSize < imageArea * MIN_DOCUMENT_AREA || bestSize > imageArea * MAX_DOCUMENT_AREA) {
+    return null;
+  }
+
+  // Corners are the region's extreme points along the two diagonals
+  let topLeft = { x: 0, y: 0, score: Infinity };
+  let bottomRight = { x: 0, y: 0, score: -Infinity };
+  let topRight = { x: 0, y: 0, score: -Infinity };
+  let bottomLeft = { x: 0, y: 0, score: -Infinity };
+
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] !== bestLabel) continue;
+    const x = i % width;
+    const y = (i - x) / width;
+    if (x + y < topLeft.score) topLeft = { x, y, score: x + y };
+    if (x + y > bottomRight.score) bottomRight = { x, y, score: x + y };
+    if (x - y > topRight.score) topRight = { x, y, score: x - y };
+    if (y - x > bottomLeft.score) bottomLeft = { x, y, score: y - x };
+  }
+
+  const quad: Quad = [topLeft, topRight, bottomRight, bottomLeft].map(({ x, y }) => ({ x, y })) as Quad;
+  const area = quadArea(quad);
+  if (area < imageArea * MIN_DOCUMENT_AREA || bestSize < area * MIN_QUAD_FILL) {
+    return null;
+  }
+
+  return quad;
+};
+
+/**
+ * Computes the projective transform that maps the corners of a
+ * width x height rectangle onto a quadrilateral
+ * @param quad Target corners, clockwise from top-left
+ * @param width Rectangle width
+ * @param height Rectangle height
+ * @returns The 8 coefficients a-h of x = (au + bv + c) / (gu + hv + 1), y = (du + ev + f) / (gu + hv + 1)
+ */
+export const computeHomography = (quad: Quad, width: number, height: number): number[] => {
+  const corners = [[0, 0], [width, 0], [width, height], [0, height]];
+  const rows: number[][] = [];
+
+  corners.forEach(([u, v], i) => {
+    const { x, y } = quad[i];
+    rows.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    rows.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  });
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+
+  return rows.map((row, i) => row[8] / row[i]);
+};
+
+/**
+ * Estimates how far text lines are rotated from horizontal, by finding the
+ * angle at which dark pixels line up into the sharpest rows
+ * @param gray Luminance values
+ * @param width Image width
+ * @param height Image height
+ * @returns Skew in degrees; positive when lines slope down to the right
+ */
+export const detectSkewAngle = (gray: Uint8Array, width: number, height: number): number => {
+  const threshold = otsuThreshold(gray);
+  const points: number[] = [];
+  for (let i = 0; i < gray.length; i++) {
+    if (gray[i] <= threshold) points.push(i % width, Math.floor(i / width));
+  }
+
+  // Blank pages or photos that are mostly dark have no text lines to go by
+  if (points.length < 200 || points.length > gray.length) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  let bestAngle = 0;
+  let bestScore = -1;
+
+  // Nearest to level first, so ties keep the smaller correction
+  const angles = [0];
+  for (let step = SKEW_STEP_DEGREES; step <= MAX_SKEW_DEGREES; step += SKEW_STEP_DEGREES) {
+    angles.push(step, -step);
+  }
+
+  for (const angle of angles) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const bins = new Uint32Array(diagonal * 2);
+
+    for (let i = 0; i < points.length; i += 2) {
+      bins[Math.round(points[i + 1] * cos - points[i] * sin) + diagonal]++;
+    }
+
+    let score = 0;
+    bins.forEach(count => { score += count * count; });
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+
+  return bestAngle;
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+const getContext = (canvas: HTMLCanvasElement) => {
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas is not supported');
+  return context;
+};
+
+const drawScaled = (source: CanvasImageSource, width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  const canvas = createCanvas(width * scale, height * scale);
+  getContext(canvas).drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const readGray = (canvas: HTMLCanvasElement) =>
+  toGrayscale(getContext(canvas).getImageData(0, 0, canvas.width, canvas.height).data);
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Maps the document quadrilateral onto an upright rectangle
+const warpPerspective = (source: HTMLCanvasElement, quad: Quad): HTMLCanvasElement => {
+  const width = Math.round(Math.max(distance(quad[0], quad[1]), distance(quad[3], quad[2])));
+  const height = Math.round(Math.max(distance(quad[0], quad[3]), distance(quad[1], quad[2])));
+  const [a, b, c, d, e, f, g, h] = computeHomography(quad, width, height);
+
+  const input = getContext(source).getImageData(0, 0, source.width, source.height);
+  const output = createCanvas(width, height);
+  const context = getContext(output);
+  const result = context.createImageData(output.width, output.height);
+  const maxX = source.width - 1;
+  const maxY = source.height - 1;
+
+  for (let v = 0; v < output.height; v++) {
+    for (let u = 0; u < output.width; u++) {
+      const w = g * u + h * v + 1;
+      const x = Math.min(maxX, Math.max(0, (a * u + b * v + c) / w));
+      const y = Math.min(maxY, Math.max(0, (d * u + e * v + f) / w));
+
+      // Bilinear sampling
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const x1 = Math.min(maxX, x0 + 1);
+      const y1 = Math.min(maxY, y0 + 1);
+      const fx = x - x0;
+      const fy = y - y0;
+      const out = (v * output.width + u) * 4;
+
+      for (let channel = 0; channel < 3; channel++) {
+        const topLeft = input.data[(y0 * source.width + x0) * 4 + channel];
+        const topRight = input.data[(y0 * source.width + x1) * 4 + channel];
+        const bottomLeft = input.data[(y1 * source.width + x0) * 4 + channel];
+        const bottomRight = input.data[(y1 * source.width + x1) * 4 + channel];
+        result.data[out + channel] =
+          (topLeft * (1 - fx) + topRight * fx) * (1 - fy) + (bottomLeft * (1 - fx) + bottomRight * fx) * fy;
+      }
+      result.data[out + 3] = 255;
+    }
+  }
+
+  context.putImageData(result, 0, 0);
+  return output;
+};
+
+// Rotates by -angle on a white background large enough to hold the result
+const rotateCanvas = (source: HTMLCanvasElement, angle: number): HTMLCanvasElement => {
+  const radians = (-angle * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  const output = createCanvas(
+    source.width * cos + source.height * sin,
+    source.width * sin + source.height * cos
+  );
+  const context = getContext(output);
+
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, output.width, output.height);
+  context.translate(output.width / 2, output.height / 2);
+  context.rotate(radians);
+  context.drawImage(source, -source.width / 2, -source.height / 2);
+  return output;
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      'image/jpeg',
+      quality
+    );
+  });
+
+// Lowers JPEG quality, then resolution, until the image fits the target size
+const compressCanvas = async (canvas: HTMLCanvasElement, targetBytes: number) => {
+  let current = canvas;
+
+  for (let attempt = 0; attempt <= MAX_DOWNSCALES; attempt++) {
+    let blob: Blob | null = null;
+    for (const quality of JPEG_QUALITIES) {
+      blob = await canvasToJpeg(current, quality);
+      if (blob.size <= targetBytes) return { blob, canvas: current };
+    }
+
+    if (attempt === MAX_DOWNSCALES) return { blob: blob!, canvas: current };
+    current = drawScaled(current, current.width * DOWNSCALE_STEP, current.height * DOWNSCALE_STEP, Infinity);
+  }
+
+  throw new Error('Failed to compress image');
+};
+
+const jpegFileName = (name: string) => `${name.replace(/\.[^.]+$/, '') || 'capture'}.jpg`;
+
+/**
+ * Cleans up a photo of a certificate: applies the camera's orientation, crops
+ * to the document and corrects perspective and skew, then re-encodes it as a
+ * compressed JPEG. Re-encoding through a canvas drops all EXIF data, including
+ * GPS location.
+ * @param file Photo taken with the camera
+ * @param options Cropping, size and compression settings
+ * @returns Promise resolving to the processed JPEG
+ */
+export const processCapturedImage = async (
+  file: File,
+  options: ImageProcessingOptions = {}
+): Promise<ProcessedImage> => {
+  const {
+    autoCrop = true,
+    maxDimension = DEFAULT_MAX_DIMENSION,
+    targetBytes = DEFAULT_TARGET_BYTES
+  } = options;
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  let canvas: HTMLCanvasElement;
+  try {
+    canvas = drawScaled(bitmap, bitmap.width, bitmap.height, maxDimension);
+  } finally {
+    bitmap.close();
+  }
+
+  let cropped = false;
+  let skewAngle = 0;
+
+  if (autoCrop) {
+    const small = drawScaled(canvas, canvas.width, canvas.height, DETECTION_SIZE);
+    const quad = detectDocumentQuad(readGray(small), small.width, small.height);
+
+    if (quad) {
+      const scale = canvas.width / small.width;
+      canvas = warpPerspective(canvas, quad.map(({ x, y }) => ({ x: x * scale, y: y * scale })) as Quad);
+      cropped = true;
+    }
+
+    // Perspective correction leaves photos of flat pages straight; this
+    // catches pages that fill the frame or sit at a slight angle
+    const preview = drawScaled(canvas, canvas.width, canvas.height, SKEW_DETECTION_SIZE);
+    const angle = detectSkewAngle(readGray(preview), preview.width, preview.height);
+    if (Math.abs(angle) >= MIN_SKEW_DEGREES) {
+      canvas = rotateCanvas(canvas, angle);
+      skewAngle = angle;
+    }
+  }
+
+  const compressed = await compressCanvas(canvas, targetBytes);
+  return {
+    file: new File([compressed.blob], jpegFileName(file.name), { type: 'image/jpeg' }),
+    width: compressed.canvas.width,
+    height: compressed.canvas.height,
+    cropped,
+    skewAngle
+  };
+};
+
+export interface PdfImagePage {
+  /** JPEG file contents */
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Writes a PDF with one JPEG image per page
+ * @param pages JPEG images in page order
+ * @returns PDF file contents
+ */
+export const buildImagePdf = (pages: PdfImagePage[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Objects: 1 catalog, 2 page tree, then page, content and image for each page
+  const pageIds = pages.map((_, index) => 3 + index * 3);
+
+  write('%PDF-1.4\n%\xff\xff\xff\xff\n');
+  startObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  startObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const pageWidth = ((page.width * 72) / PDF_DPI).toFixed(2);
+    const pageHeight = ((page.height * 72) / PDF_DPI).toFixed(2);
+    const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+    startObject(pageId);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] `
+      + `/Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>\nendobj\n`);
+    startObject(pageId + 1);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    startObject(pageId + 2);
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} `
+      + `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.data.length} >>\nstream\n`);
+    write(page.data);
+    write('\nendstream\nendobj\n');
+  });
+
+  const objectCount = 3 + pages.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach(chunk => {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  });
+  return pdf;
+};
+
+/**
+ * Combines processed captures into a single PDF, one page per photo
+ * @param images Processed captures in page order
+ * @param name File name for the PDF
+ * @returns Promise resolving to the PDF file
+ */
+export const combineImagesToPdf = async (images: ProcessedImage[], name = 'certificate.pdf'): Promise<File> => {
+  const pages = await Promise.all(images.map(async image => ({
+    data: new Uint8Array(await image.file.arrayBuffer()),
+    width: image.width,
+    height: image.height
+  })));
+
+  return new File([buildImagePdf(pages)], name, { type: 'application/pdf' });
+};
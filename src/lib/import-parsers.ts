@@ -0,0 +1,234 @@
+import { unzipSync, strFromU8 } from 'fflate';
+
+// A spreadsheet-like table read from an import file. Cell values are kept as
+// strings; interpreting them is up to the column mapping.
+export interface ImportTable {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+// Certificate files that can be matched from a ZIP
+const FILE_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png'
+};
+
+const getExtension = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+const toTable = (records: Record<string, string>[]): ImportTable => {
+  const columns: string[] = [];
+  records.forEach(record => {
+    Object.keys(record).forEach(key => {
+      if (!columns.includes(key)) columns.push(key);
+    });
+  });
+
+  // Rows with no values at all are spreadsheet padding, not data
+  const rows = records.filter(record => Object.values(record).some(value => value.trim() !== ''));
+  return { columns, rows };
+};
+
+const rowsToRecords = (rows: string[][]): Record<string, string>[] => {
+  const [header = [], ...body] = rows;
+  const columns = header.map((name, index) => name.trim() || `Column ${index + 1}`);
+
+  return body.map(cells => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = (cells[index] ?? '').trim();
+    });
+    return record;
+  });
+};
+
+// Picks whichever of comma, semicolon or tab appears most in the header line
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  return [',', ';', '\t']
+    .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length }))
+    .sort((a, b) => b.count - a.count)[0].delimiter;
+};
+
+/**
+ * Parses CSV text, including quoted fields with embedded delimiters, quotes
+ * and line breaks
+ * @param text CSV content
+ * @returns Parsed table using the first row as column names
+ */
+export const parseCsv = (text: string): ImportTable => {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return toTable(rowsToRecords(rows));
+};
+
+/**
+ * Parses JSON containing an array of objects, or an object with a
+ * `certificates` array
+ * @param text JSON content
+ * @returns Parsed table using object keys as column names
+ */
+export const parseJson = (text: string): ImportTable => {
+  const data = JSON.parse(text);
+  const items = Array.isArray(data) ? data : data?.certificates;
+
+  if (!Array.isArray(items)) {
+    throw new Error('JSON must be an array of certificates');
+  }
+
+  return toTable(items.map(item => {
+    const record: Record<string, string> = {};
+    Object.entries(item && typeof item === 'object' ? item : {}).forEach(([key, value]) => {
+      record[key] = value === null || value === undefined ? '' : String(value).trim();
+    });
+    return record;
+  }));
+};
+
+// Column letters of a cell reference, e.g. "AB" for "AB12", as a zero-based index
+const columnIndex = (reference: string): number => {
+  const letters = reference.replace(/\d+$/, '');
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+const parseXml = (entries: Record<string, Uint8Array>, path: string): Document | null => {
+  const entry = entries[path];
+  return entry ? new DOMParser().parseFromString(strFromU8(entry), 'application/xml') : null;
+};
+
+/**
+ * Reads the first worksheet of an XLSX workbook. Dates stored as Excel serial
+ * numbers are returned as numbers and converted by the import's date parsing.
+ * @param data Workbook file contents
+ * @returns Parsed table using the first row as column names
+ */
+export const parseXlsx = (data: Uint8Array): ImportTable => {
+  const entries = unzipSync(data, {
+    filter: file => file.name.startsWith('xl/')
+  });
+
+  const workbook = parseXml(entries, 'xl/workbook.xml');
+  const relationships = parseXml(entries, 'xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook?.getElementsByTagName('sheet')[0];
+  if (!workbook || !firstSheet) {
+    throw new Error('The workbook does not contain any sheets');
+  }
+
+  const relationshipId = firstSheet.getAttribute('r:id');
+  const target = Array.from(relationships?.getElementsByTagName('Relationship') || [])
+    .find(rel => rel.getAttribute('Id') === relationshipId)
+    ?.getAttribute('Target') || 'worksheets/sheet1.xml';
+  const sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+
+  const sharedStrings = Array.from(
+    parseXml(entries, 'xl/sharedStrings.xml')?.getElementsByTagName('si') || []
+  ).map(item =>
+    Array.from(item.getElementsByTagName('t')).map(t => t.textContent || '').join('')
+  );
+
+  const sheet = parseXml(entries, sheetPath);
+  if (!sheet) {
+    throw new Error('The first sheet of the workbook could not be read');
+  }
+
+  const rows = Array.from(sheet.getElementsByTagName('row')).map(rowElement => {
+    const cells: string[] = [];
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+
+      if (type === 's') {
+        cells[index] = sharedStrings[parseInt(value, 10)] ?? '';
+      } else if (type === 'inlineStr') {
+        cells[index] = Array.from(cell.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+      } else if (type === 'b') {
+        cells[index] = value === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        cells[index] = value;
+      }
+    });
+    return Array.from(cells, cell => cell ?? '');
+  });
+
+  return toTable(rowsToRecords(rows));
+};
+
+/**
+ * Reads a CSV, JSON or XLSX import file
+ * @param file File chosen by the user
+ * @returns Promise resolving to the parsed table
+ */
+export const parseImportFile = async (file: File): Promise<ImportTable> => {
+  const extension = getExtension(file.name);
+
+  if (extension === 'csv' || extension === 'txt') {
+    return parseCsv(await file.text());
+  }
+  if (extension === 'json') {
+    return parseJson(await file.text());
+  }
+  if (extension === 'xlsx') {
+    return parseXlsx(new Uint8Array(await file.arrayBuffer()));
+  }
+
+  throw new Error('Unsupported file type. Use CSV, JSON or XLSX.');
+};
+
+/**
+ * Extracts certificate files (PDF, JPG, PNG) from a ZIP archive
+ * @param zip ZIP file chosen by the user
+ * @returns Promise resolving to the files keyed by lower-case file name, without folders
+ */
+export const readZipFiles = async (zip: File): Promise<Map<string, File>> => {
+  const entries = unzipSync(new Uint8Array(await zip.arrayBuffer()), {
+    filter: file => !file.name.endsWith('/') && !file.name.startsWith('__MACOSX/') && !!FILE_TYPES[getExtension(file.name)]
+  });
+
+  const files = new Map<string, File>();
+  Object.entries(entries).forEach(([path, data]) => {
+    const name = path.split('/').pop() || path;
+    files.set(name.toLowerCase(), new File([data], name, { type: FILE_TYPES[getExtension(name)] }));
+  });
+  return files;
+};
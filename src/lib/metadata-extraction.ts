@@ -0,0 +1,347 @@
+import { pdfjs } from 'react-pdf';
+import { normalizeImportDate, ImportField } from './bulk-import';
+
+export type ExtractedField = Extract<ImportField, 'title' | 'issuer' | 'cert_number' | 'completion_date' | 'expiry_date'>;
+
+export type ExtractionConfidence = 'high' | 'medium' | 'low';
+
+export interface ExtractedValue {
+  value: string;
+  confidence: ExtractionConfidence;
+}
+
+export type ExtractedFields = Partial<Record<ExtractedField, ExtractedValue>>;
+
+export interface ExtractionResult {
+  fields: ExtractedFields;
+  /** Where the text came from: the PDF's text layer or OCR of an image */
+  source: 'pdf' | 'ocr';
+  text: string;
+}
+
+// PDFs whose text layer has fewer characters than this are treated as scans
+const MIN_PDF_TEXT_LENGTH = 20;
+
+// Pages read from a PDF; certificate details are almost always on the first
+const MAX_PDF_PAGES = 2;
+
+// OCR results below this average word confidence (0-100) are marked less certain
+const MIN_OCR_CONFIDENCE = 70;
+
+const OCR_LANGUAGE = 'eng';
+
+const MONTH_NAMES = 'jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec';
+const MONTH_WORD = `(?:${MONTH_NAMES})[a-z]*\\.?`;
+
+// ISO, day-first numeric, "12 March 2024" and "March 12, 2024"
+const DATE_PATTERN = new RegExp(
+  [
+    '\\b\\d{4}-\\d{2}-\\d{2}\\b',
+    '\\b\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}\\b',
+    `\\b\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTH_WORD},?\\s+\\d{4}\\b`,
+    `\\b${MONTH_WORD}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}\\b`
+  ].join('|'),
+  'gi'
+);
+
+const EXPIRY_LABEL = /\b(?:expir(?:y|es|ation|ing)|valid\s+(?:until|to|thru|through|till)|renewal\s+(?:date|due)|due\s+for\s+renewal|renew\s+by)\b/i;
+const COMPLETION_LABEL = /\b(?:issued?|date\s+of\s+(?:issue|award|completion)|complet(?:ed|ion)|awarded|achieved|passed|valid\s+from|attended|dated?)\b/i;
+
+const CERT_NUMBER_PATTERN = /(?:\b(?:certificate|cert|licen[cs]e|registration|reg|membership|card|credential|reference|ref|serial)\s*(?:no|number|num|id)\b\.?\s*[:#]?|\b(?:licen[cs]e|registration|membership|credential|reference|ref|serial|id)\s*[:#]|\bno\.|#)\s*([A-Z0-9][A-Z0-9/-]*\d[A-Z0-9/-]*)/i;
+// Unlabelled fallback: a code mixing letters and digits, e.g. "FA-2024-00123"
+const CODE_PATTERN = /\b(?=[A-Z0-9/-]*\d)(?=[A-Z0-9/-]*[A-Z])[A-Z0-9][A-Z0-9/-]{5,19}\b/;
+
+const ISSUER_LABEL = /\b(?:issued\s+by|awarded\s+by|provided\s+by|accredited\s+by|certified\s+by|issuing\s+(?:body|authority|organi[sz]ation)|awarding\s+(?:body|organi[sz]ation)|issuer|provider)\b\s*[:-]?\s*(.*)$/i;
+const ORGANISATION_WORDS = /\b(?:ltd|limited|inc|llc|plc|gmbh|institute|institution|association|council|board|academy|university|college|authority|society|federation|agency|foundation|school|centre|center)\b/i;
+
+// Phrases that come just before the name of the course or qualification
+const TITLE_LEAD_IN = /\b(?:has\s+(?:successfully\s+)?(?:completed|achieved|attended|passed)|has\s+been\s+awarded|is\s+(?:hereby\s+)?awarded|for\s+(?:successfully\s+)?completing|completion\s+of)\b\s*(?:the\s+)?[:-]?\s*(.*)$/i;
+const TITLE_WORDS = /\b(?:certificate|certification|certified|diploma|licen[cs]e|award|course|training|qualification|level\s+\d)\b/i;
+// Headings shared by many certificates; a poor title on their own
+const BOILERPLATE_TITLE = /^(?:certificate|certificate\s+of\s+(?:completion|achievement|attendance|participation|competence|award|training)|this\s+is\s+to\s+certify(?:\s+that)?)$/i;
+
+const MAX_FIELD_LENGTH = 80;
+
+const CONFIDENCE_LEVELS: ExtractionConfidence[] = ['low', 'medium', 'high'];
+
+const lowerConfidence = (confidence: ExtractionConfidence): ExtractionConfidence =>
+  CONFIDENCE_LEVELS[Math.max(0, CONFIDENCE_LEVELS.indexOf(confidence) - 1)];
+
+const cleanValue = (value: string) =>
+  value.replace(/\s+/g, ' ').replace(/^[\s:\-–]+|[\s.,;:\-–]+$/g, '').slice(0, MAX_FIELD_LENGTH);
+
+// Rewrites a matched date into a form normalizeImportDate reads
+const parseDateMatch = (match: string): string | undefined => {
+  const text = match.replace(/(\d)(?:st|nd|rd|th)\b/gi, '$1').replace(/[,.](?=\s)/g, '').trim();
+  const monthFirst = text.match(/^([a-z]+)\.?\s+(\d{1,2})\s+(\d{4})$/i);
+  const dayFirst = text.match(/^(\d{1,2})\s+([a-z]+)\.?\s+(\d{4})$/i);
+
+  if (monthFirst || dayFirst) {
+    const [day, month, year] = monthFirst
+      ? [monthFirst[2], monthFirst[1], monthFirst[3]]
+      : [dayFirst![1], dayFirst![2], dayFirst![3]];
+    const shortMonth = month.slice(0, 1).toUpperCase() + month.slice(1, 3).toLowerCase();
+    return normalizeImportDate(`${day} ${shortMonth} ${year}`) || undefined;
+  }
+
+  return normalizeImportDate(text) || normalizeImportDate(text.replace(/[.-]/g, '/')) || undefined;
+};
+
+interface FoundDate {
+  value: string;
+  label: 'expiry' | 'completion' | null;
+}
+
+const findDates = (lines: string[]): FoundDate[] => {
+  const dates: FoundDate[] = [];
+
+  lines.forEach((line, lineIndex) => {
+    let previousEnd = 0;
+    const lineDates: FoundDate[] = [];
+
+    for (const match of line.matchAll(DATE_PATTERN)) {
+      const value = parseDateMatch(match[0]);
+      const start = match.index ?? 0;
+      // The label is the text since the previous date, or the line above
+      // when the date stands on a line of its own
+      let context = line.slice(previousEnd, start);
+      if (!/[a-z]/i.test(context) && lineIndex > 0) {
+        context = lines[lineIndex - 1];
+      }
+      previousEnd = start + match[0].length;
+      if (!value) continue;
+
+      const label = EXPIRY_LABEL.test(context)
+        ? 'expiry'
+        : COMPLETION_LABEL.test(context) ? 'completion' : null;
+      lineDates.push({ value, label });
+    }
+
+    // "Valid from 01/02/2024 to 01/02/2027"
+    if (lineDates.length === 2 && lineDates[0].label === 'completion' && !lineDates[1].label
+      && lineDates[1].value > lineDates[0].value) {
+      lineDates[1].label = 'expiry';
+    }
+
+    dates.push(...lineDates);
+  });
+
+  return dates;
+};
+
+const extractDates = (lines: string[]): ExtractedFields => {
+  const dates = findDates(lines);
+  const fields: ExtractedFields = {};
+
+  const completion = dates.find(date => date.label === 'completion');
+  const expiry = dates.find(date => date.label === 'expiry');
+  if (completion) fields.completion_date = { value: completion.value, confidence: 'high' };
+  if (expiry) fields.expiry_date = { value: expiry.value, confidence: 'high' };
+
+  // Without labels, the earliest date is most likely the issue date and a
+  // later one the expiry date
+  const unlabelled = dates
+    .filter(date => !date.label)
+    .map(date => date.value)
+    .sort();
+  const today = new Date().toISOString().split('T')[0];
+
+  if (!fields.completion_date) {
+    const earliest = unlabelled.find(value => value <= today);
+    if (earliest) fields.completion_date = { value: earliest, confidence: 'low' };
+  }
+
+  if (!fields.expiry_date && unlabelled.length > 1) {
+    const latest = unlabelled[unlabelled.length - 1];
+    if (!fields.completion_date || latest > fields.completion_date.value) {
+      fields.expiry_date = { value: latest, confidence: 'low' };
+    }
+  }
+
+  return fields;
+};
+
+const extractCertNumber = (lines: string[]): ExtractedValue | undefined => {
+  for (const line of lines) {
+    const match = line.match(CERT_NUMBER_PATTERN);
+    if (match) return { value: match[1], confidence: 'high' };
+  }
+
+  for (const line of lines) {
+    const code = line.replace(DATE_PATTERN, ' ').match(CODE_PATTERN);
+    if (code) return { value: code[0], confidence: 'low' };
+  }
+
+  return undefined;
+};
+
+const extractIssuer = (lines: string[]): ExtractedValue | undefined => {
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(ISSUER_LABEL);
+    if (!match) continue;
+
+    const value = cleanValue(match[1] || lines[i + 1] || '');
+    if (value && !value.match(DATE_PATTERN)) return { value, confidence: 'high' };
+  }
+
+  const organisation = lines.find(line =>
+    ORGANISATION_WORDS.test(line) && !line.match(DATE_PATTERN) && line.length <= MAX_FIELD_LENGTH
+  );
+  return organisation ? { value: cleanValue(organisation), confidence: 'medium' } : undefined;
+};
+
+const extractTitle = (lines: string[], issuer?: string): ExtractedValue | undefined => {
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(TITLE_LEAD_IN);
+    if (!match) continue;
+
+    const value = cleanValue(match[1] || lines[i + 1] || '');
+    if (value && !BOILERPLATE_TITLE.test(value)) return { value, confidence: 'medium' };
+  }
+
+  const titleLine = lines.find(line =>
+    TITLE_WORDS.test(line)
+    && !BOILERPLATE_TITLE.test(cleanValue(line))
+    && cleanValue(line) !== issuer
+    && !line.match(DATE_PATTERN)
+    && !CERT_NUMBER_PATTERN.test(line)
+    && line.length <= MAX_FIELD_LENGTH
+  );
+  if (titleLine) return { value: cleanValue(titleLine), confidence: 'medium' };
+
+  const heading = lines.find(line => BOILERPLATE_TITLE.test(cleanValue(line)));
+  return heading ? { value: cleanValue(heading), confidence: 'low' } : undefined;
+};
+
+/**
+ * Picks certificate details out of the text of a certificate
+ * @param text Text read from the certificate, one line per line of print
+ * @returns Detected fields with how confident each detection is
+ */
+export const parseCertificateText = (text: string): ExtractedFields => {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 1);
+
+  const issuer = extractIssuer(lines);
+  const fields: ExtractedFields = {
+    title: extractTitle(lines, issuer?.value),
+    issuer,
+    cert_number: extractCertNumber(lines),
+    ...extractDates(lines)
+  };
+
+  (Object.keys(fields) as ExtractedField[]).forEach(field => {
+    if (!fields[field]) delete fields[field];
+  });
+
+  return fields;
+};
+
+const loadPdf = async (file: File) => {
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.js`;
+  }
+  return pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+};
+
+type PdfDocument = Awaited<ReturnType<typeof loadPdf>>;
+
+// Rebuilds lines from positioned text items, starting a new line whenever the
+// baseline moves
+const readPdfText = async (pdf: PdfDocument): Promise<string> => {
+  const lines: string[] = [];
+
+  for (let pageNumber = 1; pageNumber <= Math.min(pdf.numPages, MAX_PDF_PAGES); pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    let line = '';
+    let baseline: number | null = null;
+
+    content.items.forEach(item => {
+      if (!('str' in item)) return;
+      const y = item.transform[5];
+      if (baseline !== null && Math.abs(y - baseline) > 2 && line.trim()) {
+        lines.push(line);
+        line = '';
+      }
+      line += item.str;
+      baseline = y;
+      if (item.hasEOL && line.trim()) {
+        lines.push(line);
+        line = '';
+      }
+    });
+
+    if (line.trim()) lines.push(line);
+  }
+
+  return lines.join('\n');
+};
+
+// Draws the first page of a scanned PDF so it can be read with OCR
+const renderPdfPage = async (pdf: PdfDocument): Promise<HTMLCanvasElement> => {
+  const page = await pdf.getPage(1);
+  const viewport = page.getViewport({ scale: 2 });
+  const canvas = document.createElement('canvas');
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+  await page.render({ canvasContext: context, viewport }).promise;
+  return canvas;
+};
+
+const recognizeText = async (
+  image: File | HTMLCanvasElement,
+  onProgress?: (progress: number) => void
+): Promise<{ text: string; confidence: number }> => {
+  // Loaded on first use; the OCR engine and language data are several MB
+  const { recognize } = await import('tesseract.js');
+  const { data } = await recognize(image, OCR_LANGUAGE, {
+    logger: message => {
+      if (message.status === 'recognizing text') onProgress?.(message.progress);
+    }
+  });
+  return { text: data.text, confidence: data.confidence };
+};
+
+/**
+ * Reads a certificate file and detects its title, issuer, number and dates.
+ * PDFs are read from their text layer; photos and scanned PDFs use OCR.
+ * @param file PDF, JPEG or PNG certificate
+ * @param onProgress Optional callback with OCR progress from 0 to 1
+ * @returns Promise resolving to the detected fields and the text they came from
+ */
+export const extractCertificateMetadata = async (
+  file: File,
+  onProgress?: (progress: number) => void
+): Promise<ExtractionResult> => {
+  let image: File | HTMLCanvasElement = file;
+
+  if (file.type === 'application/pdf') {
+    const pdf = await loadPdf(file);
+    try {
+      const text = await readPdfText(pdf);
+      if (text.replace(/\s/g, '').length >= MIN_PDF_TEXT_LENGTH) {
+        return { fields: parseCertificateText(text), source: 'pdf', text };
+      }
+      image = await renderPdfPage(pdf);
+    } finally {
+      pdf.destroy();
+    }
+  }
+
+  const { text, confidence } = await recognizeText(image, onProgress);
+  const fields = parseCertificateText(text);
+
+  if (confidence < MIN_OCR_CONFIDENCE) {
+    Object.values(fields).forEach(field => {
+      if (field) field.confidence = lowerConfidence(field.confidence);
+    });
+  }
+
+  return { fields, source: 'ocr', text };
+};
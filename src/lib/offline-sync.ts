@@ -0,0 +1,568 @@
+import type { User } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { Certificate, Profile, Settings } from './types';
+
+// Local copy of the signed-in user's profile, settings and certificates in
+// IndexedDB, so the dashboard keeps working offline. Changes made offline are
+// queued and sent when the connection is back. Each change remembers the
+// server version it was made from; if another device has since changed a field
+// it also sets, the other device's version is kept. Changes the server refuses
+// are kept as failed until the user retries or discards them.
+
+const DB_NAME = 'xafewallet-offline';
+const DB_VERSION = 1;
+const RECORDS_STORE = 'records';
+const CHANGES_STORE = 'pending_changes';
+
+export type CachedRecordKind = 'profile' | 'settings' | 'certificates';
+
+type PendingEntity = 'certificate' | 'profile' | 'settings';
+type PendingOperation = 'create' | 'update' | 'delete' | 'upsert';
+type PendingData = Partial<Certificate> | Partial<Profile> | Partial<Settings>;
+
+interface PendingChange {
+  /** One change per record: later edits are merged into it */
+  key: string;
+  user_id: string;
+  entity: PendingEntity;
+  operation: PendingOperation;
+  /** Certificate ID, or the user ID for the profile and settings */
+  target_id: string;
+  data: PendingData;
+  /** Server updated_at of the record the change was made from, or null if it was not known */
+  base_updated_at: string | null;
+  /** Values of the changed fields in that version */
+  base: PendingData;
+  /** When the change was last edited on this device */
+  edited_at: string;
+  /** Order the change was first made in */
+  sequence: number;
+  /** Why the server refused the change; it waits for a retry or discard */
+  failed_reason?: string;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  /** Changes made offline that have not reached the server yet */
+  pending: number;
+  /** Offline changes the server refused, kept until retried or discarded */
+  failed: number;
+  /** Offline changes dropped in the last sync because the server had a newer version */
+  conflicts: number;
+  lastSyncedAt: string | null;
+}
+
+let status: SyncStatus = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  syncing: false,
+  pending: 0,
+  failed: 0,
+  conflicts: 0,
+  lastSyncedAt: null
+};
+const listeners = new Set<() => void>();
+
+const setStatus = (changes: Partial<SyncStatus>) => {
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(RECORDS_STORE);
+        const changes = db.createObjectStore(CHANGES_STORE, { keyPath: 'key' });
+        changes.createIndex('user_id', 'user_id');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and waits for it to commit
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const recordKey = (userId: string, kind: CachedRecordKind) => `${userId}:${kind}`;
+
+// Local File objects and signed URLs only last for the current session
+const withoutLocalFields = <T extends Partial<Certificate>>(cert: T): T => {
+  const copy = { ...cert };
+  delete copy.file;
+  delete copy.file_url;
+  return copy;
+};
+
+/**
+ * Checks whether a request failed because the server could not be reached,
+ * as opposed to being rejected by it
+ * @param err Error thrown or returned by a Supabase request
+ * @returns True for network failures
+ */
+export const isNetworkError = (err: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  // Only fetch failures; other TypeErrors are bugs, and retrying them would never end
+  const message = err && typeof err === 'object' && 'message' in err ? String(err.message) : '';
+  return /failed to fetch|networkerror|load failed|fetcherror|network request failed/i.test(message);
+};
+
+/**
+ * Records whether the last request reached the server
+ * @param online False after a network failure
+ */
+export const reportConnectivity = (online: boolean): void => {
+  if (status.online !== online) setStatus({ online });
+};
+
+/**
+ * Gets the signed-in user from the session saved in the browser, which works
+ * offline, unlike supabase.auth.getUser()
+ * @returns The signed-in user, or null
+ */
+export const getSignedInUser = async (): Promise<User | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user ?? null;
+};
+
+/**
+ * Reads a cached record
+ * @param userId Owner of the record
+ * @param kind Which record to read
+ * @returns Promise resolving to the cached value, or null if there is none
+ */
+export const readCache = async <T>(userId: string, kind: CachedRecordKind): Promise<T | null> => {
+  try {
+    const value = await runRequest<T | undefined>(RECORDS_STORE, 'readonly', store => store.get(recordKey(userId, kind)));
+    return value ?? null;
+  } catch (err) {
+    console.error('Error reading offline cache:', err);
+    return null;
+  }
+};
+
+/**
+ * Saves a record to the cache, replacing what was there
+ * @param userId Owner of the record
+ * @param kind Which record to save
+ * @param value Record to save
+ */
+export const writeCache = async <T>(userId: string, kind: CachedRecordKind, value: T): Promise<void> => {
+  try {
+    const stored = kind === 'certificates'
+      ? (value as Certificate[]).map(withoutLocalFields)
+      : value;
+    await runRequest(RECORDS_STORE, 'readwrite', store => store.put(stored, recordKey(userId, kind)));
+  } catch (err) {
+    console.error('Error writing offline cache:', err);
+  }
+};
+
+/**
+ * Changes the cached certificate list
+ * @param userId Owner of the certificates
+ * @param change Returns the new list from the cached one
+ */
+export const updateCachedCertificates = async (
+  userId: string,
+  change: (certificates: Certificate[]) => Certificate[]
+): Promise<void> => {
+  const cached = await readCache<Certificate[]>(userId, 'certificates');
+  await writeCache(userId, 'certificates', change(cached || []));
+};
+
+/**
+ * Removes all cached records, e.g. on sign out. Changes that have not been
+ * synced yet are kept and sent the next time their owner signs in.
+ */
+export const clearCachedRecords = async (): Promise<void> => {
+  try {
+    await runRequest(RECORDS_STORE, 'readwrite', store => store.clear());
+  } catch (err) {
+    console.error('Error clearing offline cache:', err);
+  }
+};
+
+const getPendingChanges = async (userId: string): Promise<PendingChange[]> => {
+  const changes = await runRequest<PendingChange[]>(CHANGES_STORE, 'readonly', store =>
+    store.index('user_id').getAll(userId)
+  );
+  return changes.sort((a, b) => a.sequence - b.sequence);
+};
+
+const refreshPendingCount = async (userId: string) => {
+  try {
+    const changes = await getPendingChanges(userId);
+    const failed = changes.filter(change => change.failed_reason).length;
+    setStatus({ pending: changes.length - failed, failed });
+  } catch (err) {
+    console.error('Error counting pending changes:', err);
+  }
+};
+
+// Folds a new change into the one already waiting for the same record
+const mergeChanges = (existing: PendingChange | undefined, next: PendingChange): PendingChange | null => {
+  if (!existing) return next;
+
+  // Created and deleted while offline: the server never needs to know
+  if (existing.operation === 'create' && next.operation === 'delete') return null;
+
+  // The base stays the version the first change was made from; a new edit
+  // also gives a failed change another try
+  return {
+    ...next,
+    operation: existing.operation === 'create' ? 'create' : next.operation,
+    data: next.operation === 'delete' ? {} : { ...existing.data, ...next.data },
+    base_updated_at: existing.base_updated_at,
+    base: { ...next.base, ...existing.base },
+    sequence: existing.sequence
+  };
+};
+
+// The cached values of the fields a change sets, which it is made from
+const pickBase = (record: object | null | undefined, fields: string[]): PendingData => {
+  const values: Record<string, unknown> = {};
+  fields.forEach(field => {
+    values[field] = record ? (record as Record<string, unknown>)[field] ?? null : null;
+  });
+  return values as PendingData;
+};
+
+const queueChange = async (
+  userId: string,
+  entity: PendingEntity,
+  operation: PendingOperation,
+  targetId: string,
+  data: PendingData,
+  baseRecord?: (object & { updated_at?: string | null }) | null,
+  baseFields: string[] = Object.keys(data)
+): Promise<void> => {
+  const key = entity === 'certificate' ? `${userId}:certificate:${targetId}` : `${userId}:${entity}`;
+  const existing = await runRequest<PendingChange | undefined>(CHANGES_STORE, 'readonly', store => store.get(key));
+  const merged = mergeChanges(existing, {
+    key,
+    user_id: userId,
+    entity,
+    operation,
+    target_id: targetId,
+    data,
+    base_updated_at: baseRecord?.updated_at ?? null,
+    base: pickBase(baseRecord, baseFields),
+    edited_at: new Date().toISOString(),
+    sequence: Date.now()
+  });
+
+  if (merged) {
+    await runRequest(CHANGES_STORE, 'readwrite', store => store.put(merged));
+  } else {
+    await runRequest(CHANGES_STORE, 'readwrite', store => store.delete(key));
+  }
+  await refreshPendingCount(userId);
+};
+
+/**
+ * Saves a new certificate on this device and queues it for the server
+ * @param userId Owner of the certificate
+ * @param certificate Certificate details
+ * @returns Promise resolving to the saved certificate
+ */
+export const createCertificateOffline = async (
+  userId: string,
+  certificate: Omit<Certificate, 'id' | 'user_id'>
+): Promise<Certificate> => {
+  const now = new Date().toISOString();
+  // A real UUID, so the certificate keeps its ID once synced
+  const id = crypto.randomUUID();
+  const created: Certificate = {
+    ...certificate,
+    id,
+    user_id: userId,
+    expiry_date: certificate.expiry_date || null,
+    completion_date: certificate.completion_date || now.split('T')[0],
+    lineage_id: id,
+    previous_certificate_id: null,
+    is_archived: false,
+    created_at: now,
+    updated_at: now
+  };
+
+  await updateCachedCertificates(userId, certificates => [created, ...certificates]);
+  await queueChange(userId, 'certificate', 'create', id, withoutLocalFields(created));
+  return created;
+};
+
+/**
+ * Changes a certificate on this device and queues the change for the server
+ * @param userId Owner of the certificate
+ * @param id Certificate ID
+ * @param changes Fields to change
+ * @returns Promise resolving to the changed certificate
+ */
+export const updateCertificateOffline = async (
+  userId: string,
+  id: string,
+  changes: Partial<Certificate>
+): Promise<Certificate> => {
+  const updatedAt = new Date().toISOString();
+  let previous: Certificate | undefined;
+  let updated: Certificate | undefined;
+
+  await updateCachedCertificates(userId, certificates => certificates.map(cert => {
+    if (cert.id !== id) return cert;
+    previous = cert;
+    updated = { ...cert, ...changes, updated_at: updatedAt };
+    return updated;
+  }));
+  if (!updated) {
+    throw new Error('This certificate is not available offline');
+  }
+
+  await queueChange(userId, 'certificate', 'update', id, withoutLocalFields(changes), previous);
+  return updated;
+};
+
+/**
+ * Deletes a certificate on this device and queues the deletion for the server
+ * @param userId Owner of the certificate
+ * @param id Certificate ID
+ */
+export const deleteCertificateOffline = async (userId: string, id: string): Promise<void> => {
+  let previous: Certificate | undefined;
+  await updateCachedCertificates(userId, certificates => certificates.filter(cert => {
+    if (cert.id === id) previous = cert;
+    return cert.id !== id;
+  }));
+  // A deletion conflicts with any edit made elsewhere since
+  const fields = previous ? Object.keys(withoutLocalFields(previous)) : [];
+  await queueChange(userId, 'certificate', 'delete', id, {}, previous, fields);
+};
+
+/**
+ * Changes the profile or settings on this device and queues the change for the server
+ * @param userId Signed-in user
+ * @param kind Which record to change
+ * @param changes Fields to change
+ * @returns Promise resolving to the changed record
+ */
+export const upsertRecordOffline = async <T extends Profile | Settings>(
+  userId: string,
+  kind: 'profile' | 'settings',
+  changes: Partial<T>
+): Promise<T> => {
+  const cached = await readCache<T>(userId, kind);
+  const updated = { ...cached, ...changes, updated_at: new Date().toISOString() } as T;
+
+  await writeCache(userId, kind, updated);
+  await queueChange(userId, kind, 'upsert', userId, changes, cached);
+  return updated;
+};
+
+// The record as it is on the server, or null if it does not exist
+const getServerRecord = async (change: PendingChange): Promise<Record<string, unknown> | null> => {
+  const table = change.entity === 'certificate' ? 'certificates' : change.entity === 'profile' ? 'profiles' : 'settings';
+  const column = change.entity === 'settings' ? 'user_id' : 'id';
+  const { data, error } = await supabase
+    .from(table)
+    .select('*')
+    .eq(column, change.target_id)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+const timeOf = (value: unknown) => (typeof value === 'string' ? new Date(value).getTime() : 0);
+
+// Worked out by the server, e.g. status by the daily refresh, so a change to
+// them alone is not an edit made elsewhere
+const DERIVED_FIELDS = ['status', 'updated_at'];
+
+// Whether the record was changed elsewhere, since the change was made, in a
+// field the change also sets
+const hasConflict = (change: PendingChange, server: Record<string, unknown>): boolean => {
+  if (change.base_updated_at === null || timeOf(server.updated_at) === timeOf(change.base_updated_at)) {
+    return false;
+  }
+
+  const base = change.base as Record<string, unknown>;
+  return Object.keys(base)
+    .filter(field => !DERIVED_FIELDS.includes(field))
+    .some(field => JSON.stringify(server[field] ?? null) !== JSON.stringify(base[field] ?? null));
+};
+
+// Sends one change; returns false if a newer version on the server won
+const applyChange = async (change: PendingChange): Promise<boolean> => {
+  if (change.entity === 'certificate' && change.operation === 'create') {
+    const { error } = await supabase
+      .from('certificates')
+      .insert({ ...change.data, user_id: change.user_id });
+    // Already sent by an earlier sync that lost its connection before finishing
+    if (error && error.code !== '23505') throw error;
+    return true;
+  }
+
+  const server = await getServerRecord(change);
+  if (server && hasConflict(change, server)) return false;
+
+  if (change.entity === 'certificate') {
+    // Deleted on another device, which wins over an edit here
+    if (!server) return change.operation === 'delete';
+
+    const query = change.operation === 'delete'
+      ? supabase.from('certificates').delete()
+      : supabase.from('certificates').update(change.data);
+    const { error } = await query.eq('id', change.target_id).eq('user_id', change.user_id);
+    if (error) throw error;
+    return true;
+  }
+
+  const table = change.entity === 'profile' ? 'profiles' : 'settings';
+  const column = change.entity === 'profile' ? 'id' : 'user_id';
+  const { error } = server
+    ? await supabase.from(table).update(change.data).eq(column, change.user_id)
+    : await supabase.from(table).insert({ ...change.data, [column]: change.user_id });
+  if (error) throw error;
+  return true;
+};
+
+let syncInProgress: Promise<void> | null = null;
+
+const runSync = async () => {
+  const user = await getSignedInUser();
+  if (!user) return;
+
+  try {
+    const changes = (await getPendingChanges(user.id)).filter(change => !change.failed_reason);
+    if (changes.length === 0) return;
+
+    setStatus({ syncing: true });
+    let conflicts = 0;
+    for (const change of changes) {
+      try {
+        if (!(await applyChange(change))) conflicts++;
+      } catch (err) {
+        // Stop and keep this change and the rest for the next sync
+        if (isNetworkError(err)) throw err;
+        // Refused by the server, e.g. by a constraint; kept for the user to retry or discard
+        console.error('Error syncing offline change:', err);
+        const reason = err && typeof err === 'object' && 'message' in err ? String(err.message) : 'Refused by the server';
+        await runRequest(CHANGES_STORE, 'readwrite', store => store.put({ ...change, failed_reason: reason }));
+        continue;
+      }
+      await runRequest(CHANGES_STORE, 'readwrite', store => store.delete(change.key));
+    }
+    setStatus({ online: true, conflicts, lastSyncedAt: new Date().toISOString() });
+  } catch (err) {
+    console.error('Error syncing offline changes:', err);
+    if (isNetworkError(err)) reportConnectivity(false);
+  } finally {
+    if (status.syncing) setStatus({ syncing: false });
+    await refreshPendingCount(user.id);
+  }
+};
+
+/**
+ * Sends changes made offline to the server, oldest first. Stops at the first
+ * network failure and leaves the rest for the next sync.
+ */
+export const syncPendingChanges = async (): Promise<void> => {
+  if (!syncInProgress) {
+    syncInProgress = runSync().finally(() => {
+      syncInProgress = null;
+    });
+  }
+  return syncInProgress;
+};
+
+// Clears or removes every failed change of the signed-in user
+const updateFailedChanges = async (retry: boolean) => {
+  const user = await getSignedInUser();
+  if (!user) return;
+
+  const failed = (await getPendingChanges(user.id)).filter(change => change.failed_reason);
+  for (const change of failed) {
+    if (retry) {
+      await runRequest(CHANGES_STORE, 'readwrite', store => store.put({ ...change, failed_reason: undefined }));
+    } else {
+      await runRequest(CHANGES_STORE, 'readwrite', store => store.delete(change.key));
+    }
+  }
+  await refreshPendingCount(user.id);
+};
+
+/**
+ * Sends changes the server refused again, e.g. after fixing what it refused
+ */
+export const retryFailedChanges = async (): Promise<void> => {
+  await updateFailedChanges(true);
+  await syncPendingChanges();
+};
+
+/**
+ * Throws away changes the server refused. The saved copy on this device is
+ * replaced by the server's version the next time the wallet loads.
+ */
+export const discardFailedChanges = async (): Promise<void> => {
+  await updateFailedChanges(false);
+};
+
+/**
+ * Syncs now, and again whenever the browser comes back online
+ * @returns Function that stops listening
+ */
+export const startOfflineSync = (): (() => void) => {
+  const handleOnline = () => {
+    reportConnectivity(true);
+    syncPendingChanges();
+  };
+  const handleOffline = () => reportConnectivity(false);
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  syncPendingChanges();
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+};
+
+/**
+ * Gets the current sync status. The object is replaced, not changed, on
+ * every update, so it can be compared by reference.
+ * @returns Current sync status
+ */
+export const getSyncStatus = (): SyncStatus => status;
+
+/**
+ * Subscribes to sync status changes
+ * @param listener Called after every change
+ * @returns Function that unsubscribes
+ */
+export const subscribeToSyncStatus = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
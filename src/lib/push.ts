@@ -0,0 +1,102 @@
+import { database } from './database';
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+const SERVICE_WORKER_URL = '/sw.js';
+
+const urlBase64ToUint8Array = (value: string): Uint8Array => {
+  const padding = '='.repeat((4 - (value.length % 4)) % 4);
+  const base64 = (value + padding).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+const getRegistration = async (): Promise<ServiceWorkerRegistration> => {
+  return (
+    (await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL)) ||
+    navigator.serviceWorker.register(SERVICE_WORKER_URL)
+  );
+};
+
+/**
+ * Checks whether this browser can receive push notifications
+ * @returns True if service workers, the Push API and a VAPID key are available
+ */
+export const isPushSupported = (): boolean => {
+  return Boolean(VAPID_PUBLIC_KEY)
+    && typeof window !== 'undefined'
+    && 'serviceWorker' in navigator
+    && 'PushManager' in window
+    && 'Notification' in window;
+};
+
+/**
+ * Gets this browser's current push subscription, if any
+ * @returns Promise resolving to the subscription or null
+ */
+export const getPushSubscription = async (): Promise<PushSubscription | null> => {
+  if (!isPushSupported()) return null;
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+    return registration ? await registration.pushManager.getSubscription() : null;
+  } catch (err) {
+    console.error('Error getting push subscription:', err);
+    return null;
+  }
+};
+
+/**
+ * Asks for notification permission and subscribes this browser to push
+ * notifications for the signed-in user. Must be called from a user gesture.
+ * @returns Promise resolving to true if the browser is subscribed
+ */
+export const subscribeToPush = async (): Promise<boolean> => {
+  if (!isPushSupported()) return false;
+
+  try {
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') return false;
+
+    const registration = await getRegistration();
+    await navigator.serviceWorker.ready;
+
+    const subscription =
+      (await registration.pushManager.getSubscription()) ||
+      (await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY)
+      }));
+
+    const { endpoint, keys } = subscription.toJSON();
+    if (!endpoint || !keys?.p256dh || !keys?.auth) {
+      throw new Error('Push subscription is missing its keys');
+    }
+
+    await database.pushSubscriptions.save({
+      endpoint,
+      p256dh: keys.p256dh,
+      auth: keys.auth,
+      user_agent: navigator.userAgent
+    });
+
+    return true;
+  } catch (err) {
+    console.error('Error subscribing to push notifications:', err);
+    return false;
+  }
+};
+
+/**
+ * Unsubscribes this browser from push notifications
+ * @returns Promise resolving when the subscription has been removed
+ */
+export const unsubscribeFromPush = async (): Promise<void> => {
+  try {
+    const subscription = await getPushSubscription();
+    if (!subscription) return;
+
+    await database.pushSubscriptions.remove(subscription.endpoint);
+    await subscription.unsubscribe();
+  } catch (err) {
+    console.error('Error unsubscribing from push notifications:', err);
+  }
+};
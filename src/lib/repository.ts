@@ -0,0 +1,50 @@
+import {
+  CalendarFeed,
+  Certificate,
+  CertificateAttachment,
+  CertificateRenewal,
+  Profile,
+  PushSubscriptionRecord,
+  Settings
+} from './types';
+
+// Everything the app reads and writes about a wallet. Implemented against
+// Supabase in database.ts and with sample data in demo-repository.ts; use
+// the `database` export, which picks one.
+export interface WalletRepository {
+  profiles: {
+    get(): Promise<Profile>;
+    upsert(profile: Partial<Profile>): Promise<Profile>;
+  };
+  settings: {
+    get(): Promise<Settings>;
+    upsert(settings: Partial<Settings>): Promise<Settings>;
+  };
+  certificates: {
+    list(): Promise<Certificate[]>;
+    create(certificate: Omit<Certificate, 'id' | 'user_id'>): Promise<Certificate>;
+    update(id: string, certificate: Partial<Certificate>): Promise<Certificate>;
+    delete(id: string): Promise<boolean>;
+    renew(id: string, renewal: CertificateRenewal): Promise<Certificate>;
+    history(lineageId: string): Promise<Certificate[]>;
+    /** Uploads a file to storage and returns its path */
+    uploadFile(file: File, name?: string): Promise<string>;
+    /** Returns a short-lived URL for a stored file */
+    getFileUrl(path: string, expiresIn?: number): Promise<string>;
+  };
+  attachments: {
+    list(certificateId: string): Promise<CertificateAttachment[]>;
+    create(attachment: Omit<CertificateAttachment, 'id' | 'user_id' | 'version' | 'created_at'>): Promise<CertificateAttachment>;
+    delete(id: string): Promise<boolean>;
+  };
+  pushSubscriptions: {
+    save(subscription: Pick<PushSubscriptionRecord, 'endpoint' | 'p256dh' | 'auth' | 'user_agent'>): Promise<PushSubscriptionRecord>;
+    remove(endpoint: string): Promise<boolean>;
+  };
+  calendarFeeds: {
+    get(): Promise<CalendarFeed | null>;
+    /** Creates the feed, or replaces its token so the old URL stops working */
+    regenerate(): Promise<CalendarFeed>;
+    delete(): Promise<boolean>;
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from 'vitest';
+import { decryptBlob, decryptData, encryptData } from './security-utils';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+// Fixed envelopes, so a change to the format that breaks files already stored
+// is caught here rather than by users
+const PASSPHRASE = 'correct horse battery staple';
+const PBKDF2_PLAINTEXT = 'Certificate of Competence: Working at Heights';
+// 100000 iterations, 16 byte chunks, so the payload spans three chunks
+const PBKDF2_ENVELOPE =
+  'WFdFAQEAAYagEO/MxYnSYnIoEg9Av9vqkHuRWewuksiLmPGO+2cAAAAQgQWSzgP6P9wAUfLeltdzoH1C0ITeGEaWzLU9ZhHkibJDgN5JQvQicykbJqK3zcoAdRYgK9dmMkF1zN7v2//6Bg3JPDGCfWo93p/P6ZGFZur79czTp8OwAcA8Z4mE';
+
+const VAULT_KEY = 'k7Jm2Qx9VbT4nR8sLw3YzC6pF1dH5gA0';
+const HKDF_PLAINTEXT = 'vault file contents';
+const HKDF_ENVELOPE =
+  'WFdFAQIAAAAAEMVEEAt3i8hABJnj2/m5bLII+tSUczsRuY/QtJYAEAAAFW59FXPVmzF5pjRR6fHxYd3i0Gnj4Zo1XpbB7ihsw94xd2s=';
+
+// Written before the envelope existed: IV followed by ciphertext, raw key bytes
+const LEGACY_KEY = '0123456789abcdef0123456789abcdef';
+const LEGACY_PLAINTEXT = 'legacy secret note';
+const LEGACY_DATA = 'rEixKaQQPuN0GNXv2ibPOdKAucKwXwMOOg8movVIxsCs3jh9VQqCDPaRQE03ZA==';
+
+// magic, version, kdf, iterations, salt length, salt (16), IV, chunk size
+const HEADER_LENGTH = 3 + 1 + 1 + 4 + 1 + 16 + 12 + 4;
+const SEALED_CHUNK_LENGTH = 16 + 16;
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const decryptToText = async (envelope: Uint8Array, key: string) =>
+  new TextDecoder().decode(await (await decryptBlob(envelope, key)).arrayBuffer());
+
+const splitEnvelope = (envelope: Uint8Array) => {
+  const header = envelope.slice(0, HEADER_LENGTH);
+  const chunks: Uint8Array[] = [];
+  for (let offset = HEADER_LENGTH; offset < envelope.length; offset += SEALED_CHUNK_LENGTH) {
+    chunks.push(envelope.slice(offset, offset + SEALED_CHUNK_LENGTH));
+  }
+  return { header, chunks };
+};
+
+const joinEnvelope = (header: Uint8Array, chunks: Uint8Array[]) => {
+  const envelope = new Uint8Array(header.length + chunks.reduce((total, chunk) => total + chunk.length, 0));
+  envelope.set(header);
+  let offset = header.length;
+  for (const chunk of chunks) {
+    envelope.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return envelope;
+};
+
+const withIterations = (envelope: Uint8Array, iterations: number) => {
+  const copy = envelope.slice();
+  new DataView(copy.buffer).setUint32(5, iterations);
+  return copy;
+};
+
+describe('encrypted envelopes', () => {
+  it('decrypts a passphrase envelope', async () => {
+    await expect(decryptData(PBKDF2_ENVELOPE, PASSPHRASE)).resolves.toBe(PBKDF2_PLAINTEXT);
+  });
+
+  it('decrypts a vault key envelope', async () => {
+    await expect(decryptToText(fromBase64(HKDF_ENVELOPE), VAULT_KEY)).resolves.toBe(HKDF_PLAINTEXT);
+  });
+
+  it('falls back to the legacy format', async () => {
+    await expect(decryptData(LEGACY_DATA, LEGACY_KEY)).resolves.toBe(LEGACY_PLAINTEXT);
+  });
+
+  it('round trips new envelopes', async () => {
+    const encrypted = await encryptData(PBKDF2_PLAINTEXT, PASSPHRASE, { iterations: 100000 });
+    await expect(decryptData(encrypted, PASSPHRASE)).resolves.toBe(PBKDF2_PLAINTEXT);
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    await expect(decryptData(PBKDF2_ENVELOPE, 'wrong horse battery staple')).rejects.toThrow('Failed to decrypt data');
+  });
+
+  it('rejects an envelope with its last chunk dropped', async () => {
+    const { header, chunks } = splitEnvelope(fromBase64(PBKDF2_ENVELOPE));
+    expect(chunks).toHaveLength(3);
+
+    // The second chunk was not sealed as the final one
+    await expect(decryptToText(joinEnvelope(header, chunks.slice(0, 2)), PASSPHRASE)).rejects.toThrow();
+  });
+
+  it('rejects an envelope with its chunks reordered', async () => {
+    const { header, chunks } = splitEnvelope(fromBase64(PBKDF2_ENVELOPE));
+    const reordered = [chunks[1], chunks[0], chunks[2]];
+
+    await expect(decryptToText(joinEnvelope(header, reordered), PASSPHRASE)).rejects.toThrow();
+  });
+
+  it('rejects iteration counts outside the allowed range', async () => {
+    const envelope = fromBase64(PBKDF2_ENVELOPE);
+
+    await expect(decryptBlob(withIterations(envelope, 1000), PASSPHRASE)).rejects.toThrow('Unsupported iteration count');
+    await expect(decryptBlob(withIterations(envelope, 0xffffffff), PASSPHRASE)).rejects.toThrow('Unsupported iteration count');
+    await expect(decryptBlob(withIterations(fromBase64(HKDF_ENVELOPE), 1), VAULT_KEY)).rejects.toThrow('Unsupported iteration count');
+  });
+});
@@ -1,42 +1,304 @@
 import { supabase } from './supabase';
 
+/*
+ * Encrypted payloads use a self-describing binary envelope so they stay
+ * decryptable when defaults change:
+ *
+ *   magic "XWE" | version (1) | kdf (1) | iterations (4) | salt length (1) | salt
+ *   | base IV (12) | chunk size (4) | chunks...
+ *
+ * The payload is split into chunks that are each sealed with AES-256-GCM. A
+ * chunk's IV is the base IV with its index mixed into the last four bytes, and
+ * its additional data is the header plus the chunk index and a final-chunk
+ * flag, so chunks cannot be reordered, dropped or truncated undetected.
+ */
+const ENVELOPE_MAGIC = [0x58, 0x57, 0x45]; // "XWE"
+const ENVELOPE_VERSION = 1;
+const KDF_IDS = { pbkdf2: 1, hkdf: 2 } as const;
+const DEFAULT_PBKDF2_ITERATIONS = 310000;
+// The iteration count is read from the envelope, so it is bounded: too few
+// would let a crafted file force a weak key, too many would hang the tab
+const MIN_PBKDF2_ITERATIONS = 100000;
+const MAX_PBKDF2_ITERATIONS = 5000000;
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HKDF_INFO = 'xafewallet-encryption-v1';
+
+export type KeyDerivationFunction = keyof typeof KDF_IDS;
+
+export interface EncryptionOptions {
+  /**
+   * 'pbkdf2' for user-chosen passphrases, 'hkdf' for keys that are already
+   * high-entropy (e.g. randomly generated vault keys)
+   */
+  kdf?: KeyDerivationFunction;
+  iterations?: number;
+  chunkSize?: number;
+  onProgress?: (progress: number) => void;
+}
+
+interface EnvelopeHeader {
+  kdf: KeyDerivationFunction;
+  iterations: number;
+  salt: Uint8Array;
+  iv: Uint8Array;
+  chunkSize: number;
+  bytes: Uint8Array;
+}
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Convert in slices; spreading large arrays into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (value: string): Uint8Array => {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+};
+
+const deriveKey = async (
+  key: string,
+  kdf: KeyDerivationFunction,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> => {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(key),
+    kdf === 'pbkdf2' ? 'PBKDF2' : 'HKDF',
+    false,
+    ['deriveKey']
+  );
+
+  const params = kdf === 'pbkdf2'
+    ? { name: 'PBKDF2', hash: 'SHA-256', salt, iterations }
+    : { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(HKDF_INFO) };
+
+  return crypto.subtle.deriveKey(
+    params,
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const buildHeader = (
+  kdf: KeyDerivationFunction,
+  iterations: number,
+  salt: Uint8Array,
+  iv: Uint8Array,
+  chunkSize: number
+): Uint8Array => {
+  const header = new Uint8Array(3 + 1 + 1 + 4 + 1 + salt.length + IV_LENGTH + 4);
+  const view = new DataView(header.buffer);
+  let offset = 0;
+
+  header.set(ENVELOPE_MAGIC, offset);
+  offset += 3;
+  header[offset++] = ENVELOPE_VERSION;
+  header[offset++] = KDF_IDS[kdf];
+  view.setUint32(offset, iterations);
+  offset += 4;
+  header[offset++] = salt.length;
+  header.set(salt, offset);
+  offset += salt.length;
+  header.set(iv, offset);
+  offset += IV_LENGTH;
+  view.setUint32(offset, chunkSize);
+
+  return header;
+};
+
+const hasEnvelopeMagic = (bytes: Uint8Array): boolean => {
+  return bytes.length > 3 && ENVELOPE_MAGIC.every((b, i) => bytes[i] === b);
+};
+
+const parseHeader = (bytes: Uint8Array): EnvelopeHeader => {
+  if (!hasEnvelopeMagic(bytes)) {
+    throw new Error('Not an encrypted envelope');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 3;
+
+  const version = bytes[offset++];
+  if (version !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported envelope version: ${version}`);
+  }
+
+  const kdfId = bytes[offset++];
+  const kdf = (Object.keys(KDF_IDS) as KeyDerivationFunction[]).find(k => KDF_IDS[k] === kdfId);
+  if (!kdf) {
+    throw new Error(`Unsupported key derivation function: ${kdfId}`);
+  }
+
+  const iterations = view.getUint32(offset);
+  offset += 4;
+  if (kdf === 'pbkdf2'
+    ? iterations < MIN_PBKDF2_ITERATIONS || iterations > MAX_PBKDF2_ITERATIONS
+    : iterations !== 0) {
+    throw new Error(`Unsupported iteration count: ${iterations}`);
+  }
+  const saltLength = bytes[offset++];
+  const salt = bytes.slice(offset, offset + saltLength);
+  offset += saltLength;
+  const iv = bytes.slice(offset, offset + IV_LENGTH);
+  offset += IV_LENGTH;
+  const chunkSize = view.getUint32(offset);
+  offset += 4;
+
+  if (chunkSize === 0 || offset > bytes.length) {
+    throw new Error('Malformed envelope header');
+  }
+
+  return { kdf, iterations, salt, iv, chunkSize, bytes: bytes.slice(0, offset) };
+};
+
+const chunkIv = (baseIv: Uint8Array, index: number): Uint8Array => {
+  const iv = baseIv.slice();
+  const view = new DataView(iv.buffer);
+  view.setUint32(IV_LENGTH - 4, view.getUint32(IV_LENGTH - 4) ^ index);
+  return iv;
+};
+
+const chunkAad = (header: Uint8Array, index: number, isFinal: boolean): Uint8Array => {
+  const aad = new Uint8Array(header.length + 5);
+  aad.set(header);
+  new DataView(aad.buffer).setUint32(header.length, index);
+  aad[header.length + 4] = isFinal ? 1 : 0;
+  return aad;
+};
+
 /**
- * Encrypt sensitive data using AES-GCM
+ * Encrypt a binary payload into a self-describing envelope. Large Blobs and
+ * Files are read and encrypted one chunk at a time.
  * @param data Data to encrypt
- * @param key Encryption key
- * @returns Promise resolving to encrypted data as base64 string
+ * @param key Encryption key or passphrase
+ * @param options Key derivation and chunking options
+ * @returns Promise resolving to a Blob containing the envelope
  */
-export const encryptData = async (data: string, key: string): Promise<string> => {
-  try {
-    // Convert the key to a CryptoKey
-    const encoder = new TextEncoder();
-    const keyData = encoder.encode(key);
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      keyData,
-      { name: 'AES-GCM', length: 256 },
-      false,
-      ['encrypt']
+export const encryptBlob = async (
+  data: Blob | ArrayBuffer | Uint8Array,
+  key: string,
+  options: EncryptionOptions = {}
+): Promise<Blob> => {
+  const source = data instanceof Blob ? data : new Blob([data]);
+  const kdf = options.kdf || 'pbkdf2';
+  const iterations = kdf === 'pbkdf2' ? options.iterations || DEFAULT_PBKDF2_ITERATIONS : 0;
+  if (kdf === 'pbkdf2' && (iterations < MIN_PBKDF2_ITERATIONS || iterations > MAX_PBKDF2_ITERATIONS)) {
+    throw new Error(`Iterations must be between ${MIN_PBKDF2_ITERATIONS} and ${MAX_PBKDF2_ITERATIONS}`);
+  }
+  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const cryptoKey = await deriveKey(key, kdf, salt, iterations);
+  const header = buildHeader(kdf, iterations, salt, iv, chunkSize);
+
+  const parts: BlobPart[] = [header];
+  const chunkCount = Math.max(1, Math.ceil(source.size / chunkSize));
+
+  for (let index = 0; index < chunkCount; index++) {
+    const plaintext = await source.slice(index * chunkSize, (index + 1) * chunkSize).arrayBuffer();
+    const ciphertext = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv: chunkIv(iv, index),
+        additionalData: chunkAad(header, index, index === chunkCount - 1)
+      },
+      cryptoKey,
+      plaintext
     );
+    parts.push(ciphertext);
+    options.onProgress?.(Math.round(((index + 1) / chunkCount) * 100));
+  }
+
+  return new Blob(parts, { type: 'application/octet-stream' });
+};
 
-    // Generate a random IV
-    const iv = crypto.getRandomValues(new Uint8Array(12));
+/**
+ * Decrypt an envelope produced by encryptBlob
+ * @param data Encrypted envelope
+ * @param key Encryption key or passphrase
+ * @param options Progress callback and output MIME type
+ * @returns Promise resolving to a Blob with the decrypted data
+ */
+export const decryptBlob = async (
+  data: Blob | ArrayBuffer | Uint8Array,
+  key: string,
+  options: { type?: string; onProgress?: (progress: number) => void } = {}
+): Promise<Blob> => {
+  const source = data instanceof Blob ? data : new Blob([data]);
+  // The header is at most 3 + 1 + 1 + 4 + 1 + 255 + 12 + 4 bytes
+  const header = parseHeader(new Uint8Array(await source.slice(0, 281).arrayBuffer()));
+  const cryptoKey = await deriveKey(key, header.kdf, header.salt, header.iterations);
 
-    // Encrypt the data
-    const dataBuffer = encoder.encode(data);
-    const encryptedBuffer = await crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv },
+  const sealedChunkSize = header.chunkSize + TAG_LENGTH;
+  const body = source.slice(header.bytes.length);
+  const chunkCount = Math.max(1, Math.ceil(body.size / sealedChunkSize));
+  const parts: BlobPart[] = [];
+
+  for (let index = 0; index < chunkCount; index++) {
+    const ciphertext = await body.slice(index * sealedChunkSize, (index + 1) * sealedChunkSize).arrayBuffer();
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: chunkIv(header.iv, index),
+        additionalData: chunkAad(header.bytes, index, index === chunkCount - 1)
+      },
       cryptoKey,
-      dataBuffer
+      ciphertext
     );
+    parts.push(plaintext);
+    options.onProgress?.(Math.round(((index + 1) / chunkCount) * 100));
+  }
+
+  return new Blob(parts, { type: options.type || '' });
+};
+
+/**
+ * Decrypt data produced before the envelope format existed, where the raw key
+ * bytes were used directly as the AES key and the IV was prepended
+ */
+const decryptLegacyData = async (encryptedBytes: Uint8Array, key: string): Promise<string> => {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(key),
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['decrypt']
+  );
+
+  const decryptedBuffer = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: encryptedBytes.slice(0, IV_LENGTH) },
+    cryptoKey,
+    encryptedBytes.slice(IV_LENGTH)
+  );
 
-    // Combine IV and encrypted data
-    const result = new Uint8Array(iv.length + encryptedBuffer.byteLength);
-    result.set(iv);
-    result.set(new Uint8Array(encryptedBuffer), iv.length);
+  return new TextDecoder().decode(decryptedBuffer);
+};
 
-    // Convert to base64
-    return btoa(String.fromCharCode(...result));
+/**
+ * Encrypt sensitive data using AES-GCM with a derived key
+ * @param data Data to encrypt
+ * @param key Encryption key or passphrase of any length
+ * @param options Key derivation options
+ * @returns Promise resolving to encrypted data as base64 string
+ */
+export const encryptData = async (
+  data: string,
+  key: string,
+  options: EncryptionOptions = {}
+): Promise<string> => {
+  try {
+    const envelope = await encryptBlob(new TextEncoder().encode(data), key, options);
+    return bytesToBase64(new Uint8Array(await envelope.arrayBuffer()));
   } catch (error) {
     console.error('Encryption error:', error);
     throw new Error('Failed to encrypt data');
@@ -46,45 +308,37 @@ export const encryptData = async (data: string, key: string): Promise<string> =>
 /**
  * Decrypt sensitive data using AES-GCM
  * @param encryptedData Encrypted data as base64 string
- * @param key Encryption key
+ * @param key Encryption key or passphrase
  * @returns Promise resolving to decrypted data
  */
 export const decryptData = async (encryptedData: string, key: string): Promise<string> => {
   try {
-    // Convert the key to a CryptoKey
-    const encoder = new TextEncoder();
-    const keyData = encoder.encode(key);
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      keyData,
-      { name: 'AES-GCM', length: 256 },
-      false,
-      ['decrypt']
-    );
+    const encryptedBytes = base64ToBytes(encryptedData);
 
-    // Convert base64 to Uint8Array
-    const encryptedBytes = Uint8Array.from(atob(encryptedData), c => c.charCodeAt(0));
-
-    // Extract IV and encrypted data
-    const iv = encryptedBytes.slice(0, 12);
-    const encryptedBuffer = encryptedBytes.slice(12);
-
-    // Decrypt the data
-    const decryptedBuffer = await crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv },
-      cryptoKey,
-      encryptedBuffer
-    );
+    if (!hasEnvelopeMagic(encryptedBytes)) {
+      return await decryptLegacyData(encryptedBytes, key);
+    }
 
-    // Convert the decrypted data to a string
-    const decoder = new TextDecoder();
-    return decoder.decode(decryptedBuffer);
+    const decrypted = await decryptBlob(encryptedBytes, key);
+    return new TextDecoder().decode(await decrypted.arrayBuffer());
   } catch (error) {
     console.error('Decryption error:', error);
     throw new Error('Failed to decrypt data');
   }
 };
 
+/**
+ * Calculates the SHA-256 checksum of a file
+ * @param data File or blob to hash
+ * @returns Promise resolving to the hex encoded checksum
+ */
+export const computeChecksum = async (data: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await data.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
 /**
  * Check password strength
  * @param password Password to check
@@ -1,6 +1,10 @@
-import { generateSecureToken, hashPassword } from './security';
+import { generateSecureToken } from './security';
 import { supabase } from './supabase';
-import { logAccess } from './analytics';
+import { Certificate, LinkShare, ShareAccessRequest } from './types';
+import { buildKeyFragment } from './vault';
+import { DataError, toDataError } from './errors';
+import { hashPassword } from '@shared/password';
+import { normaliseHiddenFields, RedactableField } from '@shared/share-redaction';
 
 export interface ShareLinkOptions {
   certificateIds: string[];
@@ -8,17 +12,160 @@ export interface ShareLinkOptions {
   isPasswordProtected: boolean;
   password?: string;
   maxDownloads?: number;
+  /** Extra certificate attachments to include alongside each certificate's file */
+  attachmentIds?: string[];
+  /** Resolve each certificate to its newest renewal when the link is opened */
+  followLatest?: boolean;
+  /** Keys for encrypted vault files, added to the link fragment only */
+  fileKeys?: Record<string, string>;
+  /** Only these addresses can open the link, after verifying a code emailed to them */
+  recipientEmails?: string[];
+  /** Certificate details the link does not show; removed on the server */
+  hiddenFields?: RedactableField[];
+  /** Stamp downloaded files with the viewer, share and time */
+  watermark?: boolean;
+  /** Extra line for the watermark */
+  watermarkText?: string;
 }
 
+export type ShareAccessReason =
+  | 'not_found'
+  | 'revoked'
+  | 'expired'
+  | 'download_limit'
+  | 'password_required'
+  | 'invalid_password'
+  | 'verification_required'
+  | 'invalid_code'
+  | 'code_expired'
+  | 'too_many_attempts'
+  | 'watermark_unavailable';
+
 /**
- * Generates a secure sharing link for certificates
+ * Share details that are safe to expose to a share visitor
+ */
+export interface ResolvedShare {
+  id: string;
+  expires_at: string | null;
+  is_password_protected: boolean;
+  max_downloads: number | null;
+  download_count: number;
+  view_count: number;
+  /** Visitors must verify a recipient address before the certificates are shown */
+  requires_verification?: boolean;
+  /** Certificate details the owner has hidden from this link */
+  hidden_fields?: RedactableField[];
+  /** Downloaded files are watermarked for the viewer by the server */
+  watermark?: boolean;
+  watermark_text?: string | null;
+}
+
+/**
+ * Attachment details that are safe to expose to a share visitor. `file_url`
+ * is only set on download responses and expires shortly after.
+ */
+export interface SharedAttachment {
+  id: string;
+  certificate_id: string;
+  label: string;
+  version: number;
+  file_type: string | null;
+  file_size: number | null;
+  is_encrypted?: boolean;
+  created_at: string;
+  file_url?: string;
+}
+
+export type SharedCertificate = Certificate & { attachments?: SharedAttachment[] };
+
+export type ShareResolution =
+  | {
+      isValid: true;
+      share: ResolvedShare;
+      certificates: SharedCertificate[];
+      attachment?: SharedAttachment;
+      /** The verified address, for recipient-bound links */
+      recipientEmail?: string | null;
+      /** Set when a code was just verified; send it with later requests */
+      verificationToken?: string;
+    }
+  | {
+      isValid: false;
+      reason: ShareAccessReason;
+      share?: ResolvedShare;
+      codeSent?: boolean;
+      /** Set when an access request for an unusable link was accepted */
+      requestSent?: boolean;
+    };
+
+/**
+ * A file downloaded through a watermarked link, marked for the viewer by the
+ * `resolve-share` edge function. Always a PDF.
+ */
+export interface WatermarkedDownload {
+  isValid: true;
+  file: Blob;
+}
+
+/**
+ * What a visitor enters when asking for access to a link that has expired,
+ * been revoked or run out of downloads
+ */
+export interface ShareAccessRequestDetails {
+  name: string;
+  email: string;
+  organisation?: string;
+  reason: string;
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'download_limit' | 'revoked';
+
+// Columns the owner sees when managing shares; the password hash stays on the server
+const SHARE_COLUMNS =
+  'id, user_id, url, token, certificate_ids, attachment_ids, follow_latest, recipient_emails, hidden_fields, watermark, watermark_text, created_at, expires_at, is_password_protected, max_downloads, download_count, view_count, is_revoked';
+
+const ACCESS_REQUEST_COLUMNS =
+  'id, share_id, user_id, name, email, organisation, reason, status, issued_share_id, created_at, decided_at, notified_at';
+
+// A fresh token and the link it is opened with
+const createShareToken = () => {
+  const token = generateSecureToken(16);
+  return { token, url: `${window.location.origin}/share/${token}` };
+};
+
+const requireUserId = async () => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new DataError('unauthenticated', 'Your session has ended. Please sign in again.');
+  return user.id;
+};
+
+// Updates one of the user's shares and returns it as stored
+const updateShare = async (shareId: string, changes: Partial<LinkShare>): Promise<LinkShare> => {
+  const { data, error } = await supabase
+    .from('link_shares')
+    .update(changes)
+    .eq('id', shareId)
+    .select(SHARE_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data as LinkShare;
+};
+
+/**
+ * Creates and stores a share link for certificates
  * @param options Options for the share link
- * @returns Promise resolving to the generated share link URL
+ * @returns Promise resolving to the stored share and the link to hand out, including any key fragment
  */
-export const generateShareLink = async (options: ShareLinkOptions): Promise<string> => {
+export const createShareLink = async (options: ShareLinkOptions): Promise<{ share: LinkShare; link: string }> => {
   try {
-    // Generate secure token
-    const token = generateSecureToken(16);
+    // Watermarks are drawn on the server, which cannot read vault files
+    if (options.watermark && Object.keys(options.fileKeys || {}).length > 0) {
+      throw new DataError('invalid', 'Watermarked links cannot include vault-encrypted files.');
+    }
+
+    const userId = await requireUserId();
+    const { token, url } = createShareToken();
     
     // Calculate expiry date
     const expiresAt = options.expiryDays > 0 
@@ -30,48 +177,107 @@ export const generateShareLink = async (options: ShareLinkOptions): Promise<stri
     if (options.isPasswordProtected && options.password) {
       passwordHash = await hashPassword(options.password);
     }
-    
-    // Generate full URL
-    const baseUrl = window.location.origin;
-    const url = `${baseUrl}/share/${token}`;
-    
-    // Try to store in database
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user) {
-        const { error } = await supabase
-          .from('link_shares')
-          .insert({
-            user_id: user.id,
-            token: token,
-            url: url,
-            certificate_ids: options.certificateIds,
-            expires_at: expiresAt,
-            is_password_protected: options.isPasswordProtected,
-            password_hash: passwordHash,
-            max_downloads: options.maxDownloads,
-            download_count: 0,
-            view_count: 0,
-            is_revoked: false,
-            created_at: new Date().toISOString()
-          });
-          
-        if (error) {
-          console.error('Error storing share link:', error);
-        }
-      }
-    } catch (err) {
-      console.error('Error storing share link:', err);
-      // Continue even if database storage fails
-    }
-    
-    return url;
+
+    // A link that is not stored cannot be opened, so failures are passed on
+    const { data, error } = await supabase
+      .from('link_shares')
+      .insert({
+        user_id: userId,
+        token: token,
+        url: url,
+        certificate_ids: options.certificateIds,
+        attachment_ids: options.attachmentIds?.length ? options.attachmentIds : null,
+        follow_latest: options.followLatest || false,
+        recipient_emails: options.recipientEmails?.length
+          ? options.recipientEmails.map(email => email.trim().toLowerCase())
+          : null,
+        hidden_fields: normaliseHiddenFields(options.hiddenFields),
+        watermark: options.watermark || false,
+        watermark_text: options.watermark ? options.watermarkText?.trim() || null : null,
+        expires_at: expiresAt,
+        is_password_protected: options.isPasswordProtected,
+        password_hash: passwordHash,
+        max_downloads: options.maxDownloads,
+        download_count: 0,
+        view_count: 0,
+        is_revoked: false,
+        created_at: new Date().toISOString()
+      })
+      .select(SHARE_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    const share = data as LinkShare;
+    return { share, link: getShareLinkUrl(share, options.fileKeys || {}) };
+  } catch (err) {
+    console.error('Error storing share link:', err);
+    throw toDataError(err);
+  }
+};
+
+/**
+ * Generates a secure sharing link for certificates
+ * @param options Options for the share link
+ * @returns Promise resolving to the generated share link URL
+ */
+export const generateShareLink = async (options: ShareLinkOptions): Promise<string> => {
+  try {
+    const { link } = await createShareLink(options);
+    return link;
   } catch (err) {
     console.error('Error generating share link:', err);
     throw new Error('Failed to generate share link');
   }
 };
 
+/**
+ * Builds the link to hand out for a stored share
+ * @param share The share
+ * @param fileKeys Unwrapped keys for its encrypted files, which only ever travel in the fragment
+ * @returns The share URL with any key fragment
+ */
+export const getShareLinkUrl = (share: Pick<LinkShare, 'url'>, fileKeys: Record<string, string>): string =>
+  `${share.url}${buildKeyFragment(fileKeys)}`;
+
+/**
+ * Lists every share link the signed-in user has created, newest first
+ * @returns Promise resolving to the shares, including expired and revoked ones
+ */
+export const listShareLinks = async (): Promise<LinkShare[]> => {
+  try {
+    const userId = await requireUserId();
+    const { data, error } = await supabase
+      .from('link_shares')
+      .select(SHARE_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as LinkShare[];
+  } catch (err) {
+    console.error('Error listing share links:', err);
+    throw toDataError(err);
+  }
+};
+
+/**
+ * Works out whether a share link can still be opened, using the same rules
+ * as the `resolve-share` edge function
+ * @param share The share
+ * @param now Time to check against
+ * @returns The share's status
+ */
+export const getShareLinkStatus = (
+  share: Pick<LinkShare, 'is_revoked' | 'expires_at' | 'max_downloads' | 'download_count'>,
+  now = Date.now()
+): ShareLinkStatus => {
+  if (share.is_revoked) return 'revoked';
+  if (share.expires_at && new Date(share.expires_at).getTime() < now) return 'expired';
+  if (share.max_downloads && share.download_count >= share.max_downloads) return 'download_limit';
+  return 'active';
+};
+
 /**
  * Revokes a sharing link
  * @param shareId ID of the share to revoke
@@ -97,41 +303,416 @@ export const revokeShareLink = async (shareId: string): Promise<boolean> => {
 };
 
 /**
- * Validates a share token
- * @param token The token to validate
- * @returns Promise resolving to the share data or null if invalid
+ * Changes when a share link expires and how many downloads it allows
+ * @param shareId ID of the share
+ * @param changes New expiry (null for never) and download limit (null for unlimited)
+ * @returns Promise resolving to the updated share
  */
-export const validateShareToken = async (token: string): Promise<any> => {
+export const updateShareLimits = async (
+  shareId: string,
+  changes: Pick<LinkShare, 'expires_at' | 'max_downloads'>
+): Promise<LinkShare> => {
   try {
-    const { data, error } = await supabase
+    return await updateShare(shareId, {
+      expires_at: changes.expires_at,
+      max_downloads: changes.max_downloads
+    });
+  } catch (err) {
+    console.error('Error updating share link:', err);
+    throw toDataError(err);
+  }
+};
+
+/**
+ * Replaces a share's token, so the old link stops working and the share's
+ * settings and counts carry over to the new one
+ * @param shareId ID of the share
+ * @returns Promise resolving to the share with its new token and URL
+ */
+export const rotateShareToken = async (shareId: string): Promise<LinkShare> => {
+  try {
+    return await updateShare(shareId, createShareToken());
+  } catch (err) {
+    console.error('Error rotating share token:', err);
+    throw toDataError(err);
+  }
+};
+
+/**
+ * Creates a new share with the same certificates, attachments, password,
+ * hidden details, watermark and download limit as an existing one. The copy
+ * starts with no views or downloads and lasts as long as the original did
+ * from when it was created.
+ * @param shareId ID of the share to copy
+ * @returns Promise resolving to the new share
+ */
+export const duplicateShareLink = async (shareId: string): Promise<LinkShare> => {
+  try {
+    const userId = await requireUserId();
+    const { data: original, error: fetchError } = await supabase
       .from('link_shares')
       .select('*')
-      .eq('token', token)
+      .eq('id', shareId)
+      .eq('user_id', userId)
       .single();
-      
+
+    if (fetchError) throw fetchError;
+
+    const lifetime = original.expires_at
+      ? new Date(original.expires_at).getTime() - new Date(original.created_at).getTime()
+      : null;
+
+    const { data, error } = await supabase
+      .from('link_shares')
+      .insert({
+        ...createShareToken(),
+        user_id: userId,
+        certificate_ids: original.certificate_ids,
+        attachment_ids: original.attachment_ids,
+        follow_latest: original.follow_latest,
+        recipient_emails: original.recipient_emails,
+        hidden_fields: original.hidden_fields,
+        watermark: original.watermark,
+        watermark_text: original.watermark_text,
+        expires_at: lifetime !== null ? new Date(Date.now() + lifetime).toISOString() : null,
+        is_password_protected: original.is_password_protected,
+        password_hash: original.password_hash,
+        max_downloads: original.max_downloads,
+        download_count: 0,
+        view_count: 0,
+        is_revoked: false,
+        created_at: new Date().toISOString()
+      })
+      .select(SHARE_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return data as LinkShare;
+  } catch (err) {
+    console.error('Error duplicating share link:', err);
+    throw toDataError(err);
+  }
+};
+
+/**
+ * Collects the wrapped keys of a share's encrypted certificate and attachment
+ * files, so its link can be rebuilt with a key fragment
+ * @param share The share
+ * @returns Promise resolving to a map of certificate or attachment ID to wrapped file key
+ */
+export const getWrappedShareKeys = async (
+  share: Pick<LinkShare, 'certificate_ids' | 'attachment_ids' | 'hidden_fields'>
+): Promise<Record<string, string>> => {
+  // Links that hide the file share no files to decrypt
+  if (share.hidden_fields?.includes('file')) return {};
+
+  try {
+    const [certificates, attachments] = await Promise.all([
+      supabase.from('certificates').select('id, is_encrypted, file_key').in('id', share.certificate_ids),
+      share.attachment_ids?.length
+        ? supabase.from('certificate_attachments').select('id, is_encrypted, file_key').in('id', share.attachment_ids)
+        : Promise.resolve({ data: [], error: null })
+    ]);
+
+    if (certificates.error) throw certificates.error;
+    if (attachments.error) throw attachments.error;
+
+    const keys: Record<string, string> = {};
+    for (const row of [...(certificates.data || []), ...(attachments.data || [])]) {
+      if (row.is_encrypted && row.file_key) {
+        keys[row.id] = row.file_key;
+      }
+    }
+    return keys;
+  } catch (err) {
+    console.error('Error getting share file keys:', err);
+    throw toDataError(err);
+  }
+};
+
+// Calls the resolve-share edge function; null means it could not be reached
+const callResolveShare = async <T = ShareResolution>(body: Record<string, unknown>, failure: string): Promise<T | null> => {
+  try {
+    const { data, error } = await supabase.functions.invoke('resolve-share', { body });
+
     if (error) {
-      console.error('Error validating share token:', error);
+      console.error(`${failure}:`, error);
       return null;
     }
-    
-    // Check if revoked
-    if (data.is_revoked) {
-      return { isValid: false, reason: 'revoked' };
-    }
-    
-    // Check expiration
-    if (data.expires_at && new Date(data.expires_at) < new Date()) {
-      return { isValid: false, reason: 'expired' };
+
+    return data as T;
+  } catch (err) {
+    console.error(`${failure}:`, err);
+    return null;
+  }
+};
+
+/**
+ * Resolves a share token on the server. Expiry, revocation, download limits,
+ * the password and recipient verification are all checked by the
+ * `resolve-share` edge function, and only the certificates the share grants
+ * access to are returned.
+ * @param token The share token from the URL
+ * @param password Password for protected shares
+ * @param verificationToken Token from verifying a recipient-bound link
+ * @returns Promise resolving to the resolution result or null if the server could not be reached
+ */
+export const resolveShareToken = (
+  token: string,
+  password?: string,
+  verificationToken?: string
+): Promise<ShareResolution | null> =>
+  callResolveShare({ token, password, verificationToken, action: 'view' }, 'Error resolving share token');
+
+/**
+ * Records a download on the server and returns the certificate to download,
+ * or for watermarked links the file already marked for the viewer. The
+ * download count is incremented atomically, so a share cannot be downloaded
+ * more than `max_downloads` times.
+ * @param token The share token from the URL
+ * @param certificateId ID of the certificate being downloaded
+ * @param password Password for protected shares
+ * @param attachmentId ID of a shared attachment to download instead of the certificate file
+ * @param verificationToken Token from verifying a recipient-bound link
+ * @returns Promise resolving to the resolution result or marked file, or null if the server could not be reached
+ */
+export const downloadSharedCertificate = async (
+  token: string,
+  certificateId: string,
+  password?: string,
+  attachmentId?: string,
+  verificationToken?: string
+): Promise<ShareResolution | WatermarkedDownload | null> => {
+  const result = await callResolveShare<ShareResolution | Blob>(
+    { token, password, verificationToken, action: 'download', certificateId, attachmentId },
+    'Error downloading shared certificate'
+  );
+
+  // Watermarked files come back as the file itself
+  return result instanceof Blob
+    ? { isValid: true, file: new Blob([result], { type: 'application/pdf' }) }
+    : result;
+};
+
+/**
+ * Asks the owner of a link that can no longer be opened for access. The
+ * request is stored by the `resolve-share` edge function, which notifies the
+ * owner; visitors cannot read requests back.
+ * @param token The share token from the URL
+ * @param details Who is asking and why
+ * @returns Promise resolving to the resolution result or null if the server could not be reached
+ */
+export const requestShareAccess = (
+  token: string,
+  details: ShareAccessRequestDetails
+): Promise<ShareResolution | null> =>
+  callResolveShare({ token, action: 'request_access', accessRequest: details }, 'Error requesting share access');
+
+/**
+ * Asks the server to email a one-time code for a recipient-bound link. The
+ * answer is the same whether or not the link was shared with the address.
+ * @param token The share token from the URL
+ * @param email Address the visitor says the link was shared with
+ * @param password Password for protected shares
+ * @returns Promise resolving to the resolution result or null if the server could not be reached
+ */
+export const requestShareCode = (
+  token: string,
+  email: string,
+  password?: string
+): Promise<ShareResolution | null> =>
+  callResolveShare({ token, password, email, action: 'request_code' }, 'Error requesting share code');
+
+/**
+ * Checks a one-time code for a recipient-bound link. When it matches, the
+ * certificates are returned with a `verificationToken` for later requests.
+ * @param token The share token from the URL
+ * @param email Address the code was sent to
+ * @param code The code from the email
+ * @param password Password for protected shares
+ * @returns Promise resolving to the resolution result or null if the server could not be reached
+ */
+export const verifyShareCode = (
+  token: string,
+  email: string,
+  code: string,
+  password?: string
+): Promise<ShareResolution | null> =>
+  callResolveShare({ token, password, email, code, action: 'verify_code' }, 'Error verifying share code');
+
+// Verification tokens last for the browser tab, so reloading the share page
+// does not ask for a new code
+const VERIFICATION_STORAGE_PREFIX = 'shareVerification:';
+
+/**
+ * Reads the verification token saved for a share link in this tab
+ * @param token The share token from the URL
+ * @returns The verification token, if any
+ */
+export const getStoredShareVerification = (token: string): string | undefined => {
+  try {
+    return sessionStorage.getItem(`${VERIFICATION_STORAGE_PREFIX}${token}`) || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Saves or clears the verification token for a share link in this tab
+ * @param token The share token from the URL
+ * @param verificationToken Token to save, or null to clear it
+ */
+export const storeShareVerification = (token: string, verificationToken: string | null): void => {
+  try {
+    if (verificationToken) {
+      sessionStorage.setItem(`${VERIFICATION_STORAGE_PREFIX}${token}`, verificationToken);
+    } else {
+      sessionStorage.removeItem(`${VERIFICATION_STORAGE_PREFIX}${token}`);
     }
-    
-    // Check max downloads
-    if (data.max_downloads && data.download_count >= data.max_downloads) {
-      return { isValid: false, reason: 'download_limit' };
+  } catch (err) {
+    console.error('Error saving share verification:', err);
+  }
+};
+
+/**
+ * Lists access requests for the signed-in user's links, newest first
+ * @returns Promise resolving to the requests, including answered ones
+ */
+export const listAccessRequests = async (): Promise<ShareAccessRequest[]> => {
+  try {
+    const userId = await requireUserId();
+    const { data, error } = await supabase
+      .from('share_access_requests')
+      .select(ACCESS_REQUEST_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as ShareAccessRequest[];
+  } catch (err) {
+    console.error('Error listing access requests:', err);
+    throw toDataError(err);
+  }
+};
+
+// Moves a pending request to its answer. Only one answer wins if the request
+// is answered from two places at once
+const answerAccessRequest = async (
+  requestId: string,
+  changes: Partial<ShareAccessRequest>
+): Promise<ShareAccessRequest> => {
+  const { data, error } = await supabase
+    .from('share_access_requests')
+    .update({ ...changes, decided_at: new Date().toISOString() })
+    .eq('id', requestId)
+    .eq('status', 'pending')
+    .select(ACCESS_REQUEST_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new DataError('conflict', 'This request has already been answered.');
+  return data as ShareAccessRequest;
+};
+
+// Emails the requester the answer; false if it could not be sent. An issued
+// link is emailed without its key fragment, which never leaves the browser.
+const notifyAccessRequester = async (requestId: string): Promise<boolean> => {
+  try {
+    const { data, error } = await supabase.functions.invoke('notify-access-request', {
+      body: { requestId }
+    });
+
+    if (error) throw error;
+    return Boolean(data?.sent);
+  } catch (err) {
+    console.error('Error notifying access requester:', err);
+    return false;
+  }
+};
+
+/**
+ * Approves an access request by creating a new link to the same certificates
+ * that only the requester's address can open, and emails it to them. The new
+ * link has the original's attachments, hidden details, watermark and
+ * download limit but no password. The email never carries the keys for
+ * encrypted files; the owner has to send the full link another way.
+ * @param requestId ID of the request
+ * @param options How long the new link lasts, and unwrapped keys for any encrypted files
+ * @returns Promise resolving to the answered request, the new share and its full link, whether the link was emailed, and whether the emailed link lacks keys
+ */
+export const approveAccessRequest = async (
+  requestId: string,
+  options: { expiryDays: number; fileKeys?: Record<string, string> }
+): Promise<{ request: ShareAccessRequest; share: LinkShare; link: string; emailed: boolean; needsKeys: boolean }> => {
+  try {
+    const request = await answerAccessRequest(requestId, { status: 'approved' });
+
+    let issued: { share: LinkShare; link: string };
+    try {
+      const { data: original, error } = await supabase
+        .from('link_shares')
+        .select('*')
+        .eq('id', request.share_id)
+        .single();
+
+      if (error) throw error;
+
+      issued = await createShareLink({
+        certificateIds: original.certificate_ids,
+        attachmentIds: original.attachment_ids || undefined,
+        followLatest: original.follow_latest,
+        recipientEmails: [request.email],
+        hiddenFields: original.hidden_fields,
+        watermark: original.watermark,
+        watermarkText: original.watermark_text || undefined,
+        expiryDays: options.expiryDays,
+        isPasswordProtected: false,
+        maxDownloads: original.max_downloads || undefined,
+        fileKeys: options.fileKeys
+      });
+    } catch (err) {
+      // Put the request back so it can be answered again
+      await supabase
+        .from('share_access_requests')
+        .update({ status: 'pending', decided_at: null })
+        .eq('id', requestId);
+      throw err;
     }
-    
-    return { isValid: true, data };
+
+    const { data, error } = await supabase
+      .from('share_access_requests')
+      .update({ issued_share_id: issued.share.id })
+      .eq('id', requestId)
+      .select(ACCESS_REQUEST_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    return {
+      request: data as ShareAccessRequest,
+      ...issued,
+      emailed: await notifyAccessRequester(requestId),
+      needsKeys: issued.link !== issued.share.url
+    };
   } catch (err) {
-    console.error('Error validating share token:', err);
-    return null;
+    console.error('Error approving access request:', err);
+    throw toDataError(err);
+  }
+};
+
+/**
+ * Denies an access request and lets the requester know by email
+ * @param requestId ID of the request
+ * @returns Promise resolving to the answered request and whether the requester was emailed
+ */
+export const denyAccessRequest = async (
+  requestId: string
+): Promise<{ request: ShareAccessRequest; emailed: boolean }> => {
+  try {
+    const request = await answerAccessRequest(requestId, { status: 'denied' });
+    return { request, emailed: await notifyAccessRequester(requestId) };
+  } catch (err) {
+    console.error('Error denying access request:', err);
+    throw toDataError(err);
   }
-};
\ No newline at end of file
+};
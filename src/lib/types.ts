@@ -1,3 +1,5 @@
+import type { RedactableField } from '@shared/share-redaction';
+
 export interface Profile {
   id: string;
   name: string;
@@ -6,6 +8,9 @@ export interface Profile {
   updated_at?: string;
 }
 
+// 'immediate' sends one reminder per certificate; the others send a digest
+export type NotificationFrequency = 'immediate' | 'daily' | 'weekly';
+
 export interface Settings {
   id: string;
   user_id: string;
@@ -14,10 +19,14 @@ export interface Settings {
   expiry_reminders_days: number;
   auto_renewal_reminders: boolean;
   dark_mode?: boolean;
-  notification_frequency?: string;
+  notification_frequency?: NotificationFrequency;
+  vault_enabled?: boolean;
+  vault_key_check?: string | null;
   updated_at?: string;
 }
 
+export type CertificateStatus = 'valid' | 'expiring' | 'expired';
+
 export interface Certificate {
   id: string;
   user_id: string;
@@ -25,13 +34,64 @@ export interface Certificate {
   type: string;
   expiry_date: string | null;
   completion_date: string;
-  status: 'valid' | 'expiring' | 'expired';
+  status: CertificateStatus;
   issuer: string;
   cert_number: string;
   description: string;
+  file_path?: string | null;
+  // Short-lived signed URL, only set on certificates returned by resolve-share
   file_url?: string;
+  file_type?: string | null;
+  is_encrypted?: boolean;
+  file_key?: string | null;
+  lineage_id?: string;
+  previous_certificate_id?: string | null;
+  is_archived?: boolean;
+  archived_at?: string | null;
   created_at?: string;
   updated_at?: string;
+  // Set when the upload policy removed the stored file after it was saved
+  file_rejected?: boolean;
+  file_rejected_reason?: string | null;
+  // Local copy of the uploaded file, only present in the current session
+  file?: File;
+}
+
+export interface CertificateAttachment {
+  id: string;
+  certificate_id: string;
+  user_id: string;
+  label: string;
+  version: number;
+  file_path: string;
+  file_type: string | null;
+  file_size: number | null;
+  checksum: string | null;
+  is_encrypted?: boolean;
+  file_key?: string | null;
+  // Set when the upload policy removed the stored file after it was saved
+  file_rejected?: boolean;
+  file_rejected_reason?: string | null;
+  created_at: string;
+}
+
+// A browser that accepted push notifications; see src/lib/push.ts
+export interface PushSubscriptionRecord {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  user_agent?: string | null;
+  created_at: string;
+  last_used_at?: string | null;
+}
+
+export interface CalendarFeed {
+  user_id: string;
+  token: string;
+  created_at: string;
+  last_accessed_at?: string | null;
 }
 
 export interface EmailShare {
@@ -55,9 +115,45 @@ export interface LinkShare {
   expires_at: string | null;
   is_password_protected: boolean;
   password_hash?: string;
-  max_downloads?: number;
+  max_downloads?: number | null;
   download_count: number;
+  view_count: number;
   is_revoked: boolean;
+  attachment_ids?: string[] | null;
+  follow_latest?: boolean;
+  recipient_emails?: string[] | null;
+  /** Certificate details the link does not show */
+  hidden_fields?: RedactableField[];
+  /** Files downloaded through the link are watermarked for the viewer */
+  watermark?: boolean;
+  watermark_text?: string | null;
+}
+
+export type ShareAccessRequestStatus = 'pending' | 'approved' | 'denied';
+
+export interface ShareAccessRequest {
+  id: string;
+  share_id: string;
+  user_id: string;
+  name: string;
+  email: string;
+  organisation: string | null;
+  reason: string;
+  status: ShareAccessRequestStatus;
+  issued_share_id: string | null;
+  created_at: string;
+  decided_at: string | null;
+  notified_at: string | null;
+}
+
+export interface CertificateRenewal {
+  completion_date: string;
+  expiry_date: string | null;
+  cert_number?: string;
+  file_path?: string | null;
+  file_type?: string | null;
+  is_encrypted?: boolean;
+  file_key?: string | null;
 }
 
 export interface AccessLog {
@@ -0,0 +1,280 @@
+import { Upload, DetailedError, PreviousUpload } from 'tus-js-client';
+import { supabase } from './supabase';
+import { computeChecksum } from './security-utils';
+
+// Resumable (TUS) uploads to the certificates bucket. Every file goes through
+// one queue so several can upload at once with real progress, and each can be
+// paused, resumed, retried or cancelled from the upload panel.
+
+export type UploadStatus = 'queued' | 'uploading' | 'paused' | 'retrying' | 'completed' | 'failed' | 'cancelled';
+
+export interface UploadTask {
+  id: string;
+  /** File name shown to the user */
+  name: string;
+  /** Storage path the file is written to */
+  objectName: string;
+  size: number;
+  bytesUploaded: number;
+  status: UploadStatus;
+  /** Automatic retries since the last chunk was accepted */
+  retries: number;
+  error: string | null;
+}
+
+export interface EnqueueUploadOptions {
+  objectName: string;
+  contentType: string;
+  /** File name shown to the user; defaults to the file's own name */
+  name?: string;
+}
+
+const BUCKET = 'certificates';
+
+const CANCELLED_MESSAGE = 'Upload cancelled';
+
+// Files uploading at the same time; the rest wait in the queue
+export const MAX_CONCURRENT_UPLOADS = 3;
+
+// Supabase storage only accepts 6MB chunks for resumable uploads
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+// Wait before each automatic retry, doubling up to 30 seconds
+const RETRY_DELAYS = [1000, 2000, 4000, 8000, 16000, 30000];
+
+const ENDPOINT = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+
+interface QueueEntry {
+  file: Blob;
+  upload: Upload | null;
+  options: EnqueueUploadOptions;
+  resolve: (objectName: string) => void;
+  reject: (error: Error) => void;
+}
+
+let tasks: UploadTask[] = [];
+const entries = new Map<string, QueueEntry>();
+const listeners = new Set<() => void>();
+
+const ACTIVE_STATUSES: UploadStatus[] = ['uploading', 'retrying'];
+const FINISHED_STATUSES: UploadStatus[] = ['completed', 'cancelled'];
+
+const updateTask = (id: string, changes: Partial<UploadTask>) => {
+  tasks = tasks.map(task => (task.id === id ? { ...task, ...changes } : task));
+  listeners.forEach(listener => listener());
+};
+
+const getTask = (id: string) => tasks.find(task => task.id === id);
+
+// Server errors and dropped connections are retried; rejected requests are not
+const isRetryable = (error: DetailedError) => {
+  const status = error.originalResponse?.getStatus() ?? 0;
+  return status === 0 || status >= 500 || status === 409 || status === 423 || status === 429;
+};
+
+// Partial uploads of the same contents are resumed, even after a reload
+const fingerprint = async (file: File | Blob) =>
+  `xafewallet-${file.size}-${await computeChecksum(file)}`;
+
+const folderOf = (objectName: string) => objectName.split('/')[0];
+
+// A partial upload of the same file to the same user's folder, if one was left behind
+const findResumableUpload = async (upload: Upload, objectName: string): Promise<PreviousUpload | null> => {
+  try {
+    const previous = await upload.findPreviousUploads();
+    return previous.find(candidate =>
+      candidate.metadata.bucketName === BUCKET &&
+      candidate.metadata.objectName &&
+      folderOf(candidate.metadata.objectName) === folderOf(objectName)
+    ) || null;
+  } catch (err) {
+    console.error('Error finding previous uploads:', err);
+    return null;
+  }
+};
+
+const createUpload = (id: string, entry: QueueEntry) => new Upload(entry.file, {
+  endpoint: ENDPOINT,
+  chunkSize: CHUNK_SIZE,
+  retryDelays: RETRY_DELAYS,
+  uploadDataDuringCreation: true,
+  removeFingerprintOnSuccess: true,
+  fingerprint: (file: File) => fingerprint(file),
+  metadata: {
+    bucketName: BUCKET,
+    objectName: entry.options.objectName,
+    contentType: entry.options.contentType,
+    cacheControl: '3600'
+  },
+  headers: {
+    apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+    'x-upsert': 'false'
+  },
+  // Long uploads can outlive an access token, so each request gets the current one
+  onBeforeRequest: async (req) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (session) req.setHeader('Authorization', `Bearer ${session.access_token}`);
+  },
+  onProgress: (bytesUploaded) => {
+    updateTask(id, { bytesUploaded });
+  },
+  onChunkComplete: () => {
+    if (getTask(id)?.retries) updateTask(id, { status: 'uploading', retries: 0 });
+  },
+  onShouldRetry: (error, retryAttempt) => {
+    if (!isRetryable(error)) return false;
+    updateTask(id, { status: 'retrying', retries: retryAttempt + 1, error: error.message });
+    return true;
+  },
+  onError: (error) => {
+    console.error('Error uploading file:', error);
+    updateTask(id, { status: 'failed', error: error.message });
+    pumpQueue();
+  },
+  onSuccess: () => {
+    const task = getTask(id);
+    entries.delete(id);
+    updateTask(id, { status: 'completed', bytesUploaded: task?.size ?? 0, error: null });
+    entry.resolve(task?.objectName ?? entry.options.objectName);
+    pumpQueue();
+  }
+});
+
+const startTask = async (id: string) => {
+  const entry = entries.get(id);
+  if (!entry) return;
+  updateTask(id, { status: 'uploading', retries: 0, error: null });
+
+  if (!entry.upload) {
+    entry.upload = createUpload(id, entry);
+    const previous = await findResumableUpload(entry.upload, entry.options.objectName);
+    if (previous) {
+      // The server already has part of this file under the earlier path, which
+      // is also used if the partial upload has expired and starts over
+      const { objectName } = previous.metadata;
+      entry.upload.options.metadata = { ...entry.upload.options.metadata, objectName };
+      updateTask(id, { objectName });
+      entry.upload.resumeFromPreviousUpload(previous);
+    }
+  }
+
+  // Paused or cancelled while looking for a previous upload
+  if (getTask(id)?.status !== 'uploading') return;
+  entry.upload.start();
+};
+
+// Starts queued uploads while there are free slots
+const pumpQueue = () => {
+  let active = tasks.filter(task => ACTIVE_STATUSES.includes(task.status)).length;
+  for (const task of tasks) {
+    if (active >= MAX_CONCURRENT_UPLOADS) break;
+    if (task.status === 'queued') {
+      active++;
+      void startTask(task.id);
+    }
+  }
+};
+
+/**
+ * Adds a file to the upload queue
+ * @param file File to upload
+ * @param options Storage path and content type
+ * @returns Promise resolving to the storage path once the upload completes,
+ * or rejecting if it is cancelled
+ */
+export const enqueueUpload = (file: Blob, options: EnqueueUploadOptions): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const id = crypto.randomUUID();
+    entries.set(id, { file, upload: null, options, resolve, reject });
+    tasks = [...tasks, {
+      id,
+      name: options.name || (file instanceof File ? file.name : options.objectName.split('/').pop() || 'file'),
+      objectName: options.objectName,
+      size: file.size,
+      bytesUploaded: 0,
+      status: 'queued',
+      retries: 0,
+      error: null
+    }];
+    listeners.forEach(listener => listener());
+    pumpQueue();
+  });
+
+/**
+ * Pauses an upload; it keeps its progress and can be resumed later
+ * @param id Upload task ID
+ */
+export const pauseUpload = async (id: string): Promise<void> => {
+  const task = getTask(id);
+  if (!task || !['queued', 'uploading', 'retrying'].includes(task.status)) return;
+
+  updateTask(id, { status: 'paused' });
+  await entries.get(id)?.upload?.abort();
+  pumpQueue();
+};
+
+/**
+ * Resumes a paused upload, or tries a failed one again from where it stopped
+ * @param id Upload task ID
+ */
+export const resumeUpload = (id: string): void => {
+  const task = getTask(id);
+  if (!task || !['paused', 'failed'].includes(task.status)) return;
+
+  updateTask(id, { status: 'queued', retries: 0, error: null });
+  pumpQueue();
+};
+
+/**
+ * Cancels an upload and discards what has been sent so far
+ * @param id Upload task ID
+ */
+export const cancelUpload = async (id: string): Promise<void> => {
+  const entry = entries.get(id);
+  if (!entry) return;
+
+  entries.delete(id);
+  updateTask(id, { status: 'cancelled' });
+  try {
+    await entry.upload?.abort(true);
+  } catch (err) {
+    console.error('Error discarding cancelled upload:', err);
+  }
+  entry.reject(new Error(CANCELLED_MESSAGE));
+  pumpQueue();
+};
+
+/**
+ * Checks whether an upload failed because it was cancelled from the upload panel
+ * @param err Error thrown by the upload
+ * @returns True if the upload was cancelled
+ */
+export const isUploadCancelled = (err: unknown): boolean =>
+  err instanceof Error && err.message === CANCELLED_MESSAGE;
+
+/**
+ * Removes completed and cancelled uploads from the queue
+ */
+export const clearFinishedUploads = (): void => {
+  tasks = tasks.filter(task => !FINISHED_STATUSES.includes(task.status));
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Gets the current uploads. The array is replaced, not changed, on every
+ * update, so it can be compared by reference.
+ * @returns Upload tasks in the order they were added
+ */
+export const getUploadTasks = (): UploadTask[] => tasks;
+
+/**
+ * Subscribes to upload queue changes
+ * @param listener Called after every change
+ * @returns Function that unsubscribes
+ */
+export const subscribeToUploads = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
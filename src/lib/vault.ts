@@ -0,0 +1,152 @@
+import { encryptBlob, decryptBlob, encryptData, decryptData } from './security-utils';
+
+// Known plain text encrypted with the vault passphrase and stored in
+// settings.vault_key_check, so a wrong passphrase is caught on unlock
+const VAULT_CHECK_TEXT = 'xafewallet-vault-v1';
+const FILE_KEY_BYTES = 32;
+const KEY_FRAGMENT_PREFIX = 'keys=';
+
+// The passphrase only ever lives in memory for the current tab
+let vaultPassphrase: string | null = null;
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+/**
+ * Creates the value stored in settings.vault_key_check for a new vault
+ * @param passphrase Vault passphrase chosen by the user
+ * @returns Promise resolving to the encrypted check value
+ */
+export const createVaultCheck = async (passphrase: string): Promise<string> => {
+  return encryptData(VAULT_CHECK_TEXT, passphrase);
+};
+
+/**
+ * Unlocks the vault for this tab
+ * @param passphrase Vault passphrase entered by the user
+ * @param vaultCheck The stored settings.vault_key_check value
+ * @returns Promise resolving to boolean indicating if the passphrase is correct
+ */
+export const unlockVault = async (passphrase: string, vaultCheck: string): Promise<boolean> => {
+  try {
+    const checkText = await decryptData(vaultCheck, passphrase);
+    if (checkText !== VAULT_CHECK_TEXT) {
+      return false;
+    }
+    vaultPassphrase = passphrase;
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Forgets the vault passphrase for this tab
+ */
+export const lockVault = (): void => {
+  vaultPassphrase = null;
+};
+
+/**
+ * Checks whether the vault passphrase is available in this tab
+ * @returns True if the vault is unlocked
+ */
+export const isVaultUnlocked = (): boolean => {
+  return vaultPassphrase !== null;
+};
+
+/**
+ * Encrypts a certificate file before upload. Each file gets its own random
+ * key, which is wrapped with the vault passphrase so individual files can be
+ * shared without revealing the passphrase.
+ * @param file Original certificate file
+ * @returns Promise resolving to the encrypted file and the wrapped file key
+ */
+export const encryptVaultFile = async (
+  file: File
+): Promise<{ encryptedFile: File; wrappedKey: string }> => {
+  if (!vaultPassphrase) {
+    throw new Error('Vault is locked');
+  }
+
+  const fileKey = toBase64Url(crypto.getRandomValues(new Uint8Array(FILE_KEY_BYTES)));
+  const encrypted = await encryptBlob(file, fileKey, { kdf: 'hkdf' });
+  const wrappedKey = await encryptData(fileKey, vaultPassphrase);
+
+  return {
+    encryptedFile: new File([encrypted], `${file.name}.xwe`, { type: 'application/octet-stream' }),
+    wrappedKey
+  };
+};
+
+/**
+ * Recovers the key for a single encrypted file
+ * @param wrappedKey The certificate's stored file_key
+ * @returns Promise resolving to the file key
+ */
+export const unwrapFileKey = async (wrappedKey: string): Promise<string> => {
+  if (!vaultPassphrase) {
+    throw new Error('Vault is locked');
+  }
+  return decryptData(wrappedKey, vaultPassphrase);
+};
+
+/**
+ * Downloads and decrypts an encrypted certificate file
+ * @param url Location of the encrypted file
+ * @param fileKey Key for this file
+ * @param type MIME type of the original file
+ * @returns Promise resolving to the decrypted file contents
+ */
+export const fetchAndDecryptFile = async (
+  url: string,
+  fileKey: string,
+  type?: string
+): Promise<Blob> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch encrypted file: ${response.status}`);
+  }
+  return decryptBlob(await response.blob(), fileKey, { type });
+};
+
+/**
+ * Builds the URL fragment that carries file keys in a share link. Browsers do
+ * not send the fragment to the server, so the keys never leave the client.
+ * @param fileKeys Map of certificate ID to file key
+ * @returns Fragment including the leading '#', or an empty string
+ */
+export const buildKeyFragment = (fileKeys: Record<string, string>): string => {
+  const entries = Object.entries(fileKeys);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `#${KEY_FRAGMENT_PREFIX}${entries
+    .map(([id, key]) => `${encodeURIComponent(id)}.${key}`)
+    .join(',')}`;
+};
+
+/**
+ * Reads file keys from a share link fragment
+ * @param hash The location hash, e.g. window.location.hash
+ * @returns Map of certificate ID to file key
+ */
+export const parseKeyFragment = (hash: string): Record<string, string> => {
+  const fragment = hash.replace(/^#/, '');
+  if (!fragment.startsWith(KEY_FRAGMENT_PREFIX)) {
+    return {};
+  }
+
+  const keys: Record<string, string> = {};
+  for (const entry of fragment.slice(KEY_FRAGMENT_PREFIX.length).split(',')) {
+    const separator = entry.lastIndexOf('.');
+    if (separator > 0) {
+      keys[decodeURIComponent(entry.slice(0, separator))] = entry.slice(separator + 1);
+    }
+  }
+  return keys;
+};
@@ -0,0 +1,442 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import { supabase } from './supabase';
+import { database } from './database';
+import { validateCertificateFile } from './file-validation';
+import { ENCRYPTED_FILE_TYPE, isEncryptedFile } from '@shared/file-policy';
+import { computeChecksum } from './security-utils';
+import { Certificate, CertificateAttachment, Profile, Settings } from './types';
+
+// Identifies XafeWallet backups; bump BACKUP_SCHEMA_VERSION whenever the
+// manifest shape changes and add an upgrade step to MANIFEST_UPGRADES
+export const BACKUP_FORMAT = 'xafewallet-backup';
+export const BACKUP_SCHEMA_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+const FILES_DIR = 'files';
+
+type Row = Record<string, unknown>;
+
+export interface BackupCertificate extends Certificate {
+  /** Path of the certificate's file inside the archive */
+  archive_path?: string | null;
+}
+
+export interface BackupAttachment extends CertificateAttachment {
+  archive_path?: string | null;
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  schema_version: number;
+  exported_at: string;
+  profile: Partial<Profile> | null;
+  settings: Partial<Settings> | null;
+  certificates: BackupCertificate[];
+  attachments: BackupAttachment[];
+  link_shares: Row[];
+  email_shares: Row[];
+  access_logs: Row[];
+}
+
+export interface RestoreResult {
+  certificates: number;
+  attachments: number;
+  files: number;
+  warnings: string[];
+}
+
+// A file from the archive once it is back in storage
+interface RestoredFile {
+  path: string;
+  /** Type of the cleaned file, or null for vault files, which keep their recorded type */
+  type: string | null;
+  size: number;
+  /** Checksum of the cleaned file, or null for vault files, which keep their recorded checksum */
+  checksum: string | null;
+}
+
+// What a restore has added so far, so a failed restore can be undone
+interface RestoreProgress {
+  certificateIds: string[];
+  attachmentIds: string[];
+  filePaths: string[];
+}
+
+// Upgrades a manifest from the keyed version to the next one. Old backups are
+// passed through every step up to BACKUP_SCHEMA_VERSION before restoring.
+const MANIFEST_UPGRADES: Record<number, (manifest: Row) => Row> = {};
+
+// Never exported: share secrets that are of no use outside the original account
+const SHARE_SECRET_FIELDS = ['password_hash', 'token'];
+
+const requireUser = async () => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('You need to be signed in');
+  return user;
+};
+
+const omitFields = (row: Row, fields: string[]): Row => {
+  const copy = { ...row };
+  fields.forEach(field => delete copy[field]);
+  return copy;
+};
+
+const fileExtension = (path: string) => {
+  const match = path.match(/\.([a-z0-9]+)$/i);
+  return match ? `.${match[1].toLowerCase()}` : '';
+};
+
+const downloadStoredFile = async (path: string): Promise<Uint8Array> => {
+  const { data, error } = await supabase.storage.from('certificates').download(path);
+  if (error || !data) throw error || new Error(`File ${path} is missing`);
+  return new Uint8Array(await data.arrayBuffer());
+};
+
+const selectOwnRows = async <T = Row>(table: string, userId: string): Promise<T[]> => {
+  const { data, error } = await supabase.from(table).select('*').eq('user_id', userId);
+  if (error) throw error;
+  return (data || []) as T[];
+};
+
+/**
+ * Builds a backup archive of everything in the signed-in user's wallet:
+ * profile, settings, certificates (including renewal history), attachments,
+ * shares, access logs and all stored files. Vault-encrypted files stay
+ * encrypted and need the same vault passphrase after restoring.
+ * @param onProgress Optional callback with the number of files fetched so far
+ * @returns Promise resolving to the ZIP archive
+ */
+export const exportWallet = async (
+  onProgress?: (completed: number, total: number) => void
+): Promise<Blob> => {
+  const user = await requireUser();
+
+  const [{ data: profile }, { data: settings }] = await Promise.all([
+    supabase.from('profiles').select('*').eq('id', user.id).maybeSingle(),
+    supabase.from('settings').select('*').eq('user_id', user.id).maybeSingle()
+  ]);
+
+  const [certificates, attachments, linkShares, emailShares] = await Promise.all([
+    selectOwnRows<BackupCertificate>('certificates', user.id),
+    selectOwnRows<BackupAttachment>('certificate_attachments', user.id),
+    selectOwnRows('link_shares', user.id),
+    selectOwnRows('email_shares', user.id)
+  ]);
+
+  let accessLogs: Row[] = [];
+  if (certificates.length > 0) {
+    const { data, error } = await supabase
+      .from('access_logs')
+      .select('*')
+      .in('certificate_id', certificates.map(cert => cert.id));
+    if (error) throw error;
+    accessLogs = data || [];
+  }
+
+  // Each stored file is added once, however many records point at it
+  const archivePaths = new Map<string, string>();
+  [...attachments, ...certificates].forEach(record => {
+    if (record.file_path && !archivePaths.has(record.file_path)) {
+      archivePaths.set(record.file_path, `${FILES_DIR}/${record.id}${fileExtension(record.file_path)}`);
+    }
+  });
+
+  const entries: Record<string, Uint8Array> = {};
+  let completed = 0;
+  for (const [storagePath, archivePath] of archivePaths) {
+    entries[archivePath] = await downloadStoredFile(storagePath);
+    onProgress?.(++completed, archivePaths.size);
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    schema_version: BACKUP_SCHEMA_VERSION,
+    exported_at: new Date().toISOString(),
+    profile: profile || null,
+    settings: settings || null,
+    certificates: certificates.map(cert => ({
+      ...cert,
+      archive_path: cert.file_path ? archivePaths.get(cert.file_path) : null
+    })),
+    attachments: attachments.map(attachment => ({
+      ...attachment,
+      archive_path: archivePaths.get(attachment.file_path) || null
+    })),
+    link_shares: linkShares.map(share => omitFields(share, SHARE_SECRET_FIELDS)),
+    email_shares: emailShares,
+    access_logs: accessLogs
+  };
+
+  entries[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+
+  // Files are mostly PDFs and images that do not compress further
+  const zip = zipSync(entries, { level: 0 });
+  return new Blob([zip], { type: 'application/zip' });
+};
+
+/**
+ * Reads and validates the manifest of a backup archive, upgrading backups
+ * made by older versions of XafeWallet
+ * @param entries Unzipped archive entries
+ * @returns The manifest in the current schema
+ */
+export const readBackupManifest = (entries: Record<string, Uint8Array>): BackupManifest => {
+  if (!entries[MANIFEST_PATH]) {
+    throw new Error('This is not a XafeWallet backup: manifest.json is missing');
+  }
+
+  let manifest = JSON.parse(strFromU8(entries[MANIFEST_PATH])) as Row;
+  if (manifest.format !== BACKUP_FORMAT || typeof manifest.schema_version !== 'number') {
+    throw new Error('This is not a XafeWallet backup');
+  }
+
+  if (manifest.schema_version > BACKUP_SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version of XafeWallet. Update the app to restore it.');
+  }
+
+  for (let version = manifest.schema_version; version < BACKUP_SCHEMA_VERSION; version++) {
+    const upgrade = MANIFEST_UPGRADES[version];
+    if (!upgrade) {
+      throw new Error(`Backups with schema version ${version} can no longer be restored`);
+    }
+    manifest = { ...upgrade(manifest), schema_version: version + 1 };
+  }
+
+  return manifest as unknown as BackupManifest;
+};
+
+// Removes everything a failed restore added, newest first so renewals go
+// before the certificates they point at
+const undoRestore = async (progress: RestoreProgress): Promise<boolean> => {
+  let undone = true;
+
+  for (const id of [...progress.attachmentIds].reverse()) {
+    const { error } = await supabase.from('certificate_attachments').delete().eq('id', id);
+    if (error) undone = false;
+  }
+
+  for (const id of [...progress.certificateIds].reverse()) {
+    const { error } = await supabase.from('certificates').delete().eq('id', id);
+    if (error) undone = false;
+  }
+
+  if (progress.filePaths.length > 0) {
+    const { error } = await supabase.storage.from('certificates').remove(progress.filePaths);
+    if (error) undone = false;
+  }
+
+  return undone;
+};
+
+// Certificates are restored so that lineage roots and predecessors exist
+// before the renewals that point at them
+const restoreOrder = (certificates: BackupCertificate[]) =>
+  [...certificates].sort((a, b) => {
+    const aRoot = !a.lineage_id || a.lineage_id === a.id ? 0 : 1;
+    const bRoot = !b.lineage_id || b.lineage_id === b.id ? 0 : 1;
+    return aRoot - bRoot || (a.created_at || '').localeCompare(b.created_at || '');
+  });
+
+/**
+ * Restores a backup archive into the signed-in account. Certificates, their
+ * renewal history, attachments and files are recreated with new ids; profile
+ * and settings are overwritten. Shares and access logs are kept in the archive
+ * for reference only, since old share links cannot be moved to a new account.
+ * Files are checked and cleaned like new uploads. If anything fails, what was
+ * already restored is removed again so the restore can simply be retried.
+ * @param archive Backup ZIP created by exportWallet
+ * @param onProgress Optional callback with the number of certificates restored so far
+ * @returns Promise resolving to what was restored
+ */
+export const restoreWallet = async (
+  archive: File,
+  onProgress?: (completed: number, total: number) => void
+): Promise<RestoreResult> => {
+  const user = await requireUser();
+  const entries = unzipSync(new Uint8Array(await archive.arrayBuffer()));
+  const manifest = readBackupManifest(entries);
+  const result: RestoreResult = { certificates: 0, attachments: 0, files: 0, warnings: [] };
+  const progress: RestoreProgress = { certificateIds: [], attachmentIds: [], filePaths: [] };
+
+  // Files are uploaded once and shared by every record that used them
+  const restoredFiles = new Map<string, RestoredFile | null>();
+  const restoreFile = async (archivePath?: string | null): Promise<RestoredFile | null> => {
+    if (!archivePath) return null;
+    if (restoredFiles.has(archivePath)) return restoredFiles.get(archivePath)!;
+
+    const data = entries[archivePath];
+    if (!data) {
+      result.warnings.push(`${archivePath} is missing from the backup`);
+      restoredFiles.set(archivePath, null);
+      return null;
+    }
+
+    const name = archivePath.split('/').pop() || archivePath;
+    let file: File;
+    let checksum: string | null = null;
+    if (isEncryptedFile(data)) {
+      // Vault files cannot be inspected; storage only checks their name and type
+      file = new File([data], name, { type: ENCRYPTED_FILE_TYPE });
+    } else {
+      // Cleaned like a new upload, or the upload policy would delete it once stored
+      try {
+        ({ file } = await validateCertificateFile(new File([data], name)));
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : 'it is not an allowed file';
+        result.warnings.push(`${archivePath} was skipped: ${reason}`);
+        restoredFiles.set(archivePath, null);
+        return null;
+      }
+      checksum = await computeChecksum(file);
+    }
+
+    const restored: RestoredFile = {
+      path: await database.certificates.uploadFile(file, name),
+      type: checksum ? file.type : null,
+      size: file.size,
+      checksum
+    };
+    progress.filePaths.push(restored.path);
+    restoredFiles.set(archivePath, restored);
+    result.files++;
+    return restored;
+  };
+
+  try {
+    const certificateIds = new Map<string, string>();
+    const certificates = restoreOrder(manifest.certificates);
+
+    for (const cert of certificates) {
+      const file = await restoreFile(cert.archive_path);
+
+      const { data, error } = await supabase
+        .from('certificates')
+        .insert({
+          user_id: user.id,
+          title: cert.title,
+          type: cert.type,
+          issuer: cert.issuer,
+          cert_number: cert.cert_number,
+          description: cert.description,
+          completion_date: cert.completion_date,
+          expiry_date: cert.expiry_date,
+          status: cert.status,
+          file_path: file?.path || null,
+          file_type: file ? file.type || cert.file_type : null,
+          is_encrypted: file ? !!cert.is_encrypted : false,
+          file_key: file ? cert.file_key || null : null,
+          lineage_id: cert.lineage_id && cert.lineage_id !== cert.id
+            ? certificateIds.get(cert.lineage_id) || null
+            : null,
+          previous_certificate_id: cert.previous_certificate_id
+            ? certificateIds.get(cert.previous_certificate_id) || null
+            : null,
+          is_archived: !!cert.is_archived,
+          archived_at: cert.archived_at || null,
+          created_at: cert.created_at,
+          updated_at: new Date().toISOString()
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      progress.certificateIds.push(data.id);
+      certificateIds.set(cert.id, data.id);
+      result.certificates++;
+      onProgress?.(result.certificates, certificates.length);
+    }
+
+    // Inserting versions in order recreates the same version numbers
+    const attachments = [...manifest.attachments].sort((a, b) =>
+      a.certificate_id.localeCompare(b.certificate_id)
+      || a.label.localeCompare(b.label)
+      || a.version - b.version
+    );
+
+    for (const attachment of attachments) {
+      const certificateId = certificateIds.get(attachment.certificate_id);
+      if (!certificateId) continue;
+
+      const file = await restoreFile(attachment.archive_path);
+      if (!file) continue;
+
+      const { data, error } = await supabase
+        .from('certificate_attachments')
+        .insert({
+          certificate_id: certificateId,
+          user_id: user.id,
+          label: attachment.label,
+          version: attachment.version,
+          file_path: file.path,
+          file_type: file.type || attachment.file_type,
+          file_size: file.checksum ? file.size : attachment.file_size,
+          checksum: file.checksum || attachment.checksum,
+          is_encrypted: !!attachment.is_encrypted,
+          file_key: attachment.file_key || null,
+          created_at: attachment.created_at
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      progress.attachmentIds.push(data.id);
+      result.attachments++;
+    }
+
+    // Profile and settings go last, so a failed restore leaves them as they were
+    if (manifest.profile) {
+      const { error } = await supabase.from('profiles').upsert({
+        id: user.id,
+        name: manifest.profile.name,
+        position: manifest.profile.position,
+        updated_at: new Date().toISOString()
+      });
+      if (error) throw error;
+    }
+
+    if (manifest.settings) {
+      const { data: currentSettings } = await supabase
+        .from('settings')
+        .select('vault_key_check')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      const restoredSettings = omitFields(manifest.settings as Row, ['id', 'user_id', 'updated_at']);
+
+      // Keep an existing vault rather than replacing it with the backup's
+      if (currentSettings?.vault_key_check && currentSettings.vault_key_check !== manifest.settings.vault_key_check) {
+        delete restoredSettings.vault_enabled;
+        delete restoredSettings.vault_key_check;
+        result.warnings.push('This account already has a different vault. Encrypted files from the backup cannot be opened with it.');
+      }
+
+      const { error } = await supabase
+        .from('settings')
+        .upsert({ ...restoredSettings, user_id: user.id }, { onConflict: 'user_id' });
+      if (error) throw error;
+    }
+  } catch (err) {
+    console.error('Error restoring backup:', err);
+    if (await undoRestore(progress)) {
+      throw new Error('The backup could not be restored. Nothing was added to your wallet, so you can try again.');
+    }
+    throw new Error('The backup could not be restored, and some certificates it added could not be removed. Check your wallet for duplicates before trying again.');
+  }
+
+  return result;
+};
+
+/**
+ * Saves a backup archive to the user's device
+ * @param backup Archive created by exportWallet
+ */
+export const downloadWalletBackup = (backup: Blob): void => {
+  const url = URL.createObjectURL(backup);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `xafewallet-backup-${new Date().toISOString().split('T')[0]}.zip`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
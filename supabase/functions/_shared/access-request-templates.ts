@@ -0,0 +1,174 @@
+// Emails about requests for access to a share link that can no longer be
+// opened, sent by the resolve-share and notify-access-request edge functions.
+
+export interface AccessRequestTemplate {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface AccessRequestDetails {
+  name: string;
+  email: string;
+  organisation?: string | null;
+  reason: string;
+}
+
+// Everything in a request is typed by a visitor, so it is escaped before going into HTML
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const renderLayout = (heading: string, body: string, footer: string): string => `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="padding: 30px; border: 1px solid #e2e8f0; border-radius: 8px;">
+        <h2 style="color: #1e293b; margin-top: 0;">${heading}</h2>
+
+        ${body}
+
+        <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; font-size: 12px; color: #94a3b8;">
+          <p>${footer}</p>
+          <p>© ${new Date().getFullYear()} XafeWallet. All rights reserved.</p>
+        </div>
+      </div>
+    </div>
+  `;
+
+const formatDate = (date: string): string => {
+  const [year, month, day] = date.slice(0, 10).split('-');
+  return `${day}/${month}/${year}`;
+};
+
+/**
+ * Generate the email telling an owner that someone asked for access to one of their links
+ * @param request What the visitor entered
+ * @param certificateTitles Titles of the certificates the link shared
+ * @param appUrl Link to the app, where the request can be answered
+ * @returns Email template
+ */
+export const generateAccessRequestTemplate = (
+  request: AccessRequestDetails,
+  certificateTitles: string[],
+  appUrl?: string
+): AccessRequestTemplate => {
+  const requester = request.organisation ? `${request.name} (${request.organisation})` : request.name;
+  const certificates = certificateTitles.length > 0 ? certificateTitles.join(', ') : 'your certificates';
+  const link = appUrl
+    ? `<p><a href="${appUrl}" style="color: #3b82f6;">Open the Shares tab in XafeWallet</a> to approve or deny it.</p>`
+    : '<p style="color: #475569;">Open the Shares tab in XafeWallet to approve or deny it.</p>';
+
+  const html = renderLayout(
+    'Someone asked to see your certificates',
+    `<p style="color: #475569; line-height: 1.6;">
+          ${escapeHtml(requester)} &lt;${escapeHtml(request.email)}&gt; opened a link to
+          ${escapeHtml(certificates)} that can no longer be used, and asked for access:
+        </p>
+
+        <div style="background-color: #f8fafc; padding: 15px; border-left: 4px solid #3b82f6; margin: 20px 0; border-radius: 4px;">
+          <p style="color: #475569; font-style: italic; margin: 0; white-space: pre-wrap;">${escapeHtml(request.reason)}</p>
+        </div>
+
+        ${link}`,
+    'Approving sends them a new link that only their email address can open.'
+  );
+
+  const text = `
+SOMEONE ASKED TO SEE YOUR CERTIFICATES
+
+${requester} <${request.email}> opened a link to ${certificates} that can no longer be used, and asked for access:
+
+${request.reason}
+
+Open the Shares tab in XafeWallet${appUrl ? ` (${appUrl})` : ''} to approve or deny it. Approving sends them a new link that only their email address can open.
+  `;
+
+  return {
+    subject: `${request.name} asked for access to your certificates`,
+    html,
+    text
+  };
+};
+
+/**
+ * Generate the email sending an approved requester their new link
+ * @param senderName Name of the certificates' owner
+ * @param link The new share link
+ * @param expiresAt When the link stops working, or null if it does not
+ * @param hasEncryptedFiles Whether files need the keys the owner sends separately
+ * @returns Email template
+ */
+export const generateAccessApprovedTemplate = (
+  senderName: string,
+  link: string,
+  expiresAt: string | null,
+  hasEncryptedFiles = false
+): AccessRequestTemplate => {
+  const expiry = expiresAt ? `The link works until ${formatDate(expiresAt)}.` : '';
+  const keys = hasEncryptedFiles
+    ? `Some files are encrypted. ${senderName} will send you the full link that opens them separately.`
+    : '';
+
+  const html = renderLayout(
+    'Your request was approved',
+    `<p style="color: #475569; line-height: 1.6;">
+          ${escapeHtml(senderName)} approved your request to see their certificates on XafeWallet.
+          The link only opens for this email address; you will be sent a code to confirm it.
+        </p>
+
+        <p style="text-align: center; margin: 30px 0;">
+          <a href="${escapeHtml(link)}" style="background-color: #3b82f6; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">View Certificates</a>
+        </p>
+
+        ${expiry ? `<p style="color: #475569;">${expiry}</p>` : ''}
+        ${keys ? `<p style="color: #475569;">${escapeHtml(keys)}</p>` : ''}`,
+    'You are receiving this because you asked for access to a shared link.'
+  );
+
+  const text = `
+YOUR REQUEST WAS APPROVED
+
+${senderName} approved your request to see their certificates on XafeWallet. The link only opens for this email address; you will be sent a code to confirm it.
+
+${link}
+
+${expiry}
+${keys}
+  `;
+
+  return {
+    subject: `${senderName} shared certificates with you on XafeWallet`,
+    html,
+    text
+  };
+};
+
+/**
+ * Generate the email telling a requester their request was not approved
+ * @param senderName Name of the certificates' owner
+ * @returns Email template
+ */
+export const generateAccessDeniedTemplate = (senderName: string): AccessRequestTemplate => {
+  const html = renderLayout(
+    'Your request was not approved',
+    `<p style="color: #475569; line-height: 1.6;">
+          ${escapeHtml(senderName)} did not approve your request to see their certificates on
+          XafeWallet. Please contact them directly if you still need access.
+        </p>`,
+    'You are receiving this because you asked for access to a shared link.'
+  );
+
+  const text = `
+YOUR REQUEST WAS NOT APPROVED
+
+${senderName} did not approve your request to see their certificates on XafeWallet. Please contact them directly if you still need access.
+  `;
+
+  return {
+    subject: 'Your request for certificate access',
+    html,
+    text
+  };
+};
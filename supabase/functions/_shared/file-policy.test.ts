@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { decompressSync, strToU8, zlibSync } from 'fflate';
+import { checkStoredFile, inspectPdf, neutralizePdfActiveContent } from './file-policy';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const pdf = (body: string) => encoder.encode(`%PDF-1.7\n${body}\n%%EOF\n`);
+
+// A PDF whose objects are all inside a compressed object stream
+const pdfWithObjectStream = (objects: string) => {
+  const compressed = zlibSync(strToU8(objects));
+  const head = encoder.encode(`%PDF-1.7\n5 0 obj\n<< /Type /ObjStm /N 1 /First 4 /Filter /FlateDecode /Length ${compressed.length} >>\nstream\n`);
+  const tail = encoder.encode('\nendstream\nendobj\n%%EOF\n');
+  const bytes = new Uint8Array(head.length + compressed.length + tail.length);
+  bytes.set(head);
+  bytes.set(compressed, head.length);
+  bytes.set(tail, head.length + compressed.length);
+  return bytes;
+};
+
+describe('PDF active content', () => {
+  it('allows an open action that only sets the page and zoom', () => {
+    const inspection = inspectPdf(pdf('1 0 obj << /Type /Catalog /OpenAction [3 0 R /Fit] >> endobj'), decompressSync);
+
+    expect(inspection).toEqual({ activeContent: [], hiddenActiveContent: [] });
+  });
+
+  it('allows a page-and-zoom open action inside an object stream', () => {
+    const inspection = inspectPdf(pdfWithObjectStream('1 0 << /Type /Catalog /OpenAction [3 0 R /Fit] >>'), decompressSync);
+
+    expect(inspection.hiddenActiveContent).toEqual([]);
+  });
+
+  it('reports an open action that runs a script', () => {
+    const inspection = inspectPdf(
+      pdfWithObjectStream('1 0 << /Type /Catalog /OpenAction << /S /JavaScript /JS (app.alert(1)) >> >>'),
+      decompressSync
+    );
+
+    expect(inspection.hiddenActiveContent).toEqual(['OpenAction', 'JavaScript', 'JS']);
+  });
+
+  it('reports an additional action that launches a program', () => {
+    const inspection = inspectPdf(pdf('1 0 obj << /AA << /O 2 0 R >> >> endobj 2 0 obj << /S /Launch /F (calc) >> endobj'), decompressSync);
+
+    expect(inspection.activeContent).toEqual(['AA', 'Launch']);
+  });
+
+  it('disables actions in plain objects without changing the length', () => {
+    const original = pdf('1 0 obj << /OpenAction << /S /JavaScript /JS (app.alert(1)) >> >> endobj');
+    const { bytes, removed } = neutralizePdfActiveContent(original);
+
+    expect(bytes).toHaveLength(original.length);
+    expect(removed).toEqual(['OpenAction', 'JavaScript', 'JS']);
+    expect(decoder.decode(bytes)).toContain('/_penAction << /S /_avaScript /_S');
+    expect(inspectPdf(bytes, decompressSync)).toEqual({ activeContent: [], hiddenActiveContent: [] });
+  });
+
+  it('accepts stored PDFs with harmless open actions', () => {
+    const bytes = pdf('1 0 obj << /Type /Catalog /OpenAction [3 0 R /Fit] >> endobj');
+
+    expect(checkStoredFile('user/file.pdf', 'application/pdf', bytes, decompressSync)).toBeNull();
+  });
+});
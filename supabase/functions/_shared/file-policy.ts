@@ -0,0 +1,251 @@
+// Upload policy for certificate files, enforced by the validate-upload edge
+// function. The browser checks files against it before upload, so it has no
+// imports.
+
+// Maximum file size in bytes (10MB); also the limit for email attachments
+export const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// Allowed file types, detected from file contents, and the extension each is stored with
+export const ALLOWED_FILE_TYPES = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png'
+} as const;
+
+export type AllowedFileType = keyof typeof ALLOWED_FILE_TYPES;
+
+// Vault-encrypted files cannot be inspected; they are recognised by the
+// envelope header written by encryptBlob in security-utils.ts
+export const ENCRYPTED_FILE_TYPE = 'application/octet-stream';
+export const ENCRYPTED_FILE_EXTENSION = 'xwe';
+const ENVELOPE_MAGIC = [0x58, 0x57, 0x45]; // "XWE"
+
+// Bytes needed to recognise any allowed type; PDF headers may be preceded by
+// up to 1KB of other data
+export const SNIFF_LENGTH = 1024;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const JPEG_SIGNATURE = [0xff, 0xd8, 0xff];
+const PDF_SIGNATURE = '%PDF-';
+
+// PDF names that run code, open other files or carry files inside the PDF
+export const PDF_ACTIVE_CONTENT = [
+  'JavaScript',
+  'JS',
+  'OpenAction',
+  'AA',
+  'Launch',
+  'GoToR',
+  'GoToE',
+  'SubmitForm',
+  'ImportData',
+  'EmbeddedFile',
+  'EmbeddedFiles',
+  'FileAttachment',
+  'RichMedia',
+  'XFA'
+];
+
+// Names that start an action by themselves, e.g. when the PDF opens. Many
+// generated PDFs use them harmlessly ("/OpenAction [3 0 R /Fit]" only sets the
+// first page and zoom), so they only count as active content when the PDF
+// also has an action that runs code, starts a program or sends or loads data
+const PDF_ACTION_TRIGGERS = ['OpenAction', 'AA'];
+const PDF_DANGEROUS_ACTIONS = ['JavaScript', 'JS', 'Launch', 'SubmitForm', 'ImportData'];
+
+export interface PdfInspection {
+  /** Active content in plain PDF objects; can be neutralised in place */
+  activeContent: string[];
+  /** Active content inside compressed object streams, or streams that could not be read */
+  hiddenActiveContent: string[];
+}
+
+// Decompresses a FlateDecode stream; supplied by the caller so this file needs no dependencies
+export type Inflate = (data: Uint8Array) => Uint8Array;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  bytes.length >= offset + signature.length && signature.every((b, i) => bytes[offset + i] === b);
+
+// One character per byte, so string offsets are byte offsets
+const toBinaryString = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+};
+
+/**
+ * Detects a file's type from its first bytes, ignoring its name and the type
+ * reported by the browser
+ * @param bytes At least the first SNIFF_LENGTH bytes of the file
+ * @returns The allowed type the file is, or null if it is none of them
+ */
+export const sniffFileType = (bytes: Uint8Array): AllowedFileType | null => {
+  if (startsWith(bytes, PNG_SIGNATURE)) return 'image/png';
+  if (startsWith(bytes, JPEG_SIGNATURE)) return 'image/jpeg';
+  if (toBinaryString(bytes.subarray(0, SNIFF_LENGTH)).includes(PDF_SIGNATURE)) return 'application/pdf';
+  return null;
+};
+
+/**
+ * Checks for the header of a vault-encrypted file
+ * @param bytes First bytes of the file
+ * @returns True if the file is a vault-encrypted envelope
+ */
+export const isEncryptedFile = (bytes: Uint8Array): boolean => startsWith(bytes, ENVELOPE_MAGIC);
+
+// PDF names are "/" followed by regular characters, with "#xx" hex escapes
+const PDF_NAME = /\/((?:[^\s()<>[\]{}/%#]|#[0-9a-fA-F]{2})+)/g;
+
+const decodePdfName = (name: string) =>
+  name.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+// Blanks out stream data (images, fonts, page content), where a byte sequence
+// that looks like a name is just data and must not be changed
+const maskStreams = (text: string) =>
+  text.replace(/(\bstream\r?\n)([\s\S]*?)(endstream)/g, (_, start, data, end) => start + ' '.repeat(data.length) + end);
+
+const findActiveNames = (text: string): { name: string; index: number }[] => {
+  const found: { name: string; index: number }[] = [];
+  for (const match of maskStreams(text).matchAll(PDF_NAME)) {
+    const name = decodePdfName(match[1]);
+    if (PDF_ACTIVE_CONTENT.includes(name)) {
+      found.push({ name, index: match.index ?? 0 });
+    }
+  }
+  return found;
+};
+
+// Contents of each compressed object stream ("/Type /ObjStm"), which can hold
+// any object including scripts
+const readObjectStreams = (text: string, bytes: Uint8Array, inflate: Inflate): (string | null)[] => {
+  const streams: (string | null)[] = [];
+
+  for (const match of text.matchAll(/\/Type\s*\/ObjStm\b/g)) {
+    const keyword = text.indexOf('stream', match.index);
+    const end = text.indexOf('endstream', keyword);
+    if (keyword === -1 || end === -1) {
+      streams.push(null);
+      continue;
+    }
+
+    let start = keyword + 'stream'.length;
+    if (text[start] === '\r') start++;
+    if (text[start] === '\n') start++;
+
+    try {
+      streams.push(toBinaryString(inflate(bytes.subarray(start, end))));
+    } catch {
+      streams.push(null);
+    }
+  }
+
+  return streams;
+};
+
+const unique = (names: string[]) => [...new Set(names)];
+
+/**
+ * Looks for scripts, actions and embedded files in a PDF. Automatic actions
+ * are only reported when the PDF has a dangerous action for them to start.
+ * @param bytes PDF file contents
+ * @param inflate Decompresses object streams so they can be checked too
+ * @returns The active content found
+ */
+export const inspectPdf = (bytes: Uint8Array, inflate: Inflate): PdfInspection => {
+  const text = toBinaryString(bytes);
+  const plain = findActiveNames(text).map(found => found.name);
+  const hidden: string[] = [];
+
+  readObjectStreams(text, bytes, inflate).forEach(stream => {
+    if (stream === null) {
+      hidden.push('unreadable object stream');
+    } else {
+      hidden.push(...findActiveNames(stream).map(found => found.name));
+    }
+  });
+
+  const hasDangerousAction = [...plain, ...hidden].some(name => PDF_DANGEROUS_ACTIONS.includes(name));
+  const reported = (names: string[]) =>
+    unique(hasDangerousAction ? names : names.filter(name => !PDF_ACTION_TRIGGERS.includes(name)));
+
+  return {
+    activeContent: reported(plain),
+    hiddenActiveContent: reported(hidden)
+  };
+};
+
+/**
+ * Disables scripts, actions and embedded files in a PDF by renaming their
+ * keys, e.g. /JavaScript to /_avaScript. Viewers ignore keys they do not
+ * know, and the file keeps its length so its cross-reference table stays valid.
+ * Content inside compressed object streams is not changed; check
+ * inspectPdf's hiddenActiveContent for that.
+ * @param bytes PDF file contents
+ * @returns The cleaned PDF and the names that were disabled
+ */
+export const neutralizePdfActiveContent = (bytes: Uint8Array): { bytes: Uint8Array; removed: string[] } => {
+  const found = findActiveNames(toBinaryString(bytes));
+  if (found.length === 0) return { bytes, removed: [] };
+
+  const cleaned = bytes.slice();
+  found.forEach(({ index }) => {
+    cleaned[index + 1] = 0x5f; // "_"
+  });
+
+  return { bytes: cleaned, removed: unique(found.map(({ name }) => name)) };
+};
+
+// Extensions accepted in storage paths for each type
+const STORED_EXTENSIONS: Record<AllowedFileType, string[]> = {
+  'application/pdf': ['pdf'],
+  'image/jpeg': ['jpg', 'jpeg'],
+  'image/png': ['png']
+};
+
+/**
+ * Checks a file that is already in storage against the upload policy
+ * @param path Storage path of the file
+ * @param contentType Content type the file is served with
+ * @param bytes File contents
+ * @param inflate Decompresses PDF object streams
+ * @returns Why the file breaks the policy, or null if it is allowed
+ */
+export const checkStoredFile = (
+  path: string,
+  contentType: string,
+  bytes: Uint8Array,
+  inflate: Inflate
+): string | null => {
+  const extension = path.split('/').pop()?.split('.').pop()?.toLowerCase() || '';
+  const servedType = contentType.split(';')[0].trim().toLowerCase();
+
+  if (bytes.length > MAX_FILE_SIZE) {
+    return 'File is larger than the upload limit';
+  }
+
+  if (isEncryptedFile(bytes)) {
+    return extension === ENCRYPTED_FILE_EXTENSION && servedType === ENCRYPTED_FILE_TYPE
+      ? null
+      : 'Encrypted file stored with the wrong name or content type';
+  }
+
+  const type = sniffFileType(bytes);
+  if (!type) {
+    return 'Not a PDF, JPEG or PNG file';
+  }
+  if (!STORED_EXTENSIONS[type].includes(extension) || servedType !== type) {
+    return `Name or content type does not match its contents (${type})`;
+  }
+
+  if (type === 'application/pdf') {
+    const { activeContent, hiddenActiveContent } = inspectPdf(bytes, inflate);
+    const found = [...activeContent, ...hiddenActiveContent];
+    if (found.length > 0) {
+      return `PDF contains active content: ${found.join(', ')}`;
+    }
+  }
+
+  return null;
+};
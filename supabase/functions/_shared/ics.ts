@@ -0,0 +1,135 @@
+// iCalendar (RFC 5545) output for certificate expiry dates, used by the
+// calendar-feed edge function. It has no imports, so the dashboard export
+// builds the same events.
+
+export interface CalendarCertificate {
+  id: string;
+  title: string;
+  issuer?: string | null;
+  cert_number?: string | null;
+  expiry_date: string | null;
+  updated_at?: string | null;
+}
+
+export interface CalendarOptions {
+  /** Days before expiry to raise an alarm; 0 or less disables alarms */
+  reminderDays: number;
+  calendarName?: string;
+  appUrl?: string;
+}
+
+const PRODUCT_ID = '-//XafeWallet//Certificate Expiry//EN';
+// Hint for subscribed calendars to poll for changes
+const REFRESH_INTERVAL = 'PT12H';
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded onto continuation lines
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatDate = (date: string): string => date.slice(0, 10).replace(/-/g, '');
+
+const formatDateTime = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const nextDay = (date: string): string => {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+};
+
+const buildEvent = (certificate: CalendarCertificate, options: CalendarOptions, stamp: string): string[] => {
+  const expiryDate = certificate.expiry_date as string;
+  const details = [
+    certificate.issuer && `Issuer: ${certificate.issuer}`,
+    certificate.cert_number && `Certificate number: ${certificate.cert_number}`,
+    options.appUrl
+  ].filter(Boolean).join('\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    // Stable per certificate so calendars update the event instead of duplicating it
+    `UID:certificate-${certificate.id}@xafewallet`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatDate(expiryDate)}`,
+    `DTEND;VALUE=DATE:${formatDate(nextDay(expiryDate))}`,
+    `SUMMARY:${escapeText(`${certificate.title} expires`)}`,
+    'TRANSP:TRANSPARENT'
+  ];
+
+  if (details) {
+    lines.push(`DESCRIPTION:${escapeText(details)}`);
+  }
+  if (options.appUrl) {
+    lines.push(`URL:${options.appUrl}`);
+  }
+  if (certificate.updated_at) {
+    lines.push(`LAST-MODIFIED:${formatDateTime(new Date(certificate.updated_at))}`);
+  }
+
+  if (options.reminderDays > 0) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `TRIGGER:-P${Math.round(options.reminderDays)}D`,
+      `DESCRIPTION:${escapeText(`${certificate.title} expires in ${Math.round(options.reminderDays)} days`)}`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Builds an iCalendar document with an all-day event on the expiry date of
+ * every certificate that has one
+ * @param certificates Certificates to include; those without an expiry date are skipped
+ * @param options Alarm offset and calendar metadata
+ * @returns ICS text with CRLF line endings
+ */
+export const buildCertificateCalendar = (
+  certificates: CalendarCertificate[],
+  options: CalendarOptions
+): string => {
+  const stamp = formatDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.calendarName || 'Certificate Expiry Dates')}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`
+  ];
+
+  certificates
+    .filter(certificate => certificate.expiry_date)
+    .forEach(certificate => lines.push(...buildEvent(certificate, options, stamp)));
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { hashPassword, passwordNeedsRehash, verifyPassword } from './password';
+
+const PASSWORD = 'correct horse battery staple';
+
+// Fixed hashes, so a change that breaks passwords already stored is caught here
+const SALT = 'AAECAwQFBgcICQoLDA0ODw==';
+const PBKDF2_HASH = `pbkdf2-sha256$310000$${SALT}$e4rSQ5KQXKoMyeu1tFpEU3HMo6tplYmG7eJ280WPc/o=`;
+const WEAKER_PBKDF2_HASH = `pbkdf2-sha256$100000$${SALT}$SdScJfWXhGIJ8Nkud3CrZOHHXpS0zmxQkmXuZxddKh4=`;
+
+// Written before hashes were salted: SHA-256 of the password as hex
+const LEGACY_PASSWORD = 'legacy share password';
+const LEGACY_HASH = 'a36d4cce6205e9097c9b3e669189332042365ace8ee6242e712d3e031fb9c8d7';
+
+describe('share passwords', () => {
+  it('verifies a stored PBKDF2 hash', async () => {
+    await expect(verifyPassword(PASSWORD, PBKDF2_HASH)).resolves.toBe(true);
+    await expect(verifyPassword('wrong horse battery staple', PBKDF2_HASH)).resolves.toBe(false);
+  });
+
+  it('verifies a legacy SHA-256 hash', async () => {
+    await expect(verifyPassword(LEGACY_PASSWORD, LEGACY_HASH)).resolves.toBe(true);
+    await expect(verifyPassword(PASSWORD, LEGACY_HASH)).resolves.toBe(false);
+  });
+
+  it('round trips new hashes', async () => {
+    const hash = await hashPassword(PASSWORD);
+
+    await expect(verifyPassword(PASSWORD, hash)).resolves.toBe(true);
+    expect(passwordNeedsRehash(hash)).toBe(false);
+  });
+
+  it('asks for legacy and weaker hashes to be replaced', async () => {
+    await expect(verifyPassword(PASSWORD, WEAKER_PBKDF2_HASH)).resolves.toBe(true);
+
+    expect(passwordNeedsRehash(LEGACY_HASH)).toBe(true);
+    expect(passwordNeedsRehash(WEAKER_PBKDF2_HASH)).toBe(true);
+    expect(passwordNeedsRehash(PBKDF2_HASH)).toBe(false);
+  });
+
+  it('rejects iteration counts outside the allowed range', async () => {
+    const withIterations = (iterations: string) => PBKDF2_HASH.replace('$310000$', `$${iterations}$`);
+
+    await expect(verifyPassword(PASSWORD, withIterations('1000'))).resolves.toBe(false);
+    await expect(verifyPassword(PASSWORD, withIterations('4294967295'))).resolves.toBe(false);
+    await expect(verifyPassword(PASSWORD, withIterations('310000.5'))).resolves.toBe(false);
+  });
+});
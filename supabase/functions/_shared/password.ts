@@ -0,0 +1,159 @@
+// Share password hashing. The browser hashes passwords when a link is
+// created and the resolve-share edge function verifies them, so both import
+// this module; it has no imports.
+
+// Current password hashing parameters. Stored hashes are self-describing
+// ("<algorithm>$<iterations>$<salt>$<hash>"), so these can be raised later
+// without invalidating existing share passwords.
+const PASSWORD_HASH_ALGORITHM = 'pbkdf2-sha256';
+const PBKDF2_ITERATIONS = 310000;
+const PASSWORD_SALT_BYTES = 16;
+const PASSWORD_HASH_BYTES = 32;
+// The iteration count is read from the stored hash, so it is bounded: too few
+// would accept a weak hash, too many would tie up the function on every attempt
+const MIN_PBKDF2_ITERATIONS = 100000;
+const MAX_PBKDF2_ITERATIONS = 1000000;
+
+// Hashes created before versioning: unsalted SHA-256 as hex
+const LEGACY_SHA256_PATTERN = /^[0-9a-f]{64}$/i;
+
+interface ParsedPasswordHash {
+  algorithm: string;
+  iterations: number;
+  salt: Uint8Array;
+  hash: Uint8Array;
+}
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary);
+};
+
+const base64ToBytes = (value: string): Uint8Array => {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+};
+
+const hexToBytes = (value: string): Uint8Array => {
+  const bytes = new Uint8Array(value.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(value.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+/**
+ * Compares two byte arrays in constant time
+ * @param a First byte array
+ * @param b Second byte array
+ * @returns True if both arrays contain the same bytes
+ */
+export const timingSafeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  let diff = a.length ^ b.length;
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
+};
+
+const derivePbkdf2 = async (
+  password: string,
+  salt: Uint8Array,
+  iterations: number,
+  length: number
+): Promise<Uint8Array> => {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    keyMaterial,
+    length * 8
+  );
+
+  return new Uint8Array(bits);
+};
+
+const parsePasswordHash = (storedHash: string): ParsedPasswordHash | null => {
+  const [algorithm, iterations, salt, hash] = storedHash.split('$');
+  if (!algorithm || !iterations || !salt || !hash) {
+    return null;
+  }
+
+  const iterationCount = Number(iterations);
+  if (!Number.isInteger(iterationCount)
+    || iterationCount < MIN_PBKDF2_ITERATIONS
+    || iterationCount > MAX_PBKDF2_ITERATIONS) {
+    return null;
+  }
+
+  try {
+    return {
+      algorithm,
+      iterations: iterationCount,
+      salt: base64ToBytes(salt),
+      hash: base64ToBytes(hash)
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Hashes a password for secure storage using salted PBKDF2
+ * @param password Plain text password
+ * @returns Promise resolving to a versioned hash string
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(PASSWORD_SALT_BYTES));
+  const hash = await derivePbkdf2(password, salt, PBKDF2_ITERATIONS, PASSWORD_HASH_BYTES);
+  return [
+    PASSWORD_HASH_ALGORITHM,
+    PBKDF2_ITERATIONS,
+    bytesToBase64(salt),
+    bytesToBase64(hash)
+  ].join('$');
+};
+
+/**
+ * Verifies a password against a stored hash. Supports versioned PBKDF2 hashes
+ * as well as legacy unsalted SHA-256 hashes.
+ * @param password Plain text password to verify
+ * @param hash Stored hash to compare against
+ * @returns Promise resolving to boolean indicating if password matches
+ */
+export const verifyPassword = async (password: string, hash: string): Promise<boolean> => {
+  if (LEGACY_SHA256_PATTERN.test(hash)) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+    return timingSafeEqual(new Uint8Array(digest), hexToBytes(hash));
+  }
+
+  const parsed = parsePasswordHash(hash);
+  if (!parsed || parsed.algorithm !== PASSWORD_HASH_ALGORITHM) {
+    return false;
+  }
+
+  const derived = await derivePbkdf2(password, parsed.salt, parsed.iterations, parsed.hash.length);
+  return timingSafeEqual(derived, parsed.hash);
+};
+
+/**
+ * Checks whether a stored hash should be replaced after a successful verification
+ * @param hash Stored hash
+ * @returns True if the hash uses a legacy format or outdated parameters
+ */
+export const passwordNeedsRehash = (hash: string): boolean => {
+  const parsed = parsePasswordHash(hash);
+  return !parsed
+    || parsed.algorithm !== PASSWORD_HASH_ALGORITHM
+    || parsed.iterations < PBKDF2_ITERATIONS
+    || parsed.salt.length < PASSWORD_SALT_BYTES;
+};
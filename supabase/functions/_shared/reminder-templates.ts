@@ -0,0 +1,153 @@
+// Expiry reminder email templates, sent by the send-expiry-reminders edge
+// function.
+
+export interface ReminderCertificate {
+  title: string;
+  certNumber?: string | null;
+  expiryDate: string;
+  /** Whole days until expiry; negative once the certificate has expired */
+  daysRemaining: number;
+}
+
+export interface ReminderTemplate {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const formatExpiryDate = (date: string): string => {
+  const [year, month, day] = date.slice(0, 10).split('-');
+  return `${day}/${month}/${year}`;
+};
+
+const describeExpiry = (certificate: ReminderCertificate): string => {
+  const days = certificate.daysRemaining;
+  if (days < 0) {
+    return `expired on ${formatExpiryDate(certificate.expiryDate)}`;
+  }
+  if (days === 0) {
+    return 'expires today';
+  }
+  return `expires in ${days} day${days === 1 ? '' : 's'} (${formatExpiryDate(certificate.expiryDate)})`;
+};
+
+const renderLayout = (heading: string, body: string): string => `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="padding: 30px; border: 1px solid #e2e8f0; border-radius: 8px;">
+        <h2 style="color: #1e293b; margin-top: 0;">${heading}</h2>
+
+        ${body}
+
+        <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; font-size: 12px; color: #94a3b8;">
+          <p>You are receiving this because expiry reminders are enabled in your XafeWallet settings.</p>
+          <p>© ${new Date().getFullYear()} XafeWallet. All rights reserved.</p>
+        </div>
+      </div>
+    </div>
+  `;
+
+const renderCertificateItem = (certificate: ReminderCertificate): string => {
+  const color = certificate.daysRemaining < 0 ? '#ef4444' : '#f59e0b';
+  return `
+          <li style="margin-bottom: 8px;">
+            <strong>${certificate.title}</strong>${certificate.certNumber ? ` (${certificate.certNumber})` : ''}
+            <br /><span style="color: ${color};">${describeExpiry(certificate)}</span>
+          </li>`;
+};
+
+const renewalPrompt = (certificates: ReminderCertificate[], appUrl?: string): string => {
+  const link = appUrl ? ` <a href="${appUrl}" style="color: #3b82f6;">Open XafeWallet</a>` : '';
+  return certificates.some(c => c.daysRemaining < 0)
+    ? `Renew expired certificates and upload the new copy to keep your wallet up to date.${link}`
+    : `Plan your renewal now so there is no gap in cover.${link}`;
+};
+
+/**
+ * Generate a reminder email for a single certificate
+ * @param recipientName Name of the certificate owner
+ * @param certificate Certificate that is expiring or has expired
+ * @param appUrl Optional link back to the wallet
+ * @returns Email template
+ */
+export const generateExpiryReminderTemplate = (
+  recipientName: string,
+  certificate: ReminderCertificate,
+  appUrl?: string
+): ReminderTemplate => {
+  const expired = certificate.daysRemaining < 0;
+  const heading = expired ? 'Certificate Expired' : 'Certificate Expiring Soon';
+
+  const html = renderLayout(heading, `
+        <p style="color: #475569; line-height: 1.6;">Hi ${recipientName},</p>
+
+        <ul style="color: #475569; line-height: 1.6;">
+          ${renderCertificateItem(certificate)}
+        </ul>
+
+        <p style="color: #475569; line-height: 1.6;">${renewalPrompt([certificate], appUrl)}</p>
+  `);
+
+  const text = `
+${heading.toUpperCase()}
+
+Hi ${recipientName},
+
+${certificate.title}${certificate.certNumber ? ` (${certificate.certNumber})` : ''} ${describeExpiry(certificate)}.
+
+${expired ? 'Renew it and upload the new copy to keep your wallet up to date.' : 'Plan your renewal now so there is no gap in cover.'}
+${appUrl ? `\n${appUrl}\n` : ''}
+You are receiving this because expiry reminders are enabled in your XafeWallet settings.
+  `;
+
+  return {
+    subject: expired
+      ? `${certificate.title} has expired`
+      : `${certificate.title} ${describeExpiry(certificate).replace(/ \(.*\)$/, '')}`,
+    html,
+    text
+  };
+};
+
+/**
+ * Generate a digest email covering several certificates
+ * @param recipientName Name of the certificate owner
+ * @param certificates Certificates that are expiring or have expired
+ * @param appUrl Optional link back to the wallet
+ * @returns Email template
+ */
+export const generateExpiryDigestTemplate = (
+  recipientName: string,
+  certificates: ReminderCertificate[],
+  appUrl?: string
+): ReminderTemplate => {
+  const sorted = [...certificates].sort((a, b) => a.daysRemaining - b.daysRemaining);
+  const count = sorted.length;
+  const heading = 'Certificates Needing Attention';
+
+  const html = renderLayout(heading, `
+        <p style="color: #475569; line-height: 1.6;">
+          Hi ${recipientName}, the following certificate${count === 1 ? ' needs' : 's need'} your attention:
+        </p>
+
+        <ul style="color: #475569; line-height: 1.6;">
+          ${sorted.map(renderCertificateItem).join('')}
+        </ul>
+
+        <p style="color: #475569; line-height: 1.6;">${renewalPrompt(sorted, appUrl)}</p>
+  `);
+
+  const text = `
+${heading.toUpperCase()}
+
+Hi ${recipientName}, the following certificate${count === 1 ? ' needs' : 's need'} your attention:
+${sorted.map(c => `- ${c.title}${c.certNumber ? ` (${c.certNumber})` : ''}: ${describeExpiry(c)}`).join('\n')}
+${appUrl ? `\n${appUrl}\n` : ''}
+You are receiving this because expiry reminders are enabled in your XafeWallet settings.
+  `;
+
+  return {
+    subject: `${count} certificate${count === 1 ? ' needs' : 's need'} your attention`,
+    html,
+    text
+  };
+};
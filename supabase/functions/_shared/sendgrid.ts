@@ -0,0 +1,60 @@
+// Minimal SendGrid v3 client for edge functions. SENDGRID_API_URL can point
+// at a local stand-in that accepts POST /v3/mail/send, e.g. when testing
+// reminders without sending real email.
+const SENDGRID_API_URL = Deno.env.get('SENDGRID_API_URL') ?? 'https://api.sendgrid.com';
+const SENDGRID_API_KEY = Deno.env.get('SENDGRID_API_KEY') ?? '';
+
+export const EMAIL_FROM = {
+  email: Deno.env.get('EMAIL_FROM') ?? 'noreply@xafewallet.com',
+  name: Deno.env.get('EMAIL_FROM_NAME') ?? 'XafeWallet'
+};
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  categories?: string[];
+}
+
+/**
+ * Sends a single email through the SendGrid mail send API
+ * @param message Recipient, subject and body
+ * @returns Promise resolving to true if SendGrid accepted the message
+ */
+export const sendMail = async (message: MailMessage): Promise<boolean> => {
+  if (!SENDGRID_API_KEY) {
+    console.error('SENDGRID_API_KEY is not set. Email not sent.');
+    return false;
+  }
+
+  try {
+    const response = await fetch(`${SENDGRID_API_URL}/v3/mail/send`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${SENDGRID_API_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: message.to }] }],
+        from: EMAIL_FROM,
+        subject: message.subject,
+        content: [
+          { type: 'text/plain', value: message.text },
+          { type: 'text/html', value: message.html }
+        ],
+        categories: message.categories || ['xafe-wallet']
+      })
+    });
+
+    if (!response.ok) {
+      console.error('SendGrid rejected email:', response.status, await response.text());
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error sending email:', error);
+    return false;
+  }
+};
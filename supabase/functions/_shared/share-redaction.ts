@@ -0,0 +1,80 @@
+// Which certificate details a share link shows. Shared by the browser and the
+// resolve-share edge function, which removes hidden details before anything
+// reaches the visitor, so it has no imports.
+
+// Title, issuer, type and status are always shown, so a link can prove a
+// certificate exists while hiding everything else
+export type RedactableField = 'cert_number' | 'description' | 'completion_date' | 'expiry_date' | 'file';
+
+export const REDACTABLE_FIELDS: { field: RedactableField; label: string }[] = [
+  { field: 'cert_number', label: 'Certificate number' },
+  { field: 'completion_date', label: 'Completion date' },
+  { field: 'expiry_date', label: 'Expiry date' },
+  { field: 'description', label: 'Description' },
+  { field: 'file', label: 'Certificate file and attachments' }
+];
+
+export interface RedactionPreset {
+  id: string;
+  label: string;
+  hiddenFields: RedactableField[];
+}
+
+export const REDACTION_PRESETS: RedactionPreset[] = [
+  { id: 'full', label: 'Everything', hiddenFields: [] },
+  { id: 'hide_number', label: 'Everything except the certificate number', hiddenFields: ['cert_number'] },
+  { id: 'details_only', label: 'Details without the file', hiddenFields: ['file'] },
+  {
+    id: 'proof_only',
+    label: 'Only title, issuer and status',
+    hiddenFields: ['cert_number', 'completion_date', 'expiry_date', 'description', 'file']
+  }
+];
+
+// Certificate columns that belong to the stored file
+const FILE_COLUMNS = ['file_path', 'file_type', 'file_key', 'is_encrypted', 'file_url', 'attachments'];
+
+/**
+ * Keeps only known field names, in a stable order, so stored settings
+ * cannot hide or reveal anything unexpected
+ * @param value Hidden fields as stored or submitted
+ * @returns The hidden fields
+ */
+export const normaliseHiddenFields = (value: unknown): RedactableField[] => {
+  const fields = Array.isArray(value) ? value : [];
+  return REDACTABLE_FIELDS.map(({ field }) => field).filter(field => fields.includes(field));
+};
+
+/**
+ * Finds the preset matching a set of hidden fields
+ * @param hiddenFields Hidden fields
+ * @returns The preset, or undefined for a custom selection
+ */
+export const findRedactionPreset = (hiddenFields: RedactableField[]): RedactionPreset | undefined => {
+  const normalised = normaliseHiddenFields(hiddenFields);
+  return REDACTION_PRESETS.find(preset =>
+    preset.hiddenFields.length === normalised.length &&
+    preset.hiddenFields.every(field => normalised.includes(field))
+  );
+};
+
+/**
+ * Removes hidden details from a certificate before it is shown to a visitor
+ * @param certificate Certificate row
+ * @param hiddenFields Fields the share hides
+ * @returns A copy of the certificate without the hidden details
+ */
+export const redactCertificate = <T extends Record<string, unknown>>(
+  certificate: T,
+  hiddenFields: RedactableField[]
+): T => {
+  const redacted: Record<string, unknown> = { ...certificate };
+  for (const field of normaliseHiddenFields(hiddenFields)) {
+    if (field === 'file') {
+      FILE_COLUMNS.forEach(column => delete redacted[column]);
+    } else {
+      delete redacted[field];
+    }
+  }
+  return redacted as T;
+};
@@ -0,0 +1,74 @@
+// Email with the one-time code that opens a recipient-bound share link, sent
+// by the resolve-share edge function.
+
+export interface ShareVerificationTemplate {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// The sender's name comes from their profile, so it is escaped before going into HTML
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Generate the email carrying a share verification code
+ * @param code The one-time code
+ * @param senderName Name of the person who shared the certificates
+ * @param expiresInMinutes How long the code works for
+ * @returns Email template
+ */
+export const generateShareVerificationTemplate = (
+  code: string,
+  senderName: string,
+  expiresInMinutes: number
+): ShareVerificationTemplate => {
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="padding: 30px; border: 1px solid #e2e8f0; border-radius: 8px;">
+        <h2 style="color: #1e293b; margin-top: 0;">Your verification code</h2>
+
+        <p style="color: #475569; line-height: 1.6;">
+          ${escapeHtml(senderName)} shared certificates with you on XafeWallet. Enter this code on the
+          share page to view them:
+        </p>
+
+        <p style="font-size: 32px; font-weight: bold; letter-spacing: 8px; color: #1e293b; text-align: center; margin: 30px 0;">
+          ${code}
+        </p>
+
+        <p style="color: #475569; line-height: 1.6;">
+          The code works for ${expiresInMinutes} minutes. If you did not try to open a shared link,
+          you can ignore this email.
+        </p>
+
+        <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; font-size: 12px; color: #94a3b8;">
+          <p>Never share this code. XafeWallet will never ask you for it.</p>
+          <p>© ${new Date().getFullYear()} XafeWallet. All rights reserved.</p>
+        </div>
+      </div>
+    </div>
+  `;
+
+  const text = `
+YOUR VERIFICATION CODE
+
+${senderName} shared certificates with you on XafeWallet. Enter this code on the share page to view them:
+
+${code}
+
+The code works for ${expiresInMinutes} minutes. If you did not try to open a shared link, you can ignore this email.
+
+Never share this code. XafeWallet will never ask you for it.
+  `;
+
+  return {
+    subject: `${code} is your XafeWallet verification code`,
+    html,
+    text
+  };
+};
@@ -0,0 +1,13 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Service role client; only ever used inside edge functions
+export const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false
+    }
+  }
+);
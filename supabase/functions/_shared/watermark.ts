@@ -0,0 +1,118 @@
+import { degrees, PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'npm:pdf-lib@1.17.1';
+import { sniffFileType, SNIFF_LENGTH } from './file-policy.ts';
+
+// Watermarks stamped on files downloaded through watermarked share links. The
+// resolve-share edge function marks the file before it leaves the server, so
+// visitors never get the original. The text names the viewer, the share and
+// the time, and is repeated across every page so a leaked copy can be traced
+// back to the link it came from.
+
+export interface ViewerWatermark {
+  shareId: string;
+  /** Verified address of the viewer, for recipient-bound links */
+  recipientEmail?: string | null;
+  /** Extra text chosen by the owner, e.g. "For onboarding only" */
+  label?: string | null;
+  viewedAt?: Date;
+}
+
+const MAX_WATERMARK_PAGES = 50;
+// Images are placed at 150 dpi, like scanned pages
+const IMAGE_SCALE = 72 / 150;
+
+/**
+ * Builds the lines of a viewer-specific watermark
+ * @param watermark Who is viewing which share, and when
+ * @returns Watermark text, one entry per line
+ */
+export const buildViewerWatermark = ({ shareId, recipientEmail, label, viewedAt = new Date() }: ViewerWatermark): string[] => [
+  ...(label?.trim() ? [label.trim()] : []),
+  `Shared with ${recipientEmail || 'the link holder'}`,
+  `Share ${shareId}`,
+  viewedAt.toISOString().replace('T', ' ').slice(0, 19) + ' UTC'
+];
+
+// The standard PDF fonts only cover Latin-1
+const toLatin1 = (line: string) => line.replace(/[^\x20-\x7e\u00a0-\u00ff]/g, '?');
+
+// Repeats the text diagonally across the whole page, so cropping one copy
+// out still leaves others
+const drawWatermark = (page: PDFPage, font: PDFFont, lines: string[]) => {
+  const { width, height } = page.getSize();
+  const fontSize = Math.max(8, Math.round(Math.min(width, height) / 40));
+  const lineHeight = fontSize * 1.3;
+
+  const blockWidth = Math.max(...lines.map(line => font.widthOfTextAtSize(line, fontSize))) + fontSize * 4;
+  const blockHeight = lines.length * lineHeight + fontSize * 4;
+  const diagonal = Math.hypot(width, height);
+  const angle = Math.PI / 6;
+
+  for (let y = -diagonal / 2; y < diagonal / 2; y += blockHeight) {
+    // Alternate rows are offset so copies do not line up in columns
+    const offset = Math.round(y / blockHeight) % 2 === 0 ? 0 : blockWidth / 2;
+    for (let x = -diagonal / 2 - offset; x < diagonal / 2; x += blockWidth) {
+      lines.forEach((line, index) => {
+        // Each line starts at its point in the grid, turned about the page centre
+        const lineX = x - font.widthOfTextAtSize(line, fontSize) / 2;
+        const lineY = y - (index - (lines.length - 1) / 2) * lineHeight;
+        page.drawText(line, {
+          x: width / 2 + lineX * Math.cos(angle) - lineY * Math.sin(angle),
+          y: height / 2 + lineX * Math.sin(angle) + lineY * Math.cos(angle),
+          size: fontSize,
+          font,
+          color: rgb(0.4, 0.4, 0.4),
+          opacity: 0.25,
+          rotate: degrees(30)
+        });
+      });
+    }
+  }
+};
+
+/**
+ * Adds a watermark to a shared certificate file, detecting its type from its
+ * contents. PDF pages are copied into a new document under the watermark,
+ * which also leaves out their links, forms and scripts; images become a
+ * one-page PDF.
+ * @param file PDF, JPEG or PNG file
+ * @param watermark Text to use as watermark, one entry per line
+ * @returns Promise resolving to the watermarked PDF
+ */
+export const addWatermarkToFile = async (file: Uint8Array, watermark: string[]): Promise<Uint8Array> => {
+  const type = sniffFileType(file.slice(0, SNIFF_LENGTH));
+  const output = await PDFDocument.create();
+  const font = await output.embedFont(StandardFonts.Helvetica);
+  const lines = watermark.map(toLatin1);
+
+  switch (type) {
+    case 'application/pdf': {
+      const source = await PDFDocument.load(file);
+      if (source.getPageCount() > MAX_WATERMARK_PAGES) {
+        throw new Error(`PDFs over ${MAX_WATERMARK_PAGES} pages cannot be watermarked`);
+      }
+
+      for (const sourcePage of source.getPages()) {
+        const page = output.addPage([sourcePage.getWidth(), sourcePage.getHeight()]);
+        // Blank pages have no content to copy
+        if (sourcePage.node.Contents()) {
+          page.drawPage(await output.embedPage(sourcePage));
+        }
+        drawWatermark(page, font, lines);
+      }
+      break;
+    }
+    case 'image/jpeg':
+    case 'image/png': {
+      const image = type === 'image/png' ? await output.embedPng(file) : await output.embedJpg(file);
+      const { width, height } = image.scale(IMAGE_SCALE);
+      const page = output.addPage([width, height]);
+      page.drawImage(image, { x: 0, y: 0, width, height });
+      drawWatermark(page, font, lines);
+      break;
+    }
+    default:
+      throw new Error('Only PDF, JPEG and PNG files can be watermarked');
+  }
+
+  return output.save();
+};
@@ -0,0 +1,98 @@
+import webpush from 'npm:web-push@3.6.7';
+import { supabaseAdmin } from './supabase-admin.ts';
+
+// Generate a key pair once with `npx web-push generate-vapid-keys`. The public
+// key is also needed by the app as VITE_VAPID_PUBLIC_KEY.
+const VAPID_PUBLIC_KEY = Deno.env.get('VAPID_PUBLIC_KEY') ?? '';
+const VAPID_PRIVATE_KEY = Deno.env.get('VAPID_PRIVATE_KEY') ?? '';
+const VAPID_SUBJECT = Deno.env.get('VAPID_SUBJECT') ?? 'mailto:noreply@xafewallet.com';
+
+if (VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY) {
+  webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY);
+}
+
+// How long the push service keeps an undelivered notification
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  /** Page opened when the notification is clicked */
+  url?: string;
+  /** Notifications with the same tag replace each other */
+  tag?: string;
+}
+
+/**
+ * Sends a notification to every browser the user subscribed, if they have
+ * push notifications enabled in their settings. Subscriptions the push
+ * service reports as gone are removed.
+ * @param userId Owner of the subscriptions
+ * @param payload Notification content
+ * @returns Promise resolving to the number of browsers notified
+ */
+export const sendPushToUser = async (userId: string, payload: PushPayload): Promise<number> => {
+  if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) {
+    console.error('VAPID keys are not set. Push notification not sent.');
+    return 0;
+  }
+
+  try {
+    const { data: settings } = await supabaseAdmin
+      .from('settings')
+      .select('push_notifications')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    // Missing settings fall back to the column default, which is enabled
+    if (settings && settings.push_notifications === false) {
+      return 0;
+    }
+
+    const { data: subscriptions, error } = await supabaseAdmin
+      .from('push_subscriptions')
+      .select('id, endpoint, p256dh, auth')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    if (!subscriptions || subscriptions.length === 0) return 0;
+
+    const results = await Promise.all(subscriptions.map(async subscription => {
+      try {
+        await webpush.sendNotification(
+          {
+            endpoint: subscription.endpoint,
+            keys: { p256dh: subscription.p256dh, auth: subscription.auth }
+          },
+          JSON.stringify(payload),
+          { TTL: PUSH_TTL_SECONDS }
+        );
+        return { id: subscription.id, delivered: true, expired: false };
+      } catch (err) {
+        const statusCode = (err as { statusCode?: number }).statusCode;
+        if (statusCode !== 404 && statusCode !== 410) {
+          console.error('Error sending push notification:', err);
+        }
+        return { id: subscription.id, delivered: false, expired: statusCode === 404 || statusCode === 410 };
+      }
+    }));
+
+    const expiredIds = results.filter(r => r.expired).map(r => r.id);
+    if (expiredIds.length > 0) {
+      await supabaseAdmin.from('push_subscriptions').delete().in('id', expiredIds);
+    }
+
+    const deliveredIds = results.filter(r => r.delivered).map(r => r.id);
+    if (deliveredIds.length > 0) {
+      await supabaseAdmin
+        .from('push_subscriptions')
+        .update({ last_used_at: new Date().toISOString() })
+        .in('id', deliveredIds);
+    }
+
+    return deliveredIds.length;
+  } catch (error) {
+    console.error('Error sending push notifications:', error);
+    return 0;
+  }
+};
@@ -0,0 +1,91 @@
+import { corsHeaders } from '../_shared/cors.ts';
+import { supabaseAdmin } from '../_shared/supabase-admin.ts';
+import { buildCertificateCalendar } from '../_shared/ics.ts';
+
+// Calendar apps fetch the feed URL directly, so this function is deployed
+// with --no-verify-jwt and the token in the query string is the only secret.
+
+const APP_URL = Deno.env.get('APP_URL') ?? undefined;
+const DEFAULT_REMINDER_DAYS = 30;
+
+const textResponse = (body: string, status: number) =>
+  new Response(body, {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'text/plain; charset=utf-8' }
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET') {
+    return textResponse('Method not allowed', 405);
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+    if (!token) {
+      return textResponse('Not found', 404);
+    }
+
+    const { data: feed, error: feedError } = await supabaseAdmin
+      .from('calendar_feeds')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (feedError) {
+      console.error('Error loading calendar feed:', feedError);
+      return textResponse('Failed to load calendar', 500);
+    }
+
+    if (!feed) {
+      return textResponse('Not found', 404);
+    }
+
+    const [{ data: certificates, error: certsError }, { data: settings }] = await Promise.all([
+      supabaseAdmin
+        .from('certificates')
+        .select('id, title, issuer, cert_number, expiry_date, updated_at')
+        .eq('user_id', feed.user_id)
+        .eq('is_archived', false)
+        .not('expiry_date', 'is', null)
+        .order('expiry_date', { ascending: true }),
+      supabaseAdmin
+        .from('settings')
+        .select('expiry_reminders_days')
+        .eq('user_id', feed.user_id)
+        .maybeSingle()
+    ]);
+
+    if (certsError) {
+      console.error('Error loading calendar certificates:', certsError);
+      return textResponse('Failed to load calendar', 500);
+    }
+
+    await supabaseAdmin
+      .from('calendar_feeds')
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq('user_id', feed.user_id);
+
+    const calendar = buildCertificateCalendar(certificates || [], {
+      reminderDays: settings?.expiry_reminders_days ?? DEFAULT_REMINDER_DAYS,
+      calendarName: 'XafeWallet Certificates',
+      appUrl: APP_URL
+    });
+
+    return new Response(calendar, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="xafewallet-certificates.ics"',
+        'Cache-Control': 'private, max-age=300'
+      }
+    });
+  } catch (error) {
+    console.error('Error serving calendar feed:', error);
+    return textResponse('Failed to load calendar', 500);
+  }
+});
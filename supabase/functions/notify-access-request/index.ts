@@ -0,0 +1,140 @@
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { supabaseAdmin } from '../_shared/supabase-admin.ts';
+import { sendMail } from '../_shared/sendgrid.ts';
+import {
+  generateAccessApprovedTemplate,
+  generateAccessDeniedTemplate
+} from '../_shared/access-request-templates.ts';
+
+// Called by the owner's browser after answering a share access request.
+// Approved requesters are emailed the issued share's stored URL. Keys for
+// vault-encrypted files never leave the owner's browser, so they are not in
+// the email; the owner sends the full link another way.
+
+interface NotifyAccessRequestRequest {
+  requestId?: string;
+}
+
+// Whether any file the share hands out is vault-encrypted
+const hasEncryptedFiles = async (share: {
+  certificate_ids: string[];
+  attachment_ids: string[] | null;
+  hidden_fields: string[] | null;
+}): Promise<boolean> => {
+  if ((share.hidden_fields || []).includes('file')) return false;
+
+  const { count, error } = await supabaseAdmin
+    .from('certificates')
+    .select('id', { count: 'exact', head: true })
+    .in('id', share.certificate_ids)
+    .eq('is_encrypted', true);
+  if (error) throw error;
+  if (count) return true;
+
+  if (!share.attachment_ids?.length) return false;
+  const { count: attachmentCount, error: attachmentError } = await supabaseAdmin
+    .from('certificate_attachments')
+    .select('id', { count: 'exact', head: true })
+    .in('id', share.attachment_ids)
+    .eq('is_encrypted', true);
+  if (attachmentError) throw attachmentError;
+  return Boolean(attachmentCount);
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const jwt = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const { data: { user } } = jwt ? await supabaseAdmin.auth.getUser(jwt) : { data: { user: null } };
+  if (!user) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const { requestId }: NotifyAccessRequestRequest = await req.json().catch(() => ({}));
+    if (!requestId) {
+      return jsonResponse({ error: 'Request id is required' }, 400);
+    }
+
+    const { data: request, error: requestError } = await supabaseAdmin
+      .from('share_access_requests')
+      .select('id, email, status, issued_share_id, notified_at')
+      .eq('id', requestId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (requestError) throw requestError;
+    if (!request || request.status === 'pending') {
+      return jsonResponse({ error: 'Request not found' }, 404);
+    }
+    if (request.notified_at) {
+      return jsonResponse({ sent: false, reason: 'already_notified' });
+    }
+
+    let issuedShare: { url: string; expires_at: string | null; encrypted: boolean } | null = null;
+    if (request.status === 'approved') {
+      const { data, error } = await supabaseAdmin
+        .from('link_shares')
+        .select('url, expires_at, recipient_emails, certificate_ids, attachment_ids, hidden_fields')
+        .eq('id', request.issued_share_id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data || !(data.recipient_emails || []).includes(request.email)) {
+        return jsonResponse({ error: 'Link does not match the approved request' }, 400);
+      }
+      // Stored without a fragment, so the email carries no keys
+      issuedShare = { url: data.url, expires_at: data.expires_at, encrypted: await hasEncryptedFiles(data) };
+    }
+
+    // Claim the request first so it is only ever emailed once
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('share_access_requests')
+      .update({ notified_at: new Date().toISOString() })
+      .eq('id', request.id)
+      .is('notified_at', null)
+      .select('id');
+
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0) {
+      return jsonResponse({ sent: false, reason: 'already_notified' });
+    }
+
+    const { data: profile } = await supabaseAdmin
+      .from('profiles')
+      .select('name')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    const senderName = profile?.name || 'The certificate owner';
+    const template = issuedShare
+      ? generateAccessApprovedTemplate(senderName, issuedShare.url, issuedShare.expires_at, issuedShare.encrypted)
+      : generateAccessDeniedTemplate(senderName);
+
+    const sent = await sendMail({
+      to: request.email,
+      ...template,
+      categories: ['xafe-wallet', `share-access-${request.status}`]
+    });
+
+    // Let the owner try again, or send the link themselves
+    if (!sent) {
+      await supabaseAdmin
+        .from('share_access_requests')
+        .update({ notified_at: null })
+        .eq('id', request.id);
+    }
+
+    return jsonResponse({ sent });
+  } catch (err) {
+    console.error('Error notifying access requester:', err);
+    return jsonResponse({ error: 'Failed to notify requester' }, 500);
+  }
+});
@@ -0,0 +1,717 @@
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { supabaseAdmin } from '../_shared/supabase-admin.ts';
+import { hashPassword, passwordNeedsRehash, verifyPassword } from '../_shared/password.ts';
+import { sendPushToUser } from '../_shared/web-push.ts';
+import { sendMail } from '../_shared/sendgrid.ts';
+import { generateShareVerificationTemplate } from '../_shared/share-verification-template.ts';
+import { generateAccessRequestTemplate } from '../_shared/access-request-templates.ts';
+import { normaliseHiddenFields, redactCertificate } from '../_shared/share-redaction.ts';
+import { addWatermarkToFile, buildViewerWatermark } from '../_shared/watermark.ts';
+
+interface ResolveShareRequest {
+  token?: string;
+  password?: string;
+  action?: 'view' | 'download' | 'request_code' | 'verify_code' | 'request_access';
+  certificateId?: string;
+  attachmentId?: string;
+  /** Recipient address, for requesting and verifying a code */
+  email?: string;
+  code?: string;
+  /** Token from an earlier verification of a recipient-bound link */
+  verificationToken?: string;
+  /** What a visitor entered when asking for access to a link that can no longer be opened */
+  accessRequest?: {
+    name?: unknown;
+    email?: unknown;
+    organisation?: unknown;
+    reason?: unknown;
+  };
+}
+
+// Share fields loaded on the server, including the password hash and owner;
+// only publicShare() output is ever returned to the visitor
+const SHARE_FIELDS = 'id, user_id, certificate_ids, expires_at, is_password_protected, password_hash, max_downloads, download_count, view_count, is_revoked, attachment_ids, follow_latest, recipient_emails, hidden_fields, watermark, watermark_text';
+
+const recipientEmails = (share: Record<string, unknown>): string[] =>
+  ((share.recipient_emails as string[] | null) || []).map(email => email.toLowerCase());
+
+const publicShare = (share: Record<string, unknown>) => ({
+  id: share.id,
+  expires_at: share.expires_at,
+  is_password_protected: share.is_password_protected,
+  max_downloads: share.max_downloads,
+  download_count: share.download_count ?? 0,
+  view_count: share.view_count ?? 0,
+  requires_verification: recipientEmails(share).length > 0,
+  hidden_fields: normaliseHiddenFields(share.hidden_fields),
+  // Downloaded files are marked by this function
+  watermark: share.watermark ?? false,
+  watermark_text: share.watermark_text ?? null
+});
+
+const ATTACHMENT_FIELDS = 'id, certificate_id, label, version, file_type, file_size, is_encrypted, created_at';
+
+// Signed file URLs are only handed out for downloads and expire quickly
+const SIGNED_URL_TTL_SECONDS = 60;
+
+// Strips storage details from a certificate or attachment row, optionally adding a signed URL
+const withFileAccess = async (record: Record<string, unknown>, includeFileUrl: boolean) => {
+  const { file_path, ...rest } = record;
+  // The wrapped vault key is of no use to visitors
+  delete rest.file_key;
+
+  if (!includeFileUrl || typeof file_path !== 'string') {
+    return rest;
+  }
+
+  const { data, error } = await supabaseAdmin.storage
+    .from('certificates')
+    .createSignedUrl(file_path, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error('Error signing certificate file URL:', error);
+    return rest;
+  }
+
+  return { ...rest, file_url: data.signedUrl };
+};
+
+// Marks a stored file for the viewer. Only the marked copy is sent, so a
+// watermarked link never hands out a URL to the original.
+const watermarkStoredFile = async (filePath: string, watermark: string[]): Promise<Uint8Array> => {
+  const { data, error } = await supabaseAdmin.storage.from('certificates').download(filePath);
+  if (error) throw error;
+  return addWatermarkToFile(new Uint8Array(await data.arrayBuffer()), watermark);
+};
+
+// Owners hear about a share being viewed at most once per this interval
+const VIEW_NOTIFICATION_INTERVAL_MS = 60 * 60 * 1000;
+
+const APP_URL = Deno.env.get('APP_URL') ?? undefined;
+
+// Pushes a "share was viewed" notification to the owner, throttled per share
+const notifyShareViewed = async (share: Record<string, unknown>, certificates: Record<string, unknown>[]) => {
+  try {
+    const threshold = new Date(Date.now() - VIEW_NOTIFICATION_INTERVAL_MS).toISOString();
+    const { data: claimed, error } = await supabaseAdmin
+      .from('link_shares')
+      .update({ last_view_notified_at: new Date().toISOString() })
+      .eq('id', share.id)
+      .or(`last_view_notified_at.is.null,last_view_notified_at.lt.${threshold}`)
+      .select('id');
+
+    if (error) throw error;
+    if (!claimed || claimed.length === 0) return;
+
+    const titles = certificates.map(c => c.title as string);
+    await sendPushToUser(share.user_id as string, {
+      title: 'Your shared certificate was viewed',
+      body: titles.length > 1 ? `${titles[0]} and ${titles.length - 1} more` : titles[0] || 'A shared link was opened',
+      url: APP_URL,
+      tag: `share-viewed-${share.id}`
+    });
+  } catch (err) {
+    console.error('Error sending share viewed notification:', err);
+  }
+};
+
+// Shares that follow the latest version resolve each certificate to the
+// current (non-archived) record of its renewal lineage
+const resolveCertificateIds = async (share: Record<string, unknown>): Promise<string[]> => {
+  const certificateIds = (share.certificate_ids as string[] | null) || [];
+
+  if (!share.follow_latest || certificateIds.length === 0) {
+    return certificateIds;
+  }
+
+  const { data: shared, error: sharedError } = await supabaseAdmin
+    .from('certificates')
+    .select('lineage_id')
+    .in('id', certificateIds)
+    .eq('user_id', share.user_id);
+
+  if (sharedError) {
+    console.error('Error loading certificate lineages:', sharedError);
+    return certificateIds;
+  }
+
+  const lineageIds = [...new Set((shared || []).map(c => c.lineage_id).filter(Boolean))];
+  if (lineageIds.length === 0) {
+    return certificateIds;
+  }
+
+  const { data: latest, error: latestError } = await supabaseAdmin
+    .from('certificates')
+    .select('id')
+    .in('lineage_id', lineageIds)
+    .eq('user_id', share.user_id)
+    .eq('is_archived', false);
+
+  if (latestError) {
+    console.error('Error loading latest certificates:', latestError);
+    return certificateIds;
+  }
+
+  return (latest || []).map(c => c.id);
+};
+
+// Codes for recipient-bound links are short-lived and allow a few attempts.
+// A verified visitor gets a token that keeps the link open for a while, so
+// reloading the page does not need a new code
+const CODE_TTL_MINUTES = 10;
+const MAX_CODE_ATTEMPTS = 5;
+const CODE_RESEND_INTERVAL_MS = 60 * 1000;
+const VERIFIED_SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+type VerificationFailure = 'invalid_code' | 'code_expired' | 'too_many_attempts';
+
+const sha256Hex = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Six digits, drawn without modulo bias
+const generateCode = (): string => {
+  const limit = Math.floor(0x100000000 / 1000000) * 1000000;
+  const value = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(value);
+  } while (value[0] >= limit);
+  return (value[0] % 1000000).toString().padStart(6, '0');
+};
+
+const generateSessionToken = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const normaliseEmail = (email: unknown): string =>
+  typeof email === 'string' ? email.trim().toLowerCase() : '';
+
+// Codes are tied to the share and address they were sent for
+const hashCode = (share: Record<string, unknown>, email: string, code: string) =>
+  sha256Hex(`${share.id}:${email}:${code}`);
+
+// Emails a code if the address is one the link was shared with. Visitors get
+// the same answer either way, so the link does not reveal who it was shared with
+const sendVerificationCode = async (share: Record<string, unknown>, email: string) => {
+  if (!recipientEmails(share).includes(email)) return;
+
+  const { data: latest, error: latestError } = await supabaseAdmin
+    .from('share_verifications')
+    .select('created_at')
+    .eq('share_id', share.id)
+    .eq('email', email)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) throw latestError;
+  if (latest && Date.now() - new Date(latest.created_at).getTime() < CODE_RESEND_INTERVAL_MS) return;
+
+  const code = generateCode();
+  const { error: insertError } = await supabaseAdmin
+    .from('share_verifications')
+    .insert({
+      share_id: share.id,
+      email,
+      code_hash: await hashCode(share, email, code),
+      expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000).toISOString()
+    });
+
+  if (insertError) throw insertError;
+
+  const { data: owner } = await supabaseAdmin
+    .from('profiles')
+    .select('name')
+    .eq('id', share.user_id)
+    .maybeSingle();
+
+  const template = generateShareVerificationTemplate(code, owner?.name || 'Someone', CODE_TTL_MINUTES);
+  const sent = await sendMail({
+    to: email,
+    ...template,
+    categories: ['xafe-wallet', 'share-verification']
+  });
+
+  if (!sent) {
+    console.error('Share verification code could not be emailed');
+  }
+};
+
+// Checks a code against the newest one sent to the address and, if it
+// matches, starts a verified session
+const verifyCode = async (
+  share: Record<string, unknown>,
+  email: string,
+  code: unknown
+): Promise<{ email: string; token: string } | { reason: VerificationFailure }> => {
+  if (!recipientEmails(share).includes(email) || typeof code !== 'string') {
+    return { reason: 'invalid_code' };
+  }
+
+  const { data: verification, error } = await supabaseAdmin
+    .from('share_verifications')
+    .select('id, code_hash, expires_at, attempts')
+    .eq('share_id', share.id)
+    .eq('email', email)
+    .is('verified_at', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!verification) return { reason: 'invalid_code' };
+  if (verification.attempts >= MAX_CODE_ATTEMPTS) return { reason: 'too_many_attempts' };
+  if (new Date(verification.expires_at) < new Date()) return { reason: 'code_expired' };
+
+  if ((await hashCode(share, email, code.trim())) !== verification.code_hash) {
+    const { error: attemptError } = await supabaseAdmin
+      .from('share_verifications')
+      .update({ attempts: verification.attempts + 1 })
+      .eq('id', verification.id);
+
+    if (attemptError) throw attemptError;
+    return { reason: verification.attempts + 1 >= MAX_CODE_ATTEMPTS ? 'too_many_attempts' : 'invalid_code' };
+  }
+
+  // Sessions never outlast the link itself
+  const token = generateSessionToken();
+  let sessionExpiresAt = Date.now() + VERIFIED_SESSION_TTL_MS;
+  if (share.expires_at) {
+    sessionExpiresAt = Math.min(sessionExpiresAt, new Date(share.expires_at as string).getTime());
+  }
+
+  const { error: verifyError } = await supabaseAdmin
+    .from('share_verifications')
+    .update({
+      verified_at: new Date().toISOString(),
+      session_hash: await sha256Hex(token),
+      session_expires_at: new Date(sessionExpiresAt).toISOString()
+    })
+    .eq('id', verification.id);
+
+  if (verifyError) throw verifyError;
+  return { email, token };
+};
+
+// Returns the verified address for a session token, or null if it is
+// missing, expired, or no longer one the link is shared with
+const checkVerificationToken = async (share: Record<string, unknown>, token: unknown): Promise<string | null> => {
+  if (typeof token !== 'string' || !token) return null;
+
+  const { data: session, error } = await supabaseAdmin
+    .from('share_verifications')
+    .select('email, session_expires_at')
+    .eq('share_id', share.id)
+    .eq('session_hash', await sha256Hex(token))
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!session || !session.session_expires_at || new Date(session.session_expires_at) < new Date()) return null;
+  return recipientEmails(share).includes(session.email) ? session.email : null;
+};
+
+// Views and downloads of recipient-bound links are logged here, where the
+// address is known to be verified, rather than by the visitor's browser
+const logRecipientAccess = async (
+  req: Request,
+  share: Record<string, unknown>,
+  email: string,
+  certificateIds: string[],
+  accessType: 'view' | 'download'
+) => {
+  if (certificateIds.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('access_logs')
+    .insert(certificateIds.map(certificateId => ({
+      certificate_id: certificateId,
+      access_type: accessType,
+      access_method: 'link',
+      ip_address: req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+      user_agent: req.headers.get('user-agent'),
+      recipient_email: email,
+      share_id: share.id,
+      timestamp: new Date().toISOString()
+    })));
+
+  if (error) {
+    console.error('Error logging recipient access:', error);
+  }
+};
+
+// Visitors can ask for access to links that can no longer be opened. Only one
+// request per address can be pending for a link, and only a few per link, so
+// a link cannot be used to flood its owner's inbox
+const MAX_PENDING_REQUESTS_PER_SHARE = 10;
+const MAX_NAME_LENGTH = 100;
+const MAX_REASON_LENGTH = 1000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const trimmed = (value: unknown, maxLength: number): string =>
+  typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+
+// Tells the owner about a new access request by email and push, following
+// their notification settings
+const notifyAccessRequested = async (
+  share: Record<string, unknown>,
+  request: { name: string; email: string; organisation: string | null; reason: string }
+) => {
+  try {
+    const [{ data: settings }, { data: certificates }] = await Promise.all([
+      supabaseAdmin
+        .from('settings')
+        .select('email_notifications')
+        .eq('user_id', share.user_id)
+        .maybeSingle(),
+      supabaseAdmin
+        .from('certificates')
+        .select('title')
+        .in('id', (share.certificate_ids as string[] | null) || [])
+        .eq('user_id', share.user_id)
+    ]);
+
+    if (settings?.email_notifications ?? true) {
+      const { data: { user }, error } = await supabaseAdmin.auth.admin.getUserById(share.user_id as string);
+      if (error || !user?.email) {
+        console.error('Error loading share owner:', error);
+      } else {
+        const template = generateAccessRequestTemplate(request, (certificates || []).map(c => c.title), APP_URL);
+        const sent = await sendMail({
+          to: user.email,
+          ...template,
+          categories: ['xafe-wallet', 'share-access-request']
+        });
+
+        if (!sent) {
+          console.error('Access request notification could not be emailed');
+        }
+      }
+    }
+
+    await sendPushToUser(share.user_id as string, {
+      title: 'Someone asked for access to your certificates',
+      body: request.organisation ? `${request.name} (${request.organisation})` : request.name,
+      url: APP_URL,
+      tag: `share-access-request-${share.id}`
+    });
+  } catch (err) {
+    console.error('Error sending access request notification:', err);
+  }
+};
+
+// Stores an access request and notifies the owner. Returns false if the
+// details are not valid; repeated requests are accepted without notifying again
+const submitAccessRequest = async (
+  share: Record<string, unknown>,
+  details: ResolveShareRequest['accessRequest']
+): Promise<boolean> => {
+  const request = {
+    name: trimmed(details?.name, MAX_NAME_LENGTH),
+    email: normaliseEmail(details?.email),
+    organisation: trimmed(details?.organisation, MAX_NAME_LENGTH) || null,
+    reason: trimmed(details?.reason, MAX_REASON_LENGTH)
+  };
+
+  if (!request.name || !request.reason || !EMAIL_PATTERN.test(request.email)) {
+    return false;
+  }
+
+  const { count, error: countError } = await supabaseAdmin
+    .from('share_access_requests')
+    .select('id', { count: 'exact', head: true })
+    .eq('share_id', share.id)
+    .eq('status', 'pending');
+
+  if (countError) throw countError;
+  if ((count ?? 0) >= MAX_PENDING_REQUESTS_PER_SHARE) return true;
+
+  const { error: insertError } = await supabaseAdmin
+    .from('share_access_requests')
+    .insert({ ...request, share_id: share.id, user_id: share.user_id });
+
+  if (insertError) {
+    // The address already has a pending request for this link
+    if (insertError.code === '23505') return true;
+    throw insertError;
+  }
+
+  await notifyAccessRequested(share, request);
+  return true;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const {
+      token,
+      password,
+      action = 'view',
+      certificateId,
+      attachmentId,
+      email,
+      code,
+      verificationToken,
+      accessRequest
+    }: ResolveShareRequest = await req.json();
+
+    if (!token || typeof token !== 'string') {
+      return jsonResponse({ isValid: false, reason: 'not_found' });
+    }
+
+    const { data: share, error: shareError } = await supabaseAdmin
+      .from('link_shares')
+      .select(SHARE_FIELDS)
+      .eq('token', token)
+      .maybeSingle();
+
+    if (shareError) {
+      console.error('Error loading share:', shareError);
+      return jsonResponse({ error: 'Failed to resolve share' }, 500);
+    }
+
+    if (!share) {
+      return jsonResponse({ isValid: false, reason: 'not_found' });
+    }
+
+    let unavailable: 'revoked' | 'expired' | 'download_limit' | null = null;
+    if (share.is_revoked) {
+      unavailable = 'revoked';
+    } else if (share.expires_at && new Date(share.expires_at) < new Date()) {
+      unavailable = 'expired';
+    } else if (share.max_downloads && (share.download_count ?? 0) >= share.max_downloads) {
+      unavailable = 'download_limit';
+    }
+
+    if (unavailable) {
+      if (action === 'request_access') {
+        if (!(await submitAccessRequest(share, accessRequest))) {
+          return jsonResponse({ error: 'Invalid access request' }, 400);
+        }
+        return jsonResponse({ isValid: false, reason: unavailable, requestSent: true });
+      }
+      return jsonResponse({ isValid: false, reason: unavailable });
+    }
+
+    // Links that still work are opened, not requested
+    if (action === 'request_access') {
+      return jsonResponse({ isValid: false, reason: 'not_found' });
+    }
+
+    if (share.is_password_protected) {
+      if (!password) {
+        return jsonResponse({ isValid: false, reason: 'password_required', share: publicShare(share) });
+      }
+
+      const passwordMatches = share.password_hash
+        ? await verifyPassword(password, share.password_hash)
+        : false;
+
+      if (!passwordMatches) {
+        return jsonResponse({ isValid: false, reason: 'invalid_password', share: publicShare(share) });
+      }
+
+      // Upgrade legacy or outdated hashes now that we know the plain text password
+      if (passwordNeedsRehash(share.password_hash)) {
+        const { error: rehashError } = await supabaseAdmin
+          .from('link_shares')
+          .update({ password_hash: await hashPassword(password) })
+          .eq('id', share.id)
+          .eq('password_hash', share.password_hash);
+
+        if (rehashError) {
+          console.error('Error upgrading share password hash:', rehashError);
+        }
+      }
+    }
+
+    // Recipient-bound links only open for a listed address that has proved
+    // it receives email, after any password
+    let recipientEmail: string | null = null;
+    let newVerificationToken: string | undefined;
+    if (recipientEmails(share).length > 0) {
+      if (action === 'request_code') {
+        await sendVerificationCode(share, normaliseEmail(email));
+        return jsonResponse({ isValid: false, reason: 'verification_required', share: publicShare(share), codeSent: true });
+      }
+
+      if (action === 'verify_code') {
+        const result = await verifyCode(share, normaliseEmail(email), code);
+        if ('reason' in result) {
+          return jsonResponse({ isValid: false, reason: result.reason, share: publicShare(share) });
+        }
+        recipientEmail = result.email;
+        newVerificationToken = result.token;
+      } else {
+        recipientEmail = await checkVerificationToken(share, verificationToken);
+        if (!recipientEmail) {
+          return jsonResponse({ isValid: false, reason: 'verification_required', share: publicShare(share) });
+        }
+      }
+    }
+
+    // Hidden details never leave the server, and links that hide the file
+    // have nothing to download
+    const hiddenFields = normaliseHiddenFields(share.hidden_fields);
+    const hidesFile = hiddenFields.includes('file');
+    const certificateIds = await resolveCertificateIds(share);
+    const attachmentIds: string[] = hidesFile ? [] : share.attachment_ids || [];
+
+    if (action === 'download') {
+      if (hidesFile || !certificateId || !certificateIds.includes(certificateId)) {
+        return jsonResponse({ isValid: false, reason: 'not_found' });
+      }
+
+      if (attachmentId && !attachmentIds.includes(attachmentId)) {
+        return jsonResponse({ isValid: false, reason: 'not_found' });
+      }
+
+      const { data: certificate, error: certError } = await supabaseAdmin
+        .from('certificates')
+        .select('*')
+        .eq('id', certificateId)
+        .eq('user_id', share.user_id)
+        .maybeSingle();
+
+      if (certError || !certificate) {
+        return jsonResponse({ isValid: false, reason: 'not_found' });
+      }
+
+      let attachment: Record<string, unknown> | null = null;
+      if (attachmentId) {
+        const { data, error: attachmentError } = await supabaseAdmin
+          .from('certificate_attachments')
+          .select(`${ATTACHMENT_FIELDS}, file_path`)
+          .eq('id', attachmentId)
+          .eq('certificate_id', certificateId)
+          .eq('user_id', share.user_id)
+          .maybeSingle();
+
+        if (attachmentError || !data) {
+          return jsonResponse({ isValid: false, reason: 'not_found' });
+        }
+        attachment = data;
+      }
+
+      // Files from watermarked links are marked here rather than in the
+      // browser. Vault files cannot be, as only the visitor has their keys.
+      const file = attachment || certificate;
+      let markedFile: Uint8Array | null = null;
+      if (share.watermark && typeof file.file_path === 'string') {
+        if (file.is_encrypted) {
+          return jsonResponse({ isValid: false, reason: 'watermark_unavailable' });
+        }
+
+        try {
+          markedFile = await watermarkStoredFile(file.file_path, buildViewerWatermark({
+            shareId: share.id,
+            recipientEmail,
+            label: share.watermark_text
+          }));
+        } catch (err) {
+          console.error('Error watermarking shared file:', err);
+          return jsonResponse({ isValid: false, reason: 'watermark_unavailable' });
+        }
+      }
+
+      // Conditional increment in the database so concurrent downloads cannot
+      // exceed max_downloads. Only made once the file is ready to send.
+      const { data: downloadCount, error: countError } = await supabaseAdmin
+        .rpc('increment_share_download_count', { p_share_id: share.id });
+
+      if (countError) {
+        console.error('Error incrementing download count:', countError);
+        return jsonResponse({ error: 'Failed to record download' }, 500);
+      }
+
+      if (downloadCount === -1) {
+        return jsonResponse({ isValid: false, reason: 'download_limit' });
+      }
+
+      if (recipientEmail) {
+        await logRecipientAccess(req, share, recipientEmail, [certificateId], 'download');
+      }
+
+      if (markedFile) {
+        return new Response(markedFile, {
+          headers: { ...corsHeaders, 'Content-Type': 'application/octet-stream' }
+        });
+      }
+
+      if (attachment) {
+        return jsonResponse({
+          isValid: true,
+          share: { ...publicShare(share), download_count: downloadCount },
+          certificates: [redactCertificate(await withFileAccess(certificate, false), hiddenFields)],
+          attachment: await withFileAccess(attachment, true)
+        });
+      }
+
+      return jsonResponse({
+        isValid: true,
+        share: { ...publicShare(share), download_count: downloadCount },
+        certificates: [redactCertificate(await withFileAccess(certificate, true), hiddenFields)]
+      });
+    }
+
+    const { data: certificates, error: certsError } = await supabaseAdmin
+      .from('certificates')
+      .select('*')
+      .in('id', certificateIds)
+      .eq('user_id', share.user_id);
+
+    if (certsError) {
+      console.error('Error loading shared certificates:', certsError);
+      return jsonResponse({ error: 'Failed to load certificates' }, 500);
+    }
+
+    let attachments: Record<string, unknown>[] = [];
+    if (attachmentIds.length > 0) {
+      const { data, error: attachmentsError } = await supabaseAdmin
+        .from('certificate_attachments')
+        .select(ATTACHMENT_FIELDS)
+        .in('id', attachmentIds)
+        .in('certificate_id', certificateIds)
+        .eq('user_id', share.user_id);
+
+      if (attachmentsError) {
+        console.error('Error loading shared attachments:', attachmentsError);
+        return jsonResponse({ error: 'Failed to load certificates' }, 500);
+      }
+
+      attachments = data || [];
+    }
+
+    await notifyShareViewed(share, certificates || []);
+
+    if (recipientEmail) {
+      await logRecipientAccess(req, share, recipientEmail, (certificates || []).map(c => c.id), 'view');
+    }
+
+    return jsonResponse({
+      isValid: true,
+      share: publicShare(share),
+      recipientEmail,
+      verificationToken: newVerificationToken,
+      certificates: await Promise.all(
+        (certificates || []).map(async certificate => redactCertificate({
+          ...(await withFileAccess(certificate, false)),
+          attachments: attachments.filter(a => a.certificate_id === certificate.id)
+        }, hiddenFields))
+      )
+    });
+  } catch (err) {
+    console.error('Error resolving share:', err);
+    return jsonResponse({ error: 'Invalid request' }, 400);
+  }
+});
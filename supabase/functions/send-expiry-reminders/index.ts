@@ -0,0 +1,307 @@
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { supabaseAdmin } from '../_shared/supabase-admin.ts';
+import { sendMail } from '../_shared/sendgrid.ts';
+import { sendPushToUser } from '../_shared/web-push.ts';
+import {
+  generateExpiryDigestTemplate,
+  generateExpiryReminderTemplate,
+  type ReminderCertificate
+} from '../_shared/reminder-templates.ts';
+
+interface SendRemindersRequest {
+  /** Report what would be sent without sending or recording anything */
+  dryRun?: boolean;
+}
+
+type ReminderKind = 'expiring' | 'expired';
+type Delivery = 'immediate' | 'digest';
+
+interface PendingReminder extends ReminderCertificate {
+  certificateId: string;
+  userId: string;
+  kind: ReminderKind;
+}
+
+interface ReminderSettings {
+  email_notifications: boolean;
+  push_notifications: boolean;
+  auto_renewal_reminders: boolean;
+  notification_frequency: string;
+}
+
+// Used for users who never saved their settings; matches the column defaults
+const DEFAULT_SETTINGS: ReminderSettings = {
+  email_notifications: true,
+  push_notifications: true,
+  auto_renewal_reminders: true,
+  notification_frequency: 'daily'
+};
+
+// Minimum whole days between two digests
+const DIGEST_INTERVAL_DAYS: Record<string, number> = {
+  daily: 1,
+  weekly: 7
+};
+
+// Certificates that expired longer ago than this are not reminded about, so
+// enabling reminders does not flood users with long-expired records
+const EXPIRED_LOOKBACK_DAYS = 30;
+
+const APP_URL = Deno.env.get('APP_URL') ?? undefined;
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to.slice(0, 10)) - Date.parse(from.slice(0, 10))) / DAY_MS);
+
+const shiftDate = (date: string, days: number) =>
+  new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+const reminderKey = (certificateId: string, kind: string, expiryDate: string) =>
+  `${certificateId}:${kind}:${expiryDate}`;
+
+// Certificates in their reminder window that have not been reminded about yet.
+// Stored statuses already reflect each user's expiry_reminders_days.
+const loadPendingReminders = async (today: string): Promise<PendingReminder[]> => {
+  const { data: certificates, error } = await supabaseAdmin
+    .from('certificates')
+    .select('id, user_id, title, cert_number, expiry_date, status')
+    .eq('is_archived', false)
+    .in('status', ['expiring', 'expired'])
+    .gte('expiry_date', shiftDate(today, -EXPIRED_LOOKBACK_DAYS));
+
+  if (error) throw error;
+  if (!certificates || certificates.length === 0) return [];
+
+  const { data: sent, error: sentError } = await supabaseAdmin
+    .from('certificate_reminders')
+    .select('certificate_id, kind, expiry_date')
+    .in('certificate_id', certificates.map(c => c.id));
+
+  if (sentError) throw sentError;
+
+  const alreadySent = new Set(
+    (sent || []).map(r => reminderKey(r.certificate_id, r.kind, r.expiry_date))
+  );
+
+  return certificates
+    .map(cert => {
+      const daysRemaining = daysBetween(today, cert.expiry_date);
+      return {
+        certificateId: cert.id,
+        userId: cert.user_id,
+        title: cert.title,
+        certNumber: cert.cert_number,
+        expiryDate: cert.expiry_date,
+        daysRemaining,
+        kind: (daysRemaining < 0 ? 'expired' : 'expiring') as ReminderKind
+      };
+    })
+    .filter(r => !alreadySent.has(reminderKey(r.certificateId, r.kind, r.expiryDate)));
+};
+
+const loadSettings = async (userIds: string[]) => {
+  const { data, error } = await supabaseAdmin
+    .from('settings')
+    .select('user_id, email_notifications, push_notifications, auto_renewal_reminders, notification_frequency')
+    .in('user_id', userIds);
+
+  if (error) throw error;
+
+  return new Map<string, ReminderSettings>(
+    (data || []).map(s => [s.user_id, { ...DEFAULT_SETTINGS, ...s }])
+  );
+};
+
+// Date of each user's most recent digest within the longest digest interval
+const loadLastDigestDates = async (userIds: string[], today: string) => {
+  const longestInterval = Math.max(...Object.values(DIGEST_INTERVAL_DAYS));
+  const { data, error } = await supabaseAdmin
+    .from('certificate_reminders')
+    .select('user_id, sent_at')
+    .eq('delivery', 'digest')
+    .in('user_id', userIds)
+    .gte('sent_at', shiftDate(today, -longestInterval));
+
+  if (error) throw error;
+
+  const lastDigest = new Map<string, string>();
+  (data || []).forEach(r => {
+    const sentDate = r.sent_at.slice(0, 10);
+    if (!lastDigest.has(r.user_id) || sentDate > lastDigest.get(r.user_id)!) {
+      lastDigest.set(r.user_id, sentDate);
+    }
+  });
+  return lastDigest;
+};
+
+const loadRecipient = async (userId: string) => {
+  const { data: { user }, error } = await supabaseAdmin.auth.admin.getUserById(userId);
+  if (error || !user?.email) {
+    console.error('Error loading reminder recipient:', error);
+    return null;
+  }
+
+  const { data: profile } = await supabaseAdmin
+    .from('profiles')
+    .select('name')
+    .eq('id', userId)
+    .maybeSingle();
+
+  return {
+    email: user.email,
+    name: profile?.name || user.email.split('@')[0]
+  };
+};
+
+// Records the reminders first so concurrent runs cannot both send them, then
+// releases the records again if no channel delivered them
+const deliver = async (
+  reminders: PendingReminder[],
+  delivery: Delivery,
+  userId: string,
+  settings: ReminderSettings,
+  recipient: { email: string; name: string } | null
+): Promise<number> => {
+  const { data: claimed, error } = await supabaseAdmin
+    .from('certificate_reminders')
+    .upsert(
+      reminders.map(r => ({
+        user_id: r.userId,
+        certificate_id: r.certificateId,
+        kind: r.kind,
+        expiry_date: r.expiryDate,
+        delivery
+      })),
+      { onConflict: 'certificate_id,kind,expiry_date', ignoreDuplicates: true }
+    )
+    .select('id, certificate_id');
+
+  if (error) throw error;
+  if (!claimed || claimed.length === 0) return 0;
+
+  const claimedIds = new Set(claimed.map(c => c.certificate_id));
+  const toSend = reminders.filter(r => claimedIds.has(r.certificateId));
+
+  const name = recipient?.name ?? '';
+  const template = delivery === 'digest'
+    ? generateExpiryDigestTemplate(name, toSend, APP_URL)
+    : generateExpiryReminderTemplate(name, toSend[0], APP_URL);
+
+  let sent = false;
+
+  if (settings.email_notifications && recipient) {
+    sent = await sendMail({
+      to: recipient.email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+      categories: ['expiry-reminder']
+    });
+  }
+
+  if (settings.push_notifications) {
+    const pushed = await sendPushToUser(userId, {
+      title: template.subject,
+      body: toSend.map(r => r.title).join(', '),
+      url: APP_URL,
+      tag: `expiry-reminder-${delivery === 'digest' ? 'digest' : toSend[0].certificateId}`
+    });
+    sent = sent || pushed > 0;
+  }
+
+  if (!sent) {
+    await supabaseAdmin
+      .from('certificate_reminders')
+      .delete()
+      .in('id', claimed.map(c => c.id));
+    throw new Error('Failed to send reminder');
+  }
+
+  return toSend.length;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  // Only the scheduler (or an operator) may trigger reminders
+  if (!SERVICE_ROLE_KEY || req.headers.get('Authorization') !== `Bearer ${SERVICE_ROLE_KEY}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const { dryRun = false }: SendRemindersRequest = await req.json().catch(() => ({}));
+    const today = new Date().toISOString().slice(0, 10);
+
+    const pending = await loadPendingReminders(today);
+    const userIds = [...new Set(pending.map(r => r.userId))];
+    if (userIds.length === 0) {
+      return jsonResponse({ sent: 0, failed: 0, planned: [] });
+    }
+
+    const settingsByUser = await loadSettings(userIds);
+    const lastDigestByUser = await loadLastDigestDates(userIds, today);
+
+    const planned: { userId: string; delivery: Delivery; certificateIds: string[] }[] = [];
+    let sent = 0;
+    let failed = 0;
+
+    for (const userId of userIds) {
+      const settings = settingsByUser.get(userId) ?? DEFAULT_SETTINGS;
+      if (!settings.email_notifications && !settings.push_notifications) continue;
+
+      // Expired certificates are a prompt to renew
+      const reminders = pending.filter(r =>
+        r.userId === userId && (r.kind === 'expiring' || settings.auto_renewal_reminders)
+      );
+      if (reminders.length === 0) continue;
+
+      const batches: { delivery: Delivery; reminders: PendingReminder[] }[] = [];
+      if (settings.notification_frequency === 'immediate') {
+        reminders.forEach(r => batches.push({ delivery: 'immediate', reminders: [r] }));
+      } else {
+        const interval = DIGEST_INTERVAL_DAYS[settings.notification_frequency] ?? DIGEST_INTERVAL_DAYS.daily;
+        const lastDigest = lastDigestByUser.get(userId);
+        if (!lastDigest || daysBetween(lastDigest, today) >= interval) {
+          batches.push({ delivery: 'digest', reminders });
+        }
+      }
+
+      if (batches.length === 0) continue;
+
+      batches.forEach(b => planned.push({
+        userId,
+        delivery: b.delivery,
+        certificateIds: b.reminders.map(r => r.certificateId)
+      }));
+      if (dryRun) continue;
+
+      const recipient = settings.email_notifications ? await loadRecipient(userId) : null;
+      if (!recipient && !settings.push_notifications) {
+        failed += batches.length;
+        continue;
+      }
+
+      for (const batch of batches) {
+        try {
+          sent += await deliver(batch.reminders, batch.delivery, userId, settings, recipient);
+        } catch (error) {
+          console.error('Error delivering reminders:', error);
+          failed++;
+        }
+      }
+    }
+
+    return jsonResponse({ sent, failed, planned, dryRun });
+  } catch (error) {
+    console.error('Error sending expiry reminders:', error);
+    return jsonResponse({ error: 'Failed to send expiry reminders' }, 500);
+  }
+});
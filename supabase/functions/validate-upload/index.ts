@@ -0,0 +1,80 @@
+import { decompressSync } from 'npm:fflate@0.8.3';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { supabaseAdmin } from '../_shared/supabase-admin.ts';
+import { checkStoredFile } from '../_shared/file-policy.ts';
+
+// Called by a trigger on storage.objects for every file written to the
+// certificates bucket. Files that break the upload policy are deleted, so
+// clients that skip the browser checks cannot store them, and the records
+// using them are marked so the owner can see why the file is gone.
+
+interface ValidateUploadRequest {
+  /** Object path in the bucket, e.g. "<user id>/<random>.pdf" */
+  name?: string;
+  bucket?: string;
+}
+
+const BUCKET = 'certificates';
+const FILE_TABLES = ['certificates', 'certificate_attachments'];
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  // Only the storage trigger (or an operator) may run validation
+  if (!SERVICE_ROLE_KEY || req.headers.get('Authorization') !== `Bearer ${SERVICE_ROLE_KEY}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const { name, bucket = BUCKET }: ValidateUploadRequest = await req.json().catch(() => ({}));
+    if (!name || bucket !== BUCKET) {
+      return jsonResponse({ error: 'Object name is required' }, 400);
+    }
+
+    const { data: file, error: downloadError } = await supabaseAdmin.storage
+      .from(BUCKET)
+      .download(name);
+
+    // Already deleted, e.g. a replaced attachment
+    if (downloadError || !file) {
+      return jsonResponse({ valid: null, reason: 'File not found' });
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const reason = checkStoredFile(name, file.type, bytes, decompressSync);
+    if (!reason) {
+      return jsonResponse({ valid: true });
+    }
+
+    console.warn(`Rejected upload ${name}: ${reason}`);
+    const { error: removeError } = await supabaseAdmin.storage.from(BUCKET).remove([name]);
+    if (removeError) {
+      console.error('Error removing rejected upload:', removeError);
+      return jsonResponse({ error: 'Failed to remove rejected file' }, 500);
+    }
+
+    // Records saved after this point are marked by a database trigger instead
+    for (const table of FILE_TABLES) {
+      const { error: markError } = await supabaseAdmin
+        .from(table)
+        .update({ file_rejected: true, file_rejected_reason: reason })
+        .eq('file_path', name);
+
+      if (markError) {
+        console.error(`Error marking ${table} with a rejected file:`, markError);
+      }
+    }
+
+    return jsonResponse({ valid: false, reason });
+  } catch (error) {
+    console.error('Error validating upload:', error);
+    return jsonResponse({ error: 'Failed to validate upload' }, 500);
+  }
+});
@@ -0,0 +1,60 @@
+/*
+  # Access Logging Pipeline
+
+  1. Changes
+    - Recreate `increment_link_view_count()` as SECURITY DEFINER so view counts
+      are updated when anonymous share visitors insert access logs
+    - Add `increment_share_download_count()` RPC for atomic download counting
+    - Add indexes used by access statistics queries
+
+  2. Security
+    - Download counts can only be incremented on active, non-exhausted shares
+    - Functions run with a fixed search_path
+*/
+
+-- Recreate view count trigger function so it bypasses RLS on link_shares
+CREATE OR REPLACE FUNCTION increment_link_view_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.access_type = 'view' AND NEW.share_id IS NOT NULL THEN
+    UPDATE link_shares
+    SET view_count = COALESCE(view_count, 0) + 1
+    WHERE id::text = NEW.share_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_access_log_insert ON access_logs;
+
+CREATE TRIGGER on_access_log_insert
+  AFTER INSERT ON access_logs
+  FOR EACH ROW
+  WHEN (NEW.access_method = 'link')
+  EXECUTE FUNCTION increment_link_view_count();
+
+-- Atomically increment the download count of an active share
+CREATE OR REPLACE FUNCTION increment_share_download_count(p_share_id uuid)
+RETURNS integer AS $$
+DECLARE
+  new_count integer;
+BEGIN
+  UPDATE link_shares
+  SET download_count = COALESCE(download_count, 0) + 1
+  WHERE id = p_share_id
+    AND is_revoked = false
+    AND (expires_at IS NULL OR expires_at > now())
+    AND (max_downloads IS NULL OR COALESCE(download_count, 0) < max_downloads)
+  RETURNING download_count INTO new_count;
+
+  RETURN COALESCE(new_count, -1);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION increment_share_download_count(uuid) TO anon;
+GRANT EXECUTE ON FUNCTION increment_share_download_count(uuid) TO authenticated;
+
+-- Indexes for access statistics
+CREATE INDEX IF NOT EXISTS access_logs_share_id_idx ON access_logs(share_id);
+CREATE INDEX IF NOT EXISTS access_logs_access_type_idx ON access_logs(access_type);
@@ -0,0 +1,33 @@
+/*
+  # Server-Side Share Resolution
+
+  1. Changes
+    - Share tokens are now resolved by the `resolve-share` edge function,
+      which checks expiry, revocation, download limits and passwords
+    - Remove direct anonymous read access to `link_shares`, `certificates`,
+      `profiles` and certificate files
+
+  2. Security
+    - `password_hash` is no longer readable from the browser
+    - Download counts are only incremented by the edge function; neither
+      visitors nor signed-in users can call the increment directly
+*/
+
+-- Remove anonymous read policies
+DROP POLICY IF EXISTS "Anonymous users can view active link shares" ON link_shares;
+DROP POLICY IF EXISTS "Anonymous users can view shared certificates" ON certificates;
+DROP POLICY IF EXISTS "Anonymous users can view shared profiles" ON profiles;
+DROP POLICY IF EXISTS "Anonymous users can view shared certificates" ON storage.objects;
+
+REVOKE SELECT ON link_shares FROM anon;
+REVOKE SELECT ON certificates FROM anon;
+REVOKE SELECT ON profiles FROM anon;
+
+-- Download counting goes through the edge function (service role)
+REVOKE EXECUTE ON FUNCTION increment_share_download_count(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION increment_share_download_count(uuid) FROM authenticated;
+REVOKE EXECUTE ON FUNCTION increment_share_download_count(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION increment_share_download_count(uuid) TO service_role;
+
+-- Tokens are looked up on every visit
+CREATE UNIQUE INDEX IF NOT EXISTS link_shares_token_unique_idx ON link_shares(token);
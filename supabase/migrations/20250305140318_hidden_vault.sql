@@ -0,0 +1,57 @@
+/*
+  # Encrypted Certificate Vault
+
+  1. Changes
+    - Add vault columns to `settings`:
+      - `vault_enabled` (boolean) - encrypt new uploads in the browser
+      - `vault_key_check` (text) - known value encrypted with the vault
+        passphrase, used to verify the passphrase on unlock
+    - Add columns to `certificates`:
+      - `is_encrypted` (boolean)
+      - `file_key` (text) - per-file key wrapped with the vault passphrase
+      - `file_type` (text) - MIME type of the original file
+
+  2. Security
+    - Neither the vault passphrase nor unwrapped file keys are ever stored
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'settings' AND column_name = 'vault_enabled'
+  ) THEN
+    ALTER TABLE settings ADD COLUMN vault_enabled boolean DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'settings' AND column_name = 'vault_key_check'
+  ) THEN
+    ALTER TABLE settings ADD COLUMN vault_key_check text;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'certificates' AND column_name = 'is_encrypted'
+  ) THEN
+    ALTER TABLE certificates ADD COLUMN is_encrypted boolean DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'certificates' AND column_name = 'file_key'
+  ) THEN
+    ALTER TABLE certificates ADD COLUMN file_key text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'certificates' AND column_name = 'file_type'
+  ) THEN
+    ALTER TABLE certificates ADD COLUMN file_type text;
+  END IF;
+END $$;
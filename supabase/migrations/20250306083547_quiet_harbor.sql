@@ -0,0 +1,41 @@
+/*
+  # Store Certificate File Paths Instead of Public URLs
+
+  1. Changes
+    - Add `file_path` (text) to `certificates` - object path in the
+      `certificates` storage bucket
+    - Backfill `file_path` from existing `file_url` values
+    - Drop `file_url`
+
+  2. Security
+    - Files are only reachable through short-lived signed URLs created for
+      the owner or by the `resolve-share` edge function
+    - Make sure the `certificates` bucket is private
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'certificates' AND column_name = 'file_path'
+  ) THEN
+    ALTER TABLE certificates ADD COLUMN file_path text;
+  END IF;
+END $$;
+
+-- Public URLs look like .../storage/v1/object/public/certificates/<user_id>/<file>
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'certificates' AND column_name = 'file_url'
+  ) THEN
+    UPDATE certificates
+    SET file_path = substring(file_url FROM '/storage/v1/object/(?:public|sign)/certificates/([^?]+)')
+    WHERE file_path IS NULL AND file_url IS NOT NULL;
+
+    ALTER TABLE certificates DROP COLUMN file_url;
+  END IF;
+END $$;
+
+UPDATE storage.buckets SET public = false WHERE id = 'certificates';
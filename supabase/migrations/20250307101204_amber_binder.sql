@@ -0,0 +1,97 @@
+/*
+  # Certificate Attachments
+
+  1. New Tables
+    - `certificate_attachments`
+      - `id` (uuid, primary key)
+      - `certificate_id` (uuid, references certificates)
+      - `user_id` (uuid, references profiles)
+      - `label` (text) - e.g. "Certificate", "Transcript"
+      - `version` (integer) - increments per certificate and label
+      - `file_path` (text) - object path in the `certificates` bucket
+      - `file_type` (text) - MIME type
+      - `file_size` (bigint) - size in bytes
+      - `checksum` (text) - SHA-256 of the uploaded file, hex encoded
+      - `is_encrypted` (boolean)
+      - `file_key` (text) - per-file key wrapped with the vault passphrase
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Add `attachment_ids` (uuid[]) to `link_shares` - attachments included
+      in the share in addition to each certificate's current file
+    - Backfill one "Certificate" attachment for every certificate with a file
+
+  3. Security
+    - Enable RLS on `certificate_attachments`
+    - Owners can view, create and delete their own attachments
+*/
+
+CREATE TABLE IF NOT EXISTS certificate_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  certificate_id uuid REFERENCES certificates(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  label text NOT NULL DEFAULT 'Certificate',
+  version integer NOT NULL DEFAULT 1,
+  file_path text NOT NULL,
+  file_type text,
+  file_size bigint,
+  checksum text,
+  is_encrypted boolean DEFAULT false,
+  file_key text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (certificate_id, label, version)
+);
+
+CREATE INDEX IF NOT EXISTS certificate_attachments_certificate_id_idx
+  ON certificate_attachments(certificate_id);
+
+ALTER TABLE certificate_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own attachments" ON certificate_attachments;
+DROP POLICY IF EXISTS "Users can create own attachments" ON certificate_attachments;
+DROP POLICY IF EXISTS "Users can delete own attachments" ON certificate_attachments;
+
+CREATE POLICY "Users can view own attachments"
+  ON certificate_attachments
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own attachments"
+  ON certificate_attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM certificates
+      WHERE certificates.id = certificate_id AND certificates.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own attachments"
+  ON certificate_attachments
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'link_shares' AND column_name = 'attachment_ids'
+  ) THEN
+    ALTER TABLE link_shares ADD COLUMN attachment_ids uuid[];
+  END IF;
+END $$;
+
+-- Existing files become version 1 of the "Certificate" attachment
+INSERT INTO certificate_attachments (
+  certificate_id, user_id, label, version, file_path, file_type, is_encrypted, file_key, created_at
+)
+SELECT c.id, c.user_id, 'Certificate', 1, c.file_path, c.file_type, COALESCE(c.is_encrypted, false), c.file_key, c.created_at
+FROM certificates c
+WHERE c.file_path IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM certificate_attachments a WHERE a.certificate_id = c.id
+  );
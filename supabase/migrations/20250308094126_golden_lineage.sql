@@ -0,0 +1,142 @@
+/*
+  # Certificate Renewal History
+
+  1. Changes
+    - Add columns to `certificates`:
+      - `lineage_id` (uuid) - shared by every renewal of the same certificate
+      - `previous_certificate_id` (uuid) - the record this one renewed
+      - `is_archived` (boolean) - true once a certificate has been renewed
+      - `archived_at` (timestamptz)
+    - Add `follow_latest` (boolean) to `link_shares` - show the newest renewal
+      of each shared certificate instead of the exact record that was shared
+    - Add `renew_certificate()` RPC that creates the successor and archives
+      the predecessor in one transaction
+
+  2. Security
+    - Archived certificates can no longer be updated
+    - `renew_certificate()` runs with the caller's permissions, so RLS applies
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'certificates' AND column_name = 'lineage_id'
+  ) THEN
+    ALTER TABLE certificates ADD COLUMN lineage_id uuid;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'certificates' AND column_name = 'previous_certificate_id'
+  ) THEN
+    ALTER TABLE certificates ADD COLUMN previous_certificate_id uuid REFERENCES certificates(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'certificates' AND column_name = 'is_archived'
+  ) THEN
+    ALTER TABLE certificates ADD COLUMN is_archived boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'certificates' AND column_name = 'archived_at'
+  ) THEN
+    ALTER TABLE certificates ADD COLUMN archived_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'link_shares' AND column_name = 'follow_latest'
+  ) THEN
+    ALTER TABLE link_shares ADD COLUMN follow_latest boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+-- Every existing certificate starts its own lineage
+UPDATE certificates SET lineage_id = id WHERE lineage_id IS NULL;
+
+CREATE OR REPLACE FUNCTION set_certificate_lineage()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.lineage_id IS NULL THEN
+    NEW.lineage_id := NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS before_certificate_insert_lineage ON certificates;
+
+CREATE TRIGGER before_certificate_insert_lineage
+  BEFORE INSERT ON certificates
+  FOR EACH ROW
+  EXECUTE FUNCTION set_certificate_lineage();
+
+CREATE INDEX IF NOT EXISTS certificates_lineage_id_idx ON certificates(lineage_id);
+
+-- Archived certificates are read-only; archiving itself is allowed
+DROP POLICY IF EXISTS "Users can update own certificates" ON certificates;
+
+CREATE POLICY "Users can update own certificates"
+  ON certificates
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id AND is_archived = false)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create the successor of a certificate and archive the predecessor
+CREATE OR REPLACE FUNCTION renew_certificate(
+  p_certificate_id uuid,
+  p_completion_date date,
+  p_expiry_date date,
+  p_cert_number text DEFAULT NULL,
+  p_file_path text DEFAULT NULL,
+  p_file_type text DEFAULT NULL,
+  p_is_encrypted boolean DEFAULT false,
+  p_file_key text DEFAULT NULL
+)
+RETURNS certificates AS $$
+DECLARE
+  predecessor certificates;
+  successor certificates;
+BEGIN
+  SELECT * INTO predecessor
+  FROM certificates
+  WHERE id = p_certificate_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certificate not found';
+  END IF;
+
+  IF predecessor.is_archived THEN
+    RAISE EXCEPTION 'Certificate has already been renewed';
+  END IF;
+
+  INSERT INTO certificates (
+    user_id, title, type, issuer, description, cert_number,
+    completion_date, expiry_date, status,
+    file_path, file_type, is_encrypted, file_key,
+    lineage_id, previous_certificate_id
+  )
+  VALUES (
+    predecessor.user_id, predecessor.title, predecessor.type, predecessor.issuer,
+    predecessor.description, COALESCE(p_cert_number, predecessor.cert_number),
+    p_completion_date, p_expiry_date, 'valid',
+    p_file_path, p_file_type, COALESCE(p_is_encrypted, false), p_file_key,
+    COALESCE(predecessor.lineage_id, predecessor.id), predecessor.id
+  )
+  RETURNING * INTO successor;
+
+  UPDATE certificates
+  SET is_archived = true, archived_at = now()
+  WHERE id = predecessor.id;
+
+  RETURN successor;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION renew_certificate(uuid, date, date, text, text, text, boolean, text) TO authenticated;
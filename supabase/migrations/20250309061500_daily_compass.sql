@@ -0,0 +1,114 @@
+/*
+  # Configurable Expiry Window and Daily Status Refresh
+
+  1. Changes
+    - Add `certificate_status()` - the single definition of valid / expiring /
+      expired, also mirrored in src/lib/certificate-status.ts
+    - `update_certificate_status()` now uses the owner's
+      `settings.expiry_reminders_days` instead of a fixed 30 days
+    - Add `refresh_certificate_statuses()` to recompute stored statuses
+    - Recompute a user's certificates when their expiry window changes
+    - Schedule a daily refresh with pg_cron so certificates expire without
+      being edited
+
+  2. Security
+    - `refresh_certificate_statuses()` is SECURITY DEFINER and can only be
+      called by the service role, the scheduler and the settings trigger
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Expired after the expiry date; expiring when fewer than p_window_days remain
+CREATE OR REPLACE FUNCTION certificate_status(p_expiry_date date, p_window_days integer)
+RETURNS text AS $$
+BEGIN
+  IF p_expiry_date IS NULL THEN
+    RETURN 'valid';
+  ELSIF p_expiry_date < CURRENT_DATE THEN
+    RETURN 'expired';
+  ELSIF p_expiry_date < CURRENT_DATE + COALESCE(p_window_days, 30) THEN
+    RETURN 'expiring';
+  END IF;
+
+  RETURN 'valid';
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION update_certificate_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  window_days integer;
+BEGIN
+  SELECT expiry_reminders_days INTO window_days
+  FROM settings
+  WHERE user_id = NEW.user_id;
+
+  NEW.status := certificate_status(NEW.expiry_date, window_days);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS before_certificate_insert_update ON certificates;
+
+CREATE TRIGGER before_certificate_insert_update
+  BEFORE INSERT OR UPDATE ON certificates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_certificate_status();
+
+-- Recompute stored statuses, for one user or everyone
+CREATE OR REPLACE FUNCTION refresh_certificate_statuses(p_user_id uuid DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  updated_count integer;
+BEGIN
+  UPDATE certificates c
+  SET status = certificate_status(c.expiry_date, s.expiry_reminders_days)
+  FROM (
+    SELECT c2.id, st.expiry_reminders_days
+    FROM certificates c2
+    LEFT JOIN settings st ON st.user_id = c2.user_id
+    WHERE p_user_id IS NULL OR c2.user_id = p_user_id
+  ) s
+  WHERE c.id = s.id
+    AND c.status IS DISTINCT FROM certificate_status(c.expiry_date, s.expiry_reminders_days);
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION refresh_certificate_statuses(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION refresh_certificate_statuses(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION refresh_certificate_statuses(uuid) FROM authenticated;
+GRANT EXECUTE ON FUNCTION refresh_certificate_statuses(uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION on_expiry_window_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_certificate_statuses(NEW.user_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS after_settings_expiry_window_change ON settings;
+
+CREATE TRIGGER after_settings_expiry_window_change
+  AFTER INSERT OR UPDATE OF expiry_reminders_days ON settings
+  FOR EACH ROW
+  EXECUTE FUNCTION on_expiry_window_change();
+
+-- Bring existing rows up to date, then refresh daily just after midnight UTC
+SELECT refresh_certificate_statuses();
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'refresh-certificate-statuses') THEN
+    PERFORM cron.unschedule('refresh-certificate-statuses');
+  END IF;
+
+  PERFORM cron.schedule(
+    'refresh-certificate-statuses',
+    '5 0 * * *',
+    'SELECT public.refresh_certificate_statuses()'
+  );
+END $$;
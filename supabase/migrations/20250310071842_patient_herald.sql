@@ -0,0 +1,92 @@
+/*
+  # Expiry Reminder Notifications
+
+  1. New Tables
+    - `certificate_reminders` - one row per reminder sent, so each certificate
+      is reminded at most once per stage and expiry date
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `certificate_id` (uuid, references certificates)
+      - `kind` (text) - 'expiring' or 'expired'
+      - `expiry_date` (date) - the expiry date the reminder was about
+      - `delivery` (text) - 'immediate' or 'digest'
+      - `sent_at` (timestamptz)
+
+  2. Changes
+    - Constrain `settings.notification_frequency` to 'immediate', 'daily' or
+      'weekly'
+    - Schedule the `send-expiry-reminders` edge function hourly with pg_cron
+      and pg_net. The project URL and service role key are read from Vault
+      secrets named `project_url` and `service_role_key`
+
+  3. Security
+    - Enable RLS on `certificate_reminders`
+    - Users can view their own reminder history; only the service role writes
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE TABLE IF NOT EXISTS certificate_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles ON DELETE CASCADE NOT NULL,
+  certificate_id uuid REFERENCES certificates ON DELETE CASCADE NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('expiring', 'expired')),
+  expiry_date date NOT NULL,
+  delivery text NOT NULL CHECK (delivery IN ('immediate', 'digest')),
+  sent_at timestamptz DEFAULT now(),
+  UNIQUE (certificate_id, kind, expiry_date)
+);
+
+CREATE INDEX IF NOT EXISTS certificate_reminders_user_id_sent_at_idx
+  ON certificate_reminders(user_id, sent_at DESC);
+
+ALTER TABLE certificate_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own certificate reminders"
+  ON certificate_reminders
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Anything unrecognised falls back to the column default
+UPDATE settings
+SET notification_frequency = 'daily'
+WHERE notification_frequency IS NULL
+   OR notification_frequency NOT IN ('immediate', 'daily', 'weekly');
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'settings_notification_frequency_check'
+  ) THEN
+    ALTER TABLE settings
+      ADD CONSTRAINT settings_notification_frequency_check
+      CHECK (notification_frequency IN ('immediate', 'daily', 'weekly'));
+  END IF;
+END $$;
+
+-- Run hourly so 'immediate' reminders go out soon after a certificate enters
+-- its window; the function itself decides when digests are due
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'send-expiry-reminders') THEN
+    PERFORM cron.unschedule('send-expiry-reminders');
+  END IF;
+
+  PERFORM cron.schedule(
+    'send-expiry-reminders',
+    '15 * * * *',
+    $job$
+    SELECT net.http_post(
+      url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+        || '/functions/v1/send-expiry-reminders',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+      ),
+      body := '{}'::jsonb
+    );
+    $job$
+  );
+END $$;
@@ -0,0 +1,73 @@
+/*
+  # Web Push Subscriptions
+
+  1. New Tables
+    - `push_subscriptions` - one row per browser that accepted notifications
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `endpoint` (text, unique) - push service URL for the browser
+      - `p256dh` (text) - browser public key for payload encryption
+      - `auth` (text) - browser auth secret
+      - `user_agent` (text)
+      - `created_at` (timestamptz)
+      - `last_used_at` (timestamptz) - last successful delivery
+
+  2. Changes
+    - Add `last_view_notified_at` (timestamptz) to `link_shares` so owners are
+      not notified about every single page view of a share
+
+  3. Security
+    - Enable RLS on `push_subscriptions`
+    - Users can view, add and remove their own subscriptions; only the service
+      role sends notifications
+*/
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles ON DELETE CASCADE NOT NULL,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz DEFAULT now(),
+  last_used_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS push_subscriptions_user_id_idx ON push_subscriptions(user_id);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push subscriptions"
+  ON push_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own push subscriptions"
+  ON push_subscriptions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own push subscriptions"
+  ON push_subscriptions
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own push subscriptions"
+  ON push_subscriptions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'link_shares' AND column_name = 'last_view_notified_at'
+  ) THEN
+    ALTER TABLE link_shares ADD COLUMN last_view_notified_at timestamptz;
+  END IF;
+END $$;
@@ -0,0 +1,50 @@
+/*
+  # Calendar Feeds
+
+  1. New Tables
+    - `calendar_feeds` - one subscribable ICS feed per user
+      - `user_id` (uuid, primary key, references profiles)
+      - `token` (text, unique) - secret part of the feed URL
+      - `created_at` (timestamptz)
+      - `last_accessed_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `calendar_feeds`
+    - Users can create, view, replace and delete their own feed
+    - The feed itself is served by the `calendar-feed` edge function, which
+      looks up the token with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id uuid PRIMARY KEY REFERENCES profiles ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  created_at timestamptz DEFAULT now(),
+  last_accessed_at timestamptz
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar feed"
+  ON calendar_feeds
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own calendar feed"
+  ON calendar_feeds
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own calendar feed"
+  ON calendar_feeds
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own calendar feed"
+  ON calendar_feeds
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,48 @@
+/*
+  # Certificate Upload Policy
+
+  1. Changes
+    - Limit the `certificates` storage bucket to 10MB files of type PDF, JPEG,
+      PNG or application/octet-stream (vault-encrypted files)
+    - Add a trigger on `storage.objects` that sends every new or replaced file
+      in the bucket to the `validate-upload` edge function, which checks its
+      contents and deletes files that break the policy. The project URL and
+      service role key are read from the Vault secrets `project_url` and
+      `service_role_key`, as for expiry reminders
+
+  2. Security
+    - The trigger function runs as its owner so it can read the Vault secrets;
+      it only queues an HTTP request and never changes the uploaded object
+*/
+
+UPDATE storage.buckets
+SET
+  file_size_limit = 10485760,
+  allowed_mime_types = ARRAY['application/pdf', 'image/jpeg', 'image/png', 'application/octet-stream']
+WHERE id = 'certificates';
+
+CREATE OR REPLACE FUNCTION public.validate_certificate_upload()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.bucket_id = 'certificates' THEN
+    PERFORM net.http_post(
+      url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+        || '/functions/v1/validate-upload',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+      ),
+      body := jsonb_build_object('bucket', NEW.bucket_id, 'name', NEW.name)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS validate_certificate_upload ON storage.objects;
+
+CREATE TRIGGER validate_certificate_upload
+  AFTER INSERT OR UPDATE OF name, metadata ON storage.objects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_certificate_upload();
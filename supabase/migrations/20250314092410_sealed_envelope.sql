@@ -0,0 +1,56 @@
+/*
+  # Recipient-Bound Share Links
+
+  1. Changes
+    - Add `recipient_emails` (text[]) to `link_shares`. When set, only these
+      addresses can open the link, after verifying a one-time code emailed to
+      them by the `resolve-share` edge function
+    - New table `share_verifications`
+      - `id` (uuid, primary key)
+      - `share_id` (uuid, references link_shares)
+      - `email` (text) - address the code was sent to, lower case
+      - `code_hash` (text) - SHA-256 of the code; the code itself is never stored
+      - `expires_at` (timestamptz) - when the code stops working
+      - `attempts` (integer) - wrong codes entered so far
+      - `verified_at` (timestamptz)
+      - `session_hash` (text) - SHA-256 of the token handed to the verified visitor
+      - `session_expires_at` (timestamptz)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - RLS is enabled on `share_verifications` with no policies, so only the
+      service role used by edge functions can read or write it
+    - Views and downloads of recipient-bound links are logged by the edge
+      function with the verified `recipient_email`, not by the visitor's browser
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'link_shares' AND column_name = 'recipient_emails'
+  ) THEN
+    ALTER TABLE link_shares ADD COLUMN recipient_emails text[];
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS share_verifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  share_id uuid REFERENCES link_shares(id) ON DELETE CASCADE NOT NULL,
+  email text NOT NULL,
+  code_hash text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  verified_at timestamptz,
+  session_hash text,
+  session_expires_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE share_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS share_verifications_share_email_idx
+  ON share_verifications(share_id, email, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS share_verifications_session_hash_idx
+  ON share_verifications(session_hash)
+  WHERE session_hash IS NOT NULL;
@@ -0,0 +1,63 @@
+/*
+  # Share Access Requests
+
+  1. New Tables
+    - `share_access_requests` - a visitor asking for access to a link that
+      has expired, been revoked or run out of downloads
+      - `id` (uuid, primary key)
+      - `share_id` (uuid, references link_shares) - the link that was opened
+      - `user_id` (uuid, references profiles) - the link's owner
+      - `name` (text)
+      - `email` (text) - lower case; an approved request gets a link bound to it
+      - `organisation` (text)
+      - `reason` (text)
+      - `status` (text) - 'pending', 'approved' or 'denied'
+      - `issued_share_id` (uuid, references link_shares) - the link created on approval
+      - `created_at` (timestamptz)
+      - `decided_at` (timestamptz)
+      - `notified_at` (timestamptz) - when the requester was emailed the answer
+
+  2. Security
+    - Enable RLS on `share_access_requests`
+    - Owners can view and answer requests for their links. Visitors cannot
+      read or write the table; requests are stored by the `resolve-share`
+      edge function, which allows one pending request per address and link
+    - Requesters are emailed the answer by the `notify-access-request` edge
+      function, once per request
+*/
+
+CREATE TABLE IF NOT EXISTS share_access_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  share_id uuid REFERENCES link_shares(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  email text NOT NULL,
+  organisation text,
+  reason text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'denied')),
+  issued_share_id uuid REFERENCES link_shares(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  decided_at timestamptz,
+  notified_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS share_access_requests_user_id_created_at_idx
+  ON share_access_requests(user_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS share_access_requests_pending_idx
+  ON share_access_requests(share_id, email)
+  WHERE status = 'pending';
+
+ALTER TABLE share_access_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own share access requests"
+  ON share_access_requests
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can answer own share access requests"
+  ON share_access_requests
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
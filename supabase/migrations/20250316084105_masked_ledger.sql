@@ -0,0 +1,36 @@
+/*
+  # Share Redaction
+
+  1. Changes
+    - Add `hidden_fields` (text[]) to `link_shares`: certificate details the
+      link does not show. Any of 'cert_number', 'description',
+      'completion_date', 'expiry_date' and 'file' (the certificate file and
+      its attachments). Title, issuer, type and status are always shown
+
+  2. Security
+    - The `resolve-share` edge function removes hidden details before
+      returning certificates and refuses downloads from links that hide the
+      file, so visitors never receive them
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'link_shares' AND column_name = 'hidden_fields'
+  ) THEN
+    ALTER TABLE link_shares ADD COLUMN hidden_fields text[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'link_shares_hidden_fields_check'
+  ) THEN
+    ALTER TABLE link_shares
+      ADD CONSTRAINT link_shares_hidden_fields_check
+      CHECK (hidden_fields <@ ARRAY['cert_number', 'description', 'completion_date', 'expiry_date', 'file']::text[]);
+  END IF;
+END $$;
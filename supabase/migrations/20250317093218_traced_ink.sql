@@ -0,0 +1,31 @@
+/*
+  # Share Watermarks
+
+  1. Changes
+    - Add `watermark` (boolean) to `link_shares`. When set, files downloaded
+      through the link are stamped with the viewer's verified email (for
+      recipient-bound links), the share ID and the time of download
+    - Add `watermark_text` (text) to `link_shares` - an optional extra line
+      chosen by the owner, at most 100 characters
+
+  2. Security
+    - Watermarks are drawn in the visitor's browser, after vault-encrypted
+      files are decrypted, so the settings are returned by `resolve-share`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'link_shares' AND column_name = 'watermark'
+  ) THEN
+    ALTER TABLE link_shares ADD COLUMN watermark boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'link_shares' AND column_name = 'watermark_text'
+  ) THEN
+    ALTER TABLE link_shares ADD COLUMN watermark_text text CHECK (char_length(watermark_text) <= 100);
+  END IF;
+END $$;
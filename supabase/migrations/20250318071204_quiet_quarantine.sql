@@ -0,0 +1,83 @@
+/*
+  # Rejected Certificate Files
+
+  1. Changes
+    - Add `file_rejected` (boolean) and `file_rejected_reason` (text) to
+      `certificates` and `certificate_attachments`. The `validate-upload`
+      edge function sets them on every record using a file it removed, so
+      the owner is told why the file is gone instead of finding a broken link
+    - Add a trigger that sets them when a record is saved with a file that is
+      no longer in storage, for records saved after the function removed
+      their file
+
+  2. Security
+    - The trigger function runs as its owner so it can look up the object in
+      `storage.objects`; it only changes the record being saved
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'certificates' AND column_name = 'file_rejected'
+  ) THEN
+    ALTER TABLE certificates ADD COLUMN file_rejected boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'certificates' AND column_name = 'file_rejected_reason'
+  ) THEN
+    ALTER TABLE certificates ADD COLUMN file_rejected_reason text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'certificate_attachments' AND column_name = 'file_rejected'
+  ) THEN
+    ALTER TABLE certificate_attachments ADD COLUMN file_rejected boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'certificate_attachments' AND column_name = 'file_rejected_reason'
+  ) THEN
+    ALTER TABLE certificate_attachments ADD COLUMN file_rejected_reason text;
+  END IF;
+END $$;
+
+-- Files are uploaded before the record that uses them is saved, so a file
+-- missing at that point was removed by the upload policy
+CREATE OR REPLACE FUNCTION public.flag_rejected_certificate_file()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.file_path IS NULL THEN
+    NEW.file_rejected := false;
+    NEW.file_rejected_reason := NULL;
+  ELSIF TG_OP = 'INSERT' OR NEW.file_path IS DISTINCT FROM OLD.file_path THEN
+    NEW.file_rejected := NOT EXISTS (
+      SELECT 1 FROM storage.objects
+      WHERE bucket_id = 'certificates' AND name = NEW.file_path
+    );
+    NEW.file_rejected_reason := CASE
+      WHEN NEW.file_rejected THEN 'The file was removed because it breaks the upload policy'
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS flag_rejected_certificate_file ON certificates;
+
+CREATE TRIGGER flag_rejected_certificate_file
+  BEFORE INSERT OR UPDATE OF file_path ON certificates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.flag_rejected_certificate_file();
+
+DROP TRIGGER IF EXISTS flag_rejected_certificate_file ON certificate_attachments;
+
+CREATE TRIGGER flag_rejected_certificate_file
+  BEFORE INSERT OR UPDATE OF file_path ON certificate_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.flag_rejected_certificate_file();